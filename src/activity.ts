@@ -0,0 +1,153 @@
+import * as vscode from 'vscode';
+
+// 記録する操作イベントの種類
+export type ActivityEventName =
+    | 'window_focus'
+    | 'window_blur'
+    | 'editor_switch'
+    | 'visible_range'
+    | 'cursor'
+    | 'document_open'
+    | 'document_close'
+    | 'idle_start'
+    | 'idle_end';
+
+// 操作イベントの通知
+export interface ActivityChange {
+    event: ActivityEventName;
+    uri?: vscode.Uri;
+    detail?: { [key: string]: any };
+}
+
+// 操作の追跡に使う設定
+export interface ActivityOptions {
+    enabled: boolean;
+    // この時間操作がなければ休止とみなす（ミリ秒）
+    idleThresholdMs: number;
+    // カーソル移動・スクロールを記録する最短間隔（ミリ秒）
+    sampleIntervalMs: number;
+}
+
+// ウィンドウのフォーカス、エディタの切り替え、スクロール、カーソル移動、休止を追跡する
+export class ActivityTracker implements vscode.Disposable {
+    private disposables: vscode.Disposable[];
+    private lastActivity: number;
+    private idleSince: number | null;
+    private idleTimer: NodeJS.Timeout;
+    // エディタごとの最後の記録時刻（カーソル・スクロールの間引き用）
+    private lastSampled: Map<string, number>;
+
+    constructor(
+        private isTracked: (document: vscode.TextDocument) => boolean,
+        private options: () => ActivityOptions,
+        private onActivity: (change: ActivityChange) => void
+    ) {
+        this.lastActivity = Date.now();
+        this.idleSince = null;
+        this.lastSampled = new Map();
+
+        this.disposables = [
+            vscode.window.onDidChangeWindowState(state => {
+                this.emit({ event: state.focused ? 'window_focus' : 'window_blur' });
+            }),
+            vscode.window.onDidChangeActiveTextEditor(editor => {
+                if (editor && this.isTracked(editor.document)) {
+                    this.emit({ event: 'editor_switch', uri: editor.document.uri, detail: { languageId: editor.document.languageId } });
+                } else {
+                    this.touch();
+                }
+            }),
+            vscode.window.onDidChangeTextEditorVisibleRanges(e => {
+                if (this.shouldSample(`visible:${e.textEditor.document.uri}`, e.textEditor.document)) {
+                    this.emit({
+                        event: 'visible_range',
+                        uri: e.textEditor.document.uri,
+                        detail: { ranges: e.visibleRanges.map(range => ({ startLine: range.start.line, endLine: range.end.line })) }
+                    });
+                }
+            }),
+            vscode.window.onDidChangeTextEditorSelection(e => {
+                if (this.shouldSample(`cursor:${e.textEditor.document.uri}`, e.textEditor.document)) {
+                    const active = e.selections[0].active;
+                    this.emit({
+                        event: 'cursor',
+                        uri: e.textEditor.document.uri,
+                        detail: {
+                            position: { line: active.line, character: active.character },
+                            selections: e.selections.length,
+                            kind: e.kind !== undefined ? vscode.TextEditorSelectionChangeKind[e.kind] : undefined
+                        }
+                    });
+                }
+            }),
+            vscode.workspace.onDidOpenTextDocument(document => {
+                if (this.isTracked(document)) {
+                    this.emit({ event: 'document_open', uri: document.uri });
+                }
+            }),
+            // 閉じたドキュメントは開いているドキュメントの一覧から外れているため、ドキュメント自体で判定する
+            vscode.workspace.onDidCloseTextDocument(document => {
+                if (this.isTracked(document)) {
+                    this.emit({ event: 'document_close', uri: document.uri });
+                }
+            }),
+            // 編集も操作として扱う（記録はLogger側で行う）
+            vscode.workspace.onDidChangeTextDocument(() => this.touch())
+        ];
+
+        // 休止の判定は一定間隔で行う
+        this.idleTimer = setInterval(() => this.checkIdle(), 5000);
+    }
+
+    // 間引き間隔を過ぎていれば記録する（そうでなくても操作としては扱う）
+    private shouldSample(key: string, document: vscode.TextDocument): boolean {
+        if (!this.isTracked(document)) {
+            return false;
+        }
+
+        const now = Date.now();
+        const last = this.lastSampled.get(key) || 0;
+        if (now - last < this.options().sampleIntervalMs) {
+            this.touch();
+            return false;
+        }
+        this.lastSampled.set(key, now);
+        return true;
+    }
+
+    // 操作があったことを記録し、休止中であれば休止の終了を通知する
+    private touch(): void {
+        const now = Date.now();
+        if (this.idleSince !== null && this.options().enabled) {
+            this.onActivity({ event: 'idle_end', detail: { duration: now - this.idleSince } });
+        }
+        this.idleSince = null;
+        this.lastActivity = now;
+    }
+
+    private emit(change: ActivityChange): void {
+        this.touch();
+        if (this.options().enabled) {
+            this.onActivity(change);
+        }
+    }
+
+    // 最後の操作から閾値を超えていれば休止の開始を通知する
+    private checkIdle(): void {
+        const options = this.options();
+        if (this.idleSince !== null || Date.now() - this.lastActivity < options.idleThresholdMs) {
+            return;
+        }
+
+        // 休止は最後の操作の時点から始まったものとする
+        this.idleSince = this.lastActivity;
+        if (options.enabled) {
+            this.onActivity({ event: 'idle_start', detail: { since: new Date(this.lastActivity).toISOString() } });
+        }
+    }
+
+    public dispose(): void {
+        clearInterval(this.idleTimer);
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
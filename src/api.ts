@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+import { EventBatch, EventSink } from './eventSink';
+import { JournalEvent } from './journal';
+import { JsonSchema, validateJson } from './jsonSchema';
+
+// 他の拡張機能に公開する API のバージョン（互換性のない変更をしたら上げる）
+export const API_VERSION = 1;
+
+// 記録されたイベントの通知
+export interface LoggerEvent {
+    studentId: string;
+    sessionId: string;
+    // ドキュメントごとのイベントであれば、そのドキュメント
+    documentUri?: string;
+    fileName?: string;
+    // 秘密情報を伏せ字にした後の、ジャーナルに書き込まれたイベント
+    event: JournalEvent;
+}
+
+// カスタムイベントの記録のオプション
+export interface CustomEventOptions {
+    // ドキュメントに関するイベントであれば、そのドキュメントのログに記録する（省略時はセッション全体のログ）
+    uri?: vscode.Uri;
+}
+
+// activate() が返す API
+// 使い方: const api = vscode.extensions.getExtension('<publisher>.student-code-logger')?.exports as LoggerApi;
+export interface LoggerApi {
+    readonly version: number;
+    readonly studentId: string;
+    readonly sessionId: string;
+    // ジャーナルに書き込まれたイベント（カスタムイベントを含む）
+    readonly onEvent: vscode.Event<LoggerEvent>;
+    // カスタムイベントの種類とペイロードのスキーマを登録する（種類は "拡張機能名.イベント名" の形）
+    registerEventSchema(type: string, schema: JsonSchema): vscode.Disposable;
+    // 登録済みの種類のカスタムイベントを記録する
+    // ペイロードがスキーマに合わない場合は例外を投げ、記録を一時停止している場合は false を返す
+    logCustomEvent(type: string, payload: { [key: string]: any }, options?: CustomEventOptions): boolean;
+}
+
+// API が Logger に求める機能
+export interface LoggerApiHost {
+    getStudentId(): string;
+    getSessionId(): string;
+    addSink(sink: EventSink): vscode.Disposable;
+    logCustomEvent(type: string, payload: { [key: string]: any }, uri?: vscode.Uri): boolean;
+}
+
+// カスタムイベントの種類の形（例: autograder.graded、quiz-panel.answer_submitted）
+const CUSTOM_TYPE_PATTERN = /^[a-z0-9][a-z0-9-]*\.[a-z0-9][\w.-]*$/i;
+
+// API を作る（返す Disposable は拡張機能の終了時に破棄する）
+export function createLoggerApi(host: LoggerApiHost): { api: LoggerApi; disposable: vscode.Disposable } {
+    const emitter = new vscode.EventEmitter<LoggerEvent>();
+    const schemas = new Map<string, JsonSchema>();
+
+    const sink: EventSink = {
+        publish(batch: EventBatch): void {
+            batch.events.forEach(event => emitter.fire({
+                studentId: batch.studentId,
+                sessionId: batch.sessionId,
+                documentUri: batch.documentUri,
+                fileName: batch.fileName,
+                event: event
+            }));
+        }
+    };
+    const sinkDisposable = host.addSink(sink);
+
+    const api: LoggerApi = {
+        version: API_VERSION,
+        get studentId() {
+            return host.getStudentId();
+        },
+        get sessionId() {
+            return host.getSessionId();
+        },
+        onEvent: emitter.event,
+
+        registerEventSchema(type: string, schema: JsonSchema): vscode.Disposable {
+            if (!CUSTOM_TYPE_PATTERN.test(type)) {
+                throw new Error(`カスタムイベントの種類 "${type}" は "<拡張機能>.<イベント>" の形で指定してください`);
+            }
+            if (schemas.has(type)) {
+                throw new Error(`カスタムイベントの種類 "${type}" は登録済みです`);
+            }
+            schemas.set(type, schema);
+            return new vscode.Disposable(() => {
+                if (schemas.get(type) === schema) {
+                    schemas.delete(type);
+                }
+            });
+        },
+
+        logCustomEvent(type: string, payload: { [key: string]: any }, options?: CustomEventOptions): boolean {
+            const schema = schemas.get(type);
+            if (!schema) {
+                throw new Error(`カスタムイベントの種類 "${type}" は登録されていません`);
+            }
+            const errors = validateJson(payload, schema);
+            if (errors.length > 0) {
+                throw new Error(`カスタムイベント "${type}" のペイロードがスキーマに合いません: ${errors.join('; ')}`);
+            }
+            return host.logCustomEvent(type, payload, options?.uri);
+        }
+    };
+
+    return {
+        api,
+        disposable: vscode.Disposable.from(emitter, sinkDisposable, new vscode.Disposable(() => schemas.clear()))
+    };
+}
@@ -0,0 +1,101 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { globToRegExp } from './settings';
+
+// ワークスペース直下に置く課題の定義ファイル
+export const ASSIGNMENT_FILE_NAME = '.assignment.json';
+
+// 課題の定義ファイルの内容
+// 例: { "id": "hw3", "title": "第3回課題", "files": ["main.py", "lib/**/*.py"], "deadline": "2024-07-01T23:59:00+09:00" }
+export interface AssignmentConfig {
+    id: string;
+    title?: string;
+    // 課題のファイル（ワークスペースからの相対パスのグロブパターン）
+    files: string[];
+    deadline?: string;
+}
+
+// 読み込んだ課題
+export interface Assignment extends AssignmentConfig {
+    // 定義ファイルのあるフォルダ
+    root: string;
+    configFile: string;
+}
+
+// 課題のファイルを探すときに除外するフォルダ
+const EXCLUDED_FOLDERS = ['.logs', '.submissions', '.git', 'node_modules', '__pycache__', '.venv'];
+
+// フォルダの課題の定義を読み込む（定義ファイルがなければ assignment も error もない）
+export function readAssignment(root: string): { assignment?: Assignment; error?: string } {
+    const configFile = path.join(root, ASSIGNMENT_FILE_NAME);
+    if (!fs.existsSync(configFile)) {
+        return {};
+    }
+
+    let config: any;
+    try {
+        config = JSON.parse(fs.readFileSync(configFile, 'utf8'));
+    } catch (error) {
+        return { error: `${ASSIGNMENT_FILE_NAME} を読み込めません: ${error instanceof Error ? error.message : error}` };
+    }
+
+    if (!config || typeof config.id !== 'string' || !config.id.trim()) {
+        return { error: `${ASSIGNMENT_FILE_NAME} に課題のID (id) がありません` };
+    }
+    if (!Array.isArray(config.files) || config.files.length === 0 || !config.files.every((file: any) => typeof file === 'string')) {
+        return { error: `${ASSIGNMENT_FILE_NAME} の課題のファイル (files) はパターンの配列で指定してください` };
+    }
+    if (config.deadline !== undefined && (typeof config.deadline !== 'string' || isNaN(Date.parse(config.deadline)))) {
+        return { error: `${ASSIGNMENT_FILE_NAME} の締め切り (deadline) は日時の文字列で指定してください` };
+    }
+
+    return {
+        assignment: {
+            id: config.id.trim(),
+            title: typeof config.title === 'string' ? config.title : undefined,
+            files: config.files,
+            deadline: config.deadline,
+            root: root,
+            configFile: configFile
+        }
+    };
+}
+
+// 課題のフォルダ内のファイルかどうか
+export function isInAssignmentFolder(assignment: Assignment, filePath: string): boolean {
+    const relative = path.relative(assignment.root, filePath);
+    return relative.length > 0 && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+// 課題のファイルかどうか
+export function isAssignmentFile(assignment: Assignment, filePath: string): boolean {
+    if (!isInAssignmentFolder(assignment, filePath)) {
+        return false;
+    }
+    const relative = path.relative(assignment.root, filePath).split(path.sep).join('/');
+    return assignment.files.some(pattern => globToRegExp(pattern).test(relative));
+}
+
+// 課題のファイルの一覧（ディスク上にあるもの）
+export function listAssignmentFiles(assignment: Assignment): string[] {
+    const files: string[] = [];
+    const walk = (folder: string) => {
+        for (const entry of fs.readdirSync(folder, { withFileTypes: true })) {
+            const entryPath = path.join(folder, entry.name);
+            if (entry.isDirectory()) {
+                if (!EXCLUDED_FOLDERS.includes(entry.name)) {
+                    walk(entryPath);
+                }
+            } else if (entry.isFile() && isAssignmentFile(assignment, entryPath)) {
+                files.push(entryPath);
+            }
+        }
+    };
+    walk(assignment.root);
+    return files.sort();
+}
+
+// 締め切りを過ぎているかどうか
+export function isPastDeadline(assignment: Assignment, date: Date): boolean {
+    return assignment.deadline !== undefined && date.getTime() > Date.parse(assignment.deadline);
+}
@@ -0,0 +1,97 @@
+import * as vscode from 'vscode';
+
+// 変更の発生元の分類
+export type EditSource =
+    | 'typing'
+    | 'paste'
+    | 'completion'
+    | 'multi_cursor'
+    | 'undo'
+    | 'redo'
+    | 'formatter';
+
+// まとまったテキストの挿入の分類結果
+export interface InsertionClassification {
+    source: EditSource;
+    // クリップボードの内容と一致したかどうか
+    clipboardMatch: boolean;
+}
+
+// 改行コードの違いを無視して比較するための正規化
+function normalizeEol(text: string): string {
+    return text.replace(/\r\n/g, '\n');
+}
+
+// テキスト変更イベントの発生元を推定する
+export class ChangeClassifier implements vscode.Disposable {
+    // 保存前の処理（保存時フォーマット）中のドキュメント
+    private savingDocuments: Set<string>;
+    private disposables: vscode.Disposable[];
+
+    constructor() {
+        this.savingDocuments = new Set();
+        this.disposables = [
+            vscode.workspace.onWillSaveTextDocument(e => {
+                this.savingDocuments.add(e.document.uri.toString());
+            }),
+            vscode.workspace.onDidSaveTextDocument(document => {
+                this.savingDocuments.delete(document.uri.toString());
+            })
+        ];
+    }
+
+    // イベント全体から判断できる発生元（判断できない場合はundefined）
+    public classifyEvent(e: vscode.TextDocumentChangeEvent): EditSource | undefined {
+        if (e.reason === vscode.TextDocumentChangeReason.Undo) {
+            return 'undo';
+        }
+        if (e.reason === vscode.TextDocumentChangeReason.Redo) {
+            return 'redo';
+        }
+        if (this.savingDocuments.has(e.document.uri.toString())) {
+            return 'formatter';
+        }
+
+        const changes = e.contentChanges;
+        if (changes.length > 1) {
+            // 全てのカーソル位置に同じ入力がされている
+            if (changes.every(change => change.text === changes[0].text)) {
+                return 'multi_cursor';
+            }
+            // 空白だけの変更が複数箇所にある
+            if (changes.every(change => /^\s*$/.test(change.text))) {
+                return 'formatter';
+            }
+        }
+
+        return undefined;
+    }
+
+    // まとまったテキストの挿入を、クリップボードと照合して分類する
+    public async classifyInsertion(change: vscode.TextDocumentContentChangeEvent, document: vscode.TextDocument): Promise<InsertionClassification> {
+        let clipboard = '';
+        try {
+            clipboard = await vscode.env.clipboard.readText();
+        } catch {
+            // クリップボードが読めない環境では照合しない
+        }
+
+        const clipboardMatch = clipboard.length > 0 && normalizeEol(clipboard) === normalizeEol(change.text);
+        if (clipboardMatch) {
+            return { source: 'paste', clipboardMatch };
+        }
+
+        // ドキュメント全体が置き換えられた場合はフォーマッタによるものとみなす
+        const lastLine = document.lineCount - 1;
+        if (change.range.start.line === 0 && change.range.start.character === 0 &&
+            change.range.end.line >= lastLine && change.rangeLength > 0) {
+            return { source: 'formatter', clipboardMatch };
+        }
+
+        return { source: 'completion', clipboardMatch };
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
@@ -0,0 +1,410 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { JournalEvent } from './journal';
+import { EditEvent, ErrorEvent, ExecutionEvent, KeyEvent } from './logTypes';
+import { LogSession, collectSessions, csvValue } from './exporter';
+import { IDLE_THRESHOLD_MS, computeStats, exceptionTypeOf } from './stats';
+import { SnapshotStore, snapshotFolder } from './snapshotStore';
+import { isIntact, allIssues, verifyFolder } from './integrity';
+
+// 教員向けに、集めた生徒のログをまとめる（VS Code に依存しないため、CLIから使える）
+
+// ファイルごとの集計
+export interface FileSummary {
+    fileName: string;
+    // キー入力・短い編集で入力した文字数
+    typedChars: number;
+    pasteCount: number;
+    pastedChars: number;
+    // 最初に記録した時点と、最後に記録した時点のソースの長さ（スナップショットがなければ null）
+    initialLength: number | null;
+    finalLength: number | null;
+}
+
+// 通常と異なる傾向
+export interface AnomalyFlag {
+    kind: 'little_typing' | 'large_paste_share' | 'short_time' | 'never_ran' | 'log_integrity';
+    file?: string;
+    message: string;
+}
+
+// 生徒ごとの集計
+export interface StudentSummary {
+    studentId: string;
+    sessions: number;
+    // 取り組んでいた時間（フォーカス・休止の記録がないセッションは入力している時間）
+    timeOnTask: number;
+    activeTime: number;
+    keystrokes: number;
+    typedChars: number;
+    pasteCount: number;
+    pastedChars: number;
+    runs: number;
+    failedRuns: number;
+    errorTypes: { type: string; count: number }[];
+    files: FileSummary[];
+    // ログの改ざん・欠落の疑いがある箇所の数
+    integrityIssues: number;
+    flags: AnomalyFlag[];
+}
+
+// クラス全体のレポート
+export interface ClassReport {
+    root: string;
+    generatedAt: string;
+    logFolders: string[];
+    students: StudentSummary[];
+    errorTypes: { type: string; count: number }[];
+}
+
+// 傾向を判定する閾値
+export interface ReportThresholds {
+    // 最終的なソースの長さに対して、入力した文字数がこの割合未満なら指摘する
+    minTypedRatio: number;
+    // これより短いソースは判定しない
+    minSolutionLength: number;
+    // 挿入した文字のうち、貼り付けがこの割合を超えたら指摘する
+    maxPasteShare: number;
+    minPastedChars: number;
+    // 課題に取り組んだ時間がこれより短ければ指摘する（ミリ秒）
+    minTimeOnTask: number;
+    // 入力の間隔がこれを超えたら休止とみなす（ミリ秒、生徒の Logger.idleThresholdSeconds に合わせる）
+    idleThreshold: number;
+}
+
+export const DEFAULT_THRESHOLDS: ReportThresholds = {
+    minTypedRatio: 0.2,
+    minSolutionLength: 200,
+    maxPasteShare: 0.5,
+    minPastedChars: 300,
+    minTimeOnTask: 5 * 60 * 1000,
+    idleThreshold: IDLE_THRESHOLD_MS
+};
+
+// ログを探すときに降りないフォルダ
+const SKIPPED_FOLDERS = ['node_modules', '.git', 'snapshots', 'upload-queue', 'migration-backup'];
+
+// フォルダ以下から、ログ（パートファイル）を含むフォルダを探す
+export function findLogFolders(root: string): string[] {
+    const folders: string[] = [];
+    const walk = (folder: string) => {
+        const entries = fs.readdirSync(folder, { withFileTypes: true });
+        if (entries.some(entry => entry.isFile() && /_part\d+\.jsonl?$/.test(entry.name))) {
+            folders.push(folder);
+        }
+        entries
+            .filter(entry => entry.isDirectory() && !SKIPPED_FOLDERS.includes(entry.name))
+            .forEach(entry => walk(path.join(folder, entry.name)));
+    };
+    walk(root);
+    return folders.sort();
+}
+
+// 種類ごとの回数を多い順に並べる
+function countsOf(counts: Map<string, number>): { type: string; count: number }[] {
+    return Array.from(counts.entries())
+        .map(([type, count]) => ({ type, count }))
+        .sort((a, b) => b.count - a.count || a.type.localeCompare(b.type));
+}
+
+// 貼り付けとみなす編集
+function isPaste(event: JournalEvent): boolean {
+    return event.type === 'edit' && (event.source === 'paste' || (event.source === undefined && event.largeInsert === true));
+}
+
+// イベントが参照するスナップショットの長さ
+function snapshotLength(session: LogSession, event: JournalEvent | undefined): number | null {
+    if (!event) {
+        return null;
+    }
+    if (typeof event.content === 'string') {
+        return event.content.length;
+    }
+    if (!event.snapshotId || session.sourceFiles.length === 0) {
+        return null;
+    }
+    const content = new SnapshotStore(snapshotFolder(path.dirname(session.sourceFiles[0]))).get(event.snapshotId);
+    return content !== undefined ? content.length : null;
+}
+
+// 1人の生徒のセッションを集計する
+export function summarizeStudent(studentId: string, sessions: LogSession[], integrityIssues: number, thresholds: ReportThresholds = DEFAULT_THRESHOLDS): StudentSummary {
+    const errorCounts = new Map<string, number>();
+    const files = new Map<string, FileSummary & { firstTime: string; lastTime: string }>();
+    const sessionIds = new Set(sessions.map(session => session.sessionId));
+    let timeOnTask = 0;
+    let activeTime = 0;
+    let keystrokes = 0;
+    let runs = 0;
+    let failedRuns = 0;
+
+    // 時間はセッションごとに求めて合計する（セッションの間の時間を含めない）
+    sessionIds.forEach(sessionId => {
+        const events = sessions
+            .filter(session => session.sessionId === sessionId)
+            .flatMap(session => session.events);
+        const stats = computeStats(events, thresholds.idleThreshold);
+        activeTime += stats.activeTime;
+        timeOnTask += stats.engagedTime !== undefined ? stats.engagedTime : stats.activeTime;
+        keystrokes += stats.keystrokes;
+        runs += stats.runs;
+        failedRuns += stats.failedRuns;
+    });
+
+    for (const session of sessions) {
+        for (const event of session.events) {
+            if (event.type === 'error' && /_execution_error$/.test((event as ErrorEvent).event || '')) {
+                const type = exceptionTypeOf(event) || 'Unknown';
+                errorCounts.set(type, (errorCounts.get(type) || 0) + 1);
+            }
+        }
+
+        if (!session.fileName) {
+            continue;
+        }
+        const file = files.get(session.fileName) || {
+            fileName: session.fileName,
+            typedChars: 0,
+            pasteCount: 0,
+            pastedChars: 0,
+            initialLength: null,
+            finalLength: null,
+            firstTime: '',
+            lastTime: ''
+        };
+        files.set(session.fileName, file);
+
+        for (const event of session.events) {
+            if (event.type === 'key') {
+                const key = event as KeyEvent;
+                file.typedChars += key.key === 'Delete' ? 0 : Math.max((key.text || key.key).length, 1);
+            } else if (isPaste(event)) {
+                file.pasteCount++;
+                file.pastedChars += ((event as EditEvent).text || '').length;
+            } else if (event.type === 'edit' && ((event as EditEvent).source || 'typing') === 'typing') {
+                file.typedChars += ((event as EditEvent).text || '').length;
+            }
+        }
+
+        // 最初と最後のスナップショットから、ソースの長さを求める
+        // セル単位のスナップショットはファイル全体の長さにならないため使わない
+        const withSnapshot = session.events.filter(event => event.cellId === undefined && (event.snapshotId || typeof event.content === 'string'));
+        const first = withSnapshot[0];
+        const last = withSnapshot[withSnapshot.length - 1];
+        if (first && (!file.firstTime || first.timestamp < file.firstTime)) {
+            file.firstTime = first.timestamp;
+            file.initialLength = snapshotLength(session, first);
+        }
+        if (last && last.timestamp >= file.lastTime) {
+            file.lastTime = last.timestamp;
+            file.finalLength = snapshotLength(session, last);
+        }
+    }
+
+    const fileSummaries: FileSummary[] = Array.from(files.values())
+        .map(({ firstTime, lastTime, ...file }) => file)
+        .sort((a, b) => a.fileName.localeCompare(b.fileName));
+    const summary: StudentSummary = {
+        studentId: studentId,
+        sessions: sessionIds.size,
+        timeOnTask: timeOnTask,
+        activeTime: activeTime,
+        keystrokes: keystrokes,
+        typedChars: fileSummaries.reduce((sum, file) => sum + file.typedChars, 0),
+        pasteCount: fileSummaries.reduce((sum, file) => sum + file.pasteCount, 0),
+        pastedChars: fileSummaries.reduce((sum, file) => sum + file.pastedChars, 0),
+        runs: runs,
+        failedRuns: failedRuns,
+        errorTypes: countsOf(errorCounts),
+        files: fileSummaries,
+        integrityIssues: integrityIssues,
+        flags: []
+    };
+    summary.flags = detectAnomalies(summary, thresholds);
+    return summary;
+}
+
+// 通常と異なる傾向を判定する
+export function detectAnomalies(summary: StudentSummary, thresholds: ReportThresholds = DEFAULT_THRESHOLDS): AnomalyFlag[] {
+    const flags: AnomalyFlag[] = [];
+
+    for (const file of summary.files) {
+        // ほとんど入力せずに解答ができあがっている
+        if (file.finalLength !== null && file.finalLength >= thresholds.minSolutionLength &&
+            file.typedChars < file.finalLength * thresholds.minTypedRatio) {
+            flags.push({
+                kind: 'little_typing',
+                file: file.fileName,
+                message: `${path.basename(file.fileName)}: ${file.finalLength} 文字のソースに対して入力は ${file.typedChars} 文字`
+            });
+        }
+    }
+
+    const inserted = summary.typedChars + summary.pastedChars;
+    if (summary.pastedChars >= thresholds.minPastedChars && summary.pastedChars > inserted * thresholds.maxPasteShare) {
+        flags.push({
+            kind: 'large_paste_share',
+            message: `挿入した文字の ${Math.round(summary.pastedChars / inserted * 100)}% が貼り付け (${summary.pasteCount} 回)`
+        });
+    }
+
+    const totalLength = summary.files.reduce((sum, file) => sum + (file.finalLength || 0), 0);
+    if (totalLength >= thresholds.minSolutionLength && summary.timeOnTask < thresholds.minTimeOnTask) {
+        flags.push({
+            kind: 'short_time',
+            message: `取り組んだ時間が ${Math.round(summary.timeOnTask / 60000)} 分で、ソースは ${totalLength} 文字`
+        });
+    }
+
+    if (totalLength >= thresholds.minSolutionLength && summary.runs === 0) {
+        flags.push({ kind: 'never_ran', message: '一度も実行していません' });
+    }
+
+    if (summary.integrityIssues > 0) {
+        flags.push({ kind: 'log_integrity', message: `ログの変更・欠落の疑い (${summary.integrityIssues} 件)` });
+    }
+
+    return flags;
+}
+
+// フォルダ以下のすべての生徒のログを集計する
+export function buildClassReport(root: string, thresholds: ReportThresholds = DEFAULT_THRESHOLDS, signingKey?: string): ClassReport {
+    const logFolders = findLogFolders(root);
+    const sessionsByStudent = new Map<string, LogSession[]>();
+    const issuesByStudent = new Map<string, number>();
+
+    for (const folder of logFolders) {
+        const sessions = collectSessions([folder]);
+        const verification = verifyFolder(folder, signingKey);
+        const issues = isIntact(verification)
+            ? 0
+            : allIssues(verification).filter(issue => issue.severity === 'error').length;
+
+        new Set(sessions.map(session => session.studentId)).forEach(studentId => {
+            issuesByStudent.set(studentId, (issuesByStudent.get(studentId) || 0) + issues);
+        });
+        sessions.forEach(session => {
+            const list = sessionsByStudent.get(session.studentId) || [];
+            list.push(session);
+            sessionsByStudent.set(session.studentId, list);
+        });
+    }
+
+    const students = Array.from(sessionsByStudent.entries())
+        .map(([studentId, sessions]) => summarizeStudent(studentId, sessions, issuesByStudent.get(studentId) || 0, thresholds))
+        .sort((a, b) => a.studentId.localeCompare(b.studentId));
+
+    const errorCounts = new Map<string, number>();
+    students.forEach(student => student.errorTypes.forEach(item => {
+        errorCounts.set(item.type, (errorCounts.get(item.type) || 0) + item.count);
+    }));
+
+    return {
+        root: root,
+        generatedAt: new Date().toISOString(),
+        logFolders: logFolders,
+        students: students,
+        errorTypes: countsOf(errorCounts)
+    };
+}
+
+export const STUDENT_CSV_COLUMNS = [
+    'studentId', 'sessions', 'timeOnTaskMinutes', 'activeMinutes', 'keystrokes', 'typedChars',
+    'pasteCount', 'pastedChars', 'runs', 'failedRuns', 'errorTypes', 'integrityIssues', 'flags'
+];
+
+// 生徒ごとに1行のCSV
+export function formatClassCsv(report: ClassReport): string {
+    const lines = [STUDENT_CSV_COLUMNS.join(',')];
+    for (const student of report.students) {
+        lines.push([
+            student.studentId,
+            student.sessions,
+            (student.timeOnTask / 60000).toFixed(1),
+            (student.activeTime / 60000).toFixed(1),
+            student.keystrokes,
+            student.typedChars,
+            student.pasteCount,
+            student.pastedChars,
+            student.runs,
+            student.failedRuns,
+            student.errorTypes.map(item => `${item.type}:${item.count}`).join('; '),
+            student.integrityIssues,
+            student.flags.map(flag => flag.kind).join('; ')
+        ].map(value => csvValue(value)).join(','));
+    }
+    return lines.join('\r\n') + '\r\n';
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// ミリ秒を「分:秒」で表す
+function formatDuration(ms: number): string {
+    const seconds = Math.round(ms / 1000);
+    return `${Math.floor(seconds / 60)}分${seconds % 60}秒`;
+}
+
+// 中央値
+function median(values: number[]): number {
+    if (values.length === 0) {
+        return 0;
+    }
+    const sorted = values.slice().sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+// クラス全体のレポートのHTML
+export function formatClassHtml(report: ClassReport): string {
+    const flagged = report.students.filter(student => student.flags.length > 0);
+    const studentRows = report.students.map(student => `<tr class="${student.flags.length > 0 ? 'flagged' : ''}">
+        <td>${escapeHtml(student.studentId)}</td>
+        <td>${student.sessions}</td>
+        <td>${formatDuration(student.timeOnTask)}</td>
+        <td>${student.keystrokes}</td>
+        <td>${student.pasteCount} (${student.pastedChars} 文字)</td>
+        <td>${student.runs} (失敗 ${student.failedRuns})</td>
+        <td>${escapeHtml(student.errorTypes.slice(0, 3).map(item => `${item.type} ×${item.count}`).join(', '))}</td>
+        <td>${student.flags.map(flag => escapeHtml(flag.message)).join('<br>')}</td>
+    </tr>`).join('');
+    const errorRows = report.errorTypes.slice(0, 15)
+        .map(item => `<tr><td>${escapeHtml(item.type)}</td><td>${item.count}</td></tr>`)
+        .join('');
+
+    return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+<meta charset="UTF-8">
+<title>クラスのレポート</title>
+<style>
+    body { font-family: sans-serif; margin: 16px; }
+    table { border-collapse: collapse; margin-bottom: 16px; }
+    th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; }
+    tr.flagged { background: #fff3cd; }
+</style>
+</head>
+<body>
+<h1>クラスのレポート</h1>
+<p>${escapeHtml(report.root)}（${escapeHtml(new Date(report.generatedAt).toLocaleString())} 作成）</p>
+<h2>概要</h2>
+<table>
+    <tr><th>生徒数</th><td>${report.students.length}</td></tr>
+    <tr><th>取り組んだ時間の中央値</th><td>${formatDuration(median(report.students.map(student => student.timeOnTask)))}</td></tr>
+    <tr><th>実行回数の中央値</th><td>${median(report.students.map(student => student.runs))}</td></tr>
+    <tr><th>指摘のある生徒</th><td>${flagged.length}</td></tr>
+</table>
+<h2>よく発生した例外</h2>
+<table>
+    <tr><th>例外</th><th>回数</th></tr>
+    ${errorRows || '<tr><td colspan="2">なし</td></tr>'}
+</table>
+<h2>生徒別</h2>
+<table>
+    <tr><th>生徒</th><th>セッション</th><th>取り組んだ時間</th><th>キー入力数</th><th>貼り付け</th><th>実行</th><th>主な例外</th><th>指摘</th></tr>
+    ${studentRows}
+</table>
+</body>
+</html>`;
+}
@@ -0,0 +1,82 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// コマンドの分類
+// run: 記録対象のファイルの実行、test: テストの実行、install: パッケージのインストール、other: その他
+export type TerminalCommandKind = 'run' | 'test' | 'install' | 'other';
+
+// ファイルを実行するコマンド（拡張子を除いた名前）
+const RUNNERS = /^(python[\d.]*|py|pypy3?|node|deno|bun|ts-node|tsx|java|dotnet|ruby|perl|bash|sh)$/;
+const TEST_RUNNERS = /^(pytest|py\.test|jest|mocha|vitest)$/;
+const INSTALLERS = /^(pip[\d.]*|npm|pnpm|yarn|conda|poetry|uv)$/;
+
+// コマンドラインを引数に分割する（引用符で囲まれた部分は1つの引数）
+// シェルを介さずに実行するため、変数の展開は分割した後に引数ごとに行う
+export function splitCommandLine(commandLine: string): string[] {
+    const args: string[] = [];
+    let current = '';
+    let quote: string | null = null;
+    let hasToken = false;
+
+    for (const char of commandLine) {
+        if (quote) {
+            if (char === quote) {
+                quote = null;
+            } else {
+                current += char;
+            }
+        } else if (char === '"' || char === '\'') {
+            quote = char;
+            hasToken = true;
+        } else if (/\s/.test(char)) {
+            if (hasToken) {
+                args.push(current);
+                current = '';
+                hasToken = false;
+            }
+        } else {
+            current += char;
+            hasToken = true;
+        }
+    }
+    if (hasToken) {
+        args.push(current);
+    }
+    return args;
+}
+
+// コマンド名（パスと .exe を除いたもの）
+function commandNameOf(arg: string): string {
+    return path.basename(arg).replace(/\.exe$/i, '').toLowerCase();
+}
+
+// コマンドラインを分類し、参照している記録対象のファイルを探す
+export function classifyCommand(
+    commandLine: string,
+    cwd: string | undefined,
+    isTrackedFile: (filePath: string) => boolean
+): { kind: TerminalCommandKind; file?: string } {
+    const args = splitCommandLine(commandLine);
+    if (args.length === 0) {
+        return { kind: 'other' };
+    }
+
+    // 引数のうち、実在する記録対象のファイル
+    const file = args
+        .map(arg => path.isAbsolute(arg) ? arg : cwd ? path.resolve(cwd, arg) : undefined)
+        .find(candidate => candidate !== undefined && fs.existsSync(candidate) && fs.statSync(candidate).isFile() && isTrackedFile(candidate));
+
+    const name = commandNameOf(args[0]);
+    const module = args[1] === '-m' ? commandNameOf(args[2] || '') : undefined;
+    if (TEST_RUNNERS.test(name) || module === 'pytest' || module === 'unittest') {
+        return { kind: 'test', file };
+    }
+    if (INSTALLERS.test(name) || module === 'pip') {
+        return { kind: 'install', file };
+    }
+    // 「python main.py」のようにインタプリタに渡すか、「./main.py」のように直接実行する
+    if (file && (RUNNERS.test(name) || file === (path.isAbsolute(args[0]) ? args[0] : cwd && path.resolve(cwd, args[0])))) {
+        return { kind: 'run', file };
+    }
+    return { kind: 'other', file };
+}
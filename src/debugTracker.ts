@@ -0,0 +1,197 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ExecutionLogEntry } from './logTypes';
+
+// 記録するデバッグのイベントの種類
+export type DebugEventName =
+    | 'debug_start'
+    | 'debug_end'
+    | 'debug_stopped'
+    | 'breakpoint_added'
+    | 'breakpoint_removed';
+
+// デバッグのイベントの通知（実行ログと同じ形で記録する）
+export interface DebugChange {
+    event: DebugEventName;
+    file: string;
+    // ファイルを開いていれば、そのドキュメントの言語ID
+    languageId?: string;
+    detail: Partial<ExecutionLogEntry>;
+}
+
+// デバッグ中のセッション
+interface DebugSessionState {
+    startTime: number;
+    file: string;
+    languageId?: string;
+    exitCode?: number;
+}
+
+// 開いているドキュメントの言語ID
+function languageIdOf(filePath: string): string | undefined {
+    const document = vscode.workspace.textDocuments.find(doc => doc.fileName === filePath);
+    return document?.languageId;
+}
+
+// デバッガのセッション、ブレークポイントの追加・削除、停止とその理由を追跡する
+export class DebugTracker implements vscode.Disposable {
+    private disposables: vscode.Disposable[];
+    private sessions: Map<string, DebugSessionState>;
+
+    constructor(private onDebug: (change: DebugChange) => void) {
+        this.sessions = new Map();
+
+        this.disposables = [
+            vscode.debug.onDidStartDebugSession(session => this.onStart(session)),
+            vscode.debug.onDidTerminateDebugSession(session => this.onTerminate(session)),
+            vscode.debug.onDidChangeBreakpoints(e => {
+                e.added.forEach(breakpoint => this.emitBreakpoint('breakpoint_added', breakpoint));
+                e.removed.forEach(breakpoint => this.emitBreakpoint('breakpoint_removed', breakpoint));
+            }),
+            // 停止の理由や終了コードはデバッグアダプタのメッセージからしか分からない
+            vscode.debug.registerDebugAdapterTrackerFactory('*', {
+                createDebugAdapterTracker: session => ({
+                    onDidSendMessage: message => this.onAdapterMessage(session, message)
+                })
+            })
+        ];
+    }
+
+    private onStart(session: vscode.DebugSession): void {
+        // 起動するプログラムが分からない場合（アタッチなど）は、アクティブなエディタのファイルとする
+        const program = session.configuration.program;
+        const file = typeof program === 'string' && path.isAbsolute(program)
+            ? program
+            : vscode.window.activeTextEditor?.document.uri.scheme === 'file'
+                ? vscode.window.activeTextEditor.document.fileName
+                : undefined;
+        if (!file) {
+            return;
+        }
+
+        const state: DebugSessionState = { startTime: Date.now(), file, languageId: languageIdOf(file) };
+        this.sessions.set(session.id, state);
+        this.onDebug({
+            event: 'debug_start',
+            file: file,
+            languageId: state.languageId,
+            detail: this.sessionDetail(session)
+        });
+    }
+
+    private onTerminate(session: vscode.DebugSession): void {
+        const state = this.sessions.get(session.id);
+        if (!state) {
+            return;
+        }
+
+        this.sessions.delete(session.id);
+        this.onDebug({
+            event: 'debug_end',
+            file: state.file,
+            languageId: state.languageId,
+            detail: {
+                ...this.sessionDetail(session),
+                exitCode: state.exitCode,
+                duration: Date.now() - state.startTime
+            }
+        });
+    }
+
+    // デバッグアダプタが送るイベントのうち、停止と終了を扱う
+    private onAdapterMessage(session: vscode.DebugSession, message: any): void {
+        const state = this.sessions.get(session.id);
+        if (!state || !message || message.type !== 'event') {
+            return;
+        }
+
+        if (message.event === 'exited' && typeof message.body?.exitCode === 'number') {
+            state.exitCode = message.body.exitCode;
+        } else if (message.event === 'stopped') {
+            this.onStopped(session, state, message.body || {}).catch(error => {
+                console.error('Failed to log debug stop:', error);
+            });
+        }
+    }
+
+    // 停止した位置と理由を記録する（例外で止まった場合は例外の内容も）
+    private async onStopped(session: vscode.DebugSession, state: DebugSessionState, body: any): Promise<void> {
+        const reason: string = body.reason || 'unknown';
+        const threadId: number | undefined = body.threadId;
+        const detail: Partial<ExecutionLogEntry> = {
+            ...this.sessionDetail(session),
+            reason: reason,
+            description: body.description || body.text
+        };
+        let file = state.file;
+
+        if (threadId !== undefined) {
+            // 停止した位置（一番上のスタックフレーム）
+            try {
+                const trace = await session.customRequest('stackTrace', { threadId, startFrame: 0, levels: 1 });
+                const frame = trace?.stackFrames?.[0];
+                if (frame) {
+                    detail.line = frame.line;
+                    if (typeof frame.source?.path === 'string' && path.isAbsolute(frame.source.path)) {
+                        detail.stoppedFile = frame.source.path;
+                    }
+                }
+            } catch {
+                // 停止直後に再開された場合などは位置を記録しない
+            }
+
+            if (reason === 'exception') {
+                try {
+                    const info = await session.customRequest('exceptionInfo', { threadId });
+                    detail.exceptionType = info?.exceptionId;
+                    detail.exceptionMessage = info?.description || body.text;
+                } catch {
+                    // exceptionInfo に対応していないアダプタでは、停止イベントの説明を使う
+                    detail.exceptionMessage = body.text || body.description;
+                }
+            }
+        }
+
+        // ユーザーのファイルで止まった場合はそのファイルのログに記録する
+        if (detail.stoppedFile && languageIdOf(detail.stoppedFile)) {
+            file = detail.stoppedFile;
+        }
+        this.onDebug({
+            event: 'debug_stopped',
+            file: file,
+            languageId: file === state.file ? state.languageId : languageIdOf(file),
+            detail: detail
+        });
+    }
+
+    private emitBreakpoint(event: 'breakpoint_added' | 'breakpoint_removed', breakpoint: vscode.Breakpoint): void {
+        if (!(breakpoint instanceof vscode.SourceBreakpoint) || breakpoint.location.uri.scheme !== 'file') {
+            return;
+        }
+
+        const file = breakpoint.location.uri.fsPath;
+        this.onDebug({
+            event: event,
+            file: file,
+            languageId: languageIdOf(file),
+            detail: {
+                line: breakpoint.location.range.start.line + 1,
+                condition: breakpoint.condition,
+                enabled: breakpoint.enabled
+            }
+        });
+    }
+
+    // セッションを識別する情報
+    private sessionDetail(session: vscode.DebugSession): Partial<ExecutionLogEntry> {
+        return {
+            debugSessionId: session.id,
+            debugType: session.type
+        };
+    }
+
+    public dispose(): void {
+        this.sessions.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
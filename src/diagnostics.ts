@@ -0,0 +1,155 @@
+import * as vscode from 'vscode';
+
+// 記録する診断情報
+export interface DiagnosticRecord {
+    id: string;
+    severity: string;
+    source?: string;
+    code?: string;
+    message: string;
+    range: {
+        start: { line: number; character: number };
+        end: { line: number; character: number };
+    };
+}
+
+// 診断の出現・解消の通知
+export interface DiagnosticChange {
+    uri: vscode.Uri;
+    event: 'diagnostic_appeared' | 'diagnostic_resolved';
+    diagnostic: DiagnosticRecord;
+    // 解消までにかかった時間（ミリ秒）
+    duration?: number;
+}
+
+// 追跡中の診断
+interface ActiveDiagnostic {
+    record: DiagnosticRecord;
+    key: string;
+    appearedAt: number;
+}
+
+// エディタの診断（リンター・型エラー）の出現と解消を追跡する
+export class DiagnosticTracker implements vscode.Disposable {
+    private active: Map<string, ActiveDiagnostic[]>;
+    private nextId: number;
+    private disposable: vscode.Disposable;
+
+    constructor(
+        private isTracked: (uri: vscode.Uri) => boolean,
+        private severities: () => string[],
+        private onChange: (change: DiagnosticChange) => void
+    ) {
+        this.active = new Map();
+        this.nextId = 1;
+        this.disposable = vscode.languages.onDidChangeDiagnostics(e => {
+            e.uris.forEach(uri => this.update(uri));
+        });
+
+        // 起動時点で既にある診断を取り込む
+        vscode.languages.getDiagnostics().forEach(([uri]) => this.update(uri));
+    }
+
+    // ドキュメントの診断を前回の状態と比較して、出現・解消を通知する
+    private update(uri: vscode.Uri): void {
+        const key = uri.toString();
+        const isOpen = vscode.workspace.textDocuments.some(doc => doc.uri.toString() === key);
+
+        // 閉じられたドキュメントの診断は解消ではないので、記録せずに追跡をやめる
+        if (!isOpen || !this.isTracked(uri)) {
+            this.active.delete(key);
+            return;
+        }
+
+        const allowed = this.severities();
+        const current = vscode.languages.getDiagnostics(uri)
+            .filter(diagnostic => allowed.includes(vscode.DiagnosticSeverity[diagnostic.severity]));
+        const previous = this.active.get(key) || [];
+        const remaining = [...previous];
+        const next: ActiveDiagnostic[] = [];
+        const now = Date.now();
+
+        for (const diagnostic of current) {
+            const diagnosticKey = this.keyOf(diagnostic);
+
+            // 同じ内容の診断のうち、最も近い行にあるものを同一とみなす（編集で行がずれるため）
+            let bestIndex = -1;
+            remaining.forEach((item, index) => {
+                if (item.key !== diagnosticKey) {
+                    return;
+                }
+                if (bestIndex === -1 ||
+                    Math.abs(item.record.range.start.line - diagnostic.range.start.line) <
+                    Math.abs(remaining[bestIndex].record.range.start.line - diagnostic.range.start.line)) {
+                    bestIndex = index;
+                }
+            });
+
+            if (bestIndex >= 0) {
+                const matched = remaining.splice(bestIndex, 1)[0];
+                matched.record.range = this.rangeOf(diagnostic.range);
+                next.push(matched);
+            } else {
+                const item: ActiveDiagnostic = {
+                    record: this.toRecord(diagnostic),
+                    key: diagnosticKey,
+                    appearedAt: now
+                };
+                next.push(item);
+                this.onChange({ uri, event: 'diagnostic_appeared', diagnostic: item.record });
+            }
+        }
+
+        // 対応する診断がなくなったものは解消された
+        for (const item of remaining) {
+            this.onChange({
+                uri,
+                event: 'diagnostic_resolved',
+                diagnostic: item.record,
+                duration: now - item.appearedAt
+            });
+        }
+
+        if (next.length > 0) {
+            this.active.set(key, next);
+        } else {
+            this.active.delete(key);
+        }
+    }
+
+    // 同一の診断かどうかを判定するためのキー
+    private keyOf(diagnostic: vscode.Diagnostic): string {
+        return [diagnostic.severity, diagnostic.source || '', this.codeOf(diagnostic) || '', diagnostic.message].join('|');
+    }
+
+    // 診断コードを文字列にする
+    private codeOf(diagnostic: vscode.Diagnostic): string | undefined {
+        const code = diagnostic.code;
+        if (code === undefined) {
+            return undefined;
+        }
+        return typeof code === 'object' ? String(code.value) : String(code);
+    }
+
+    private rangeOf(range: vscode.Range): DiagnosticRecord['range'] {
+        return {
+            start: { line: range.start.line, character: range.start.character },
+            end: { line: range.end.line, character: range.end.character }
+        };
+    }
+
+    private toRecord(diagnostic: vscode.Diagnostic): DiagnosticRecord {
+        return {
+            id: `diag_${this.nextId++}`,
+            severity: vscode.DiagnosticSeverity[diagnostic.severity],
+            source: diagnostic.source,
+            code: this.codeOf(diagnostic),
+            message: diagnostic.message,
+            range: this.rangeOf(diagnostic.range)
+        };
+    }
+
+    public dispose(): void {
+        this.disposable.dispose();
+    }
+}
@@ -0,0 +1,96 @@
+import { ErrorParserName } from './runnerProfiles';
+import { ParsedTraceback, TracebackFrame, parseTraceback } from './traceback';
+
+const NODE_EXCEPTION_PATTERN = /^([A-Za-z_$][\w$.]*(?:Error|Exception))(?::\s?(.*))?$/;
+
+// Node.js: "TypeError: msg" と "    at fn (file:line:col)"
+function parseNodeError(output: string): ParsedTraceback | null {
+    const lines = output.split('\n');
+    const exceptionIndex = lines.findIndex(line => NODE_EXCEPTION_PATTERN.test(line.trim()));
+    if (exceptionIndex === -1) {
+        return null;
+    }
+
+    const match = NODE_EXCEPTION_PATTERN.exec(lines[exceptionIndex].trim())!;
+    const frames: TracebackFrame[] = [];
+    for (const line of lines.slice(exceptionIndex + 1)) {
+        const frameMatch = /^\s*at (?:(.+?) \()?(.+):(\d+):(\d+)\)?$/.exec(line);
+        if (frameMatch) {
+            frames.push({ file: frameMatch[2], line: Number(frameMatch[3]), function: frameMatch[1] || '<anonymous>' });
+        }
+    }
+
+    // Nodeは内側のフレームが先頭なので、Pythonと同じく外側から並べる
+    return { type: match[1], message: match[2] || '', frames: frames.reverse(), chain: [] };
+}
+
+// Java: javacの "File.java:3: error: msg" と、実行時の "Exception in thread "main" java.lang.X: msg"
+function parseJavaError(output: string): ParsedTraceback | null {
+    const compileMatch = /^(.+\.java):(\d+): error: (.*)$/m.exec(output);
+    if (compileMatch) {
+        return {
+            type: 'CompileError',
+            message: compileMatch[3],
+            frames: [{ file: compileMatch[1], line: Number(compileMatch[2]), function: '<compile>' }],
+            chain: []
+        };
+    }
+
+    const exceptionMatch = /^Exception in thread "[^"]*" ([\w.$]+)(?::\s?(.*))?$/m.exec(output);
+    if (!exceptionMatch) {
+        return null;
+    }
+
+    const frames: TracebackFrame[] = [];
+    const framePattern = /^\s*at ([\w.$<>]+)\(([^:)]+)(?::(\d+))?\)$/gm;
+    let frameMatch: RegExpExecArray | null;
+    while ((frameMatch = framePattern.exec(output)) !== null) {
+        frames.push({ file: frameMatch[2], line: Number(frameMatch[3] || 0), function: frameMatch[1] });
+    }
+
+    return { type: exceptionMatch[1], message: exceptionMatch[2] || '', frames: frames.reverse(), chain: [] };
+}
+
+// C#: コンパイラの "File.cs(3,10): error CS1002: msg" と、実行時の "Unhandled exception. System.X: msg"
+function parseCSharpError(output: string): ParsedTraceback | null {
+    const compileMatch = /^(.+\.cs)\((\d+),(\d+)\): error (CS\d+): (.*?)(?: \[.*\])?$/m.exec(output);
+    if (compileMatch) {
+        return {
+            type: compileMatch[4],
+            message: compileMatch[5],
+            frames: [{ file: compileMatch[1], line: Number(compileMatch[2]), function: '<compile>' }],
+            chain: []
+        };
+    }
+
+    const exceptionMatch = /^Unhandled exception\. ([\w.]+)(?::\s?(.*))?$/m.exec(output);
+    if (!exceptionMatch) {
+        return null;
+    }
+
+    const frames: TracebackFrame[] = [];
+    const framePattern = /^\s*at (.+?) in (.+):line (\d+)$/gm;
+    let frameMatch: RegExpExecArray | null;
+    while ((frameMatch = framePattern.exec(output)) !== null) {
+        frames.push({ file: frameMatch[2], line: Number(frameMatch[3]), function: frameMatch[1] });
+    }
+
+    return { type: exceptionMatch[1], message: exceptionMatch[2] || '', frames: frames.reverse(), chain: [] };
+}
+
+// エラー出力を解析する（形式が分からない場合はnull）
+export function parseErrorOutput(parser: ErrorParserName, output: string): ParsedTraceback | null {
+    const normalized = output.replace(/\r\n/g, '\n');
+    switch (parser) {
+        case 'python':
+            return parseTraceback(normalized);
+        case 'node':
+            return parseNodeError(normalized);
+        case 'java':
+            return parseJavaError(normalized);
+        case 'csharp':
+            return parseCSharpError(normalized);
+        default:
+            return null;
+    }
+}
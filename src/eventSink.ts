@@ -0,0 +1,16 @@
+import { JournalEvent } from './journal';
+
+// ファイルへの書き込みと同時にイベントを受け取る送り先に渡すまとまり
+export interface EventBatch {
+    studentId: string;
+    sessionId: string;
+    // ドキュメントごとのイベントであれば、そのドキュメント
+    documentUri?: string;
+    fileName?: string;
+    events: JournalEvent[];
+}
+
+// ジャーナルに書き込まれたイベントの送り先
+export interface EventSink {
+    publish(batch: EventBatch): void;
+}
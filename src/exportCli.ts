@@ -0,0 +1,89 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import { DEFAULT_XAPI_BASE_URL, ExportFilter, ExportFormat, exportLogs, parseDateBound } from './exporter';
+
+// ログをエクスポートするコマンドラインツール
+// 使い方: student-code-logger-export --format csv|jsonl|xapi [--student ID] [--file NAME]
+//         [--from DATE] [--to DATE] [--xapi-base URL] [--out FILE] <.logs フォルダ>...
+
+const USAGE = 'Usage: student-code-logger-export --format csv|jsonl|xapi [--student ID] [--file NAME] [--from DATE] [--to DATE] [--xapi-base URL] [--out FILE] <logs folder>...';
+
+function fail(message: string): never {
+    console.error(message);
+    console.error(USAGE);
+    process.exit(1);
+}
+
+function main(args: string[]): void {
+    let format: ExportFormat = 'csv';
+    let out: string | undefined;
+    let xapiBase = DEFAULT_XAPI_BASE_URL;
+    const filter: ExportFilter = { studentIds: [], files: [] };
+    const folders: string[] = [];
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        const value = () => {
+            if (i + 1 >= args.length) {
+                fail(`Missing value for ${arg}`);
+            }
+            return args[++i];
+        };
+
+        switch (arg) {
+            case '--format': {
+                const text = value();
+                if (text !== 'csv' && text !== 'jsonl' && text !== 'xapi') {
+                    fail(`Unknown format: ${text}`);
+                }
+                format = text;
+                break;
+            }
+            case '--student':
+                filter.studentIds!.push(...value().split(',').map(id => id.trim()).filter(id => id));
+                break;
+            case '--file':
+                filter.files!.push(value());
+                break;
+            case '--from':
+            case '--to': {
+                const text = value();
+                const date = parseDateBound(text, arg === '--to');
+                if (!date) {
+                    fail(`Invalid date: ${text}`);
+                }
+                filter[arg === '--from' ? 'from' : 'to'] = date;
+                break;
+            }
+            case '--xapi-base':
+                xapiBase = value();
+                break;
+            case '--out':
+                out = value();
+                break;
+            case '-h':
+            case '--help':
+                console.log(USAGE);
+                return;
+            default:
+                if (arg.startsWith('--')) {
+                    fail(`Unknown option: ${arg}`);
+                }
+                folders.push(arg);
+        }
+    }
+
+    if (folders.length === 0) {
+        fail('No logs folder given');
+    }
+
+    const result = exportLogs(folders, format, filter, { baseUrl: xapiBase });
+    if (out) {
+        fs.writeFileSync(out, result.content, 'utf8');
+        console.error(`Exported ${result.count} events to ${out}`);
+    } else {
+        process.stdout.write(result.content);
+    }
+}
+
+main(process.argv.slice(2));
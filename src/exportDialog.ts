@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { ExportFilter, ExportFormat, exportLogs, parseDateBound } from './exporter';
+
+// 出力形式の選択肢
+const FORMATS: { label: string; description: string; format: ExportFormat; extension: string }[] = [
+    { label: 'CSV', description: '1イベント1行', format: 'csv', extension: 'csv' },
+    { label: 'JSONL', description: '固定スキーマの正規化したレコード', format: 'jsonl', extension: 'jsonl' },
+    { label: 'xAPI', description: 'LRSに送るステートメント（JSON配列）', format: 'xapi', extension: 'json' }
+];
+
+// カンマ区切りの入力を配列にする
+function splitList(text: string): string[] {
+    return text.split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+// 絞り込み条件を入力させる（キャンセルされたら undefined）
+async function askFilter(): Promise<ExportFilter | undefined> {
+    const students = await vscode.window.showInputBox({
+        prompt: '出力する生徒のID（カンマ区切り、空欄ですべて）',
+        placeHolder: 'e.g., 12345, 12346'
+    });
+    if (students === undefined) {
+        return undefined;
+    }
+
+    const files = await vscode.window.showInputBox({
+        prompt: '出力するファイル名（カンマ区切り、空欄ですべて）',
+        placeHolder: 'e.g., main.py'
+    });
+    if (files === undefined) {
+        return undefined;
+    }
+
+    const range = await vscode.window.showInputBox({
+        prompt: '期間（開始..終了、空欄ですべて）',
+        placeHolder: 'e.g., 2024-04-01..2024-07-31',
+        validateInput: text => {
+            if (!text.trim()) {
+                return undefined;
+            }
+            const [from, to] = text.split('..');
+            if ((from.trim() && !parseDateBound(from, false)) || (to !== undefined && to.trim() && !parseDateBound(to, true))) {
+                return '日付は YYYY-MM-DD の形式で入力してください';
+            }
+            return undefined;
+        }
+    });
+    if (range === undefined) {
+        return undefined;
+    }
+
+    const [from, to] = range.split('..');
+    return {
+        studentIds: splitList(students),
+        files: splitList(files),
+        from: parseDateBound(from || '', false),
+        to: parseDateBound(to || '', true)
+    };
+}
+
+// ログフォルダのログを選択した形式でファイルに書き出す
+export async function exportLogsToFile(logFolders: string[], xapiBaseUrl: string): Promise<void> {
+    const selected = await vscode.window.showQuickPick(FORMATS, {
+        placeHolder: '出力形式を選択してください'
+    });
+    if (!selected) {
+        return;
+    }
+
+    const filter = await askFilter();
+    if (!filter) {
+        return;
+    }
+
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: vscode.workspace.workspaceFolders
+            ? vscode.Uri.joinPath(vscode.workspace.workspaceFolders[0].uri, `logs-export.${selected.extension}`)
+            : undefined,
+        filters: { [selected.label]: [selected.extension] }
+    });
+    if (!target) {
+        return;
+    }
+
+    const result = exportLogs(logFolders, selected.format, filter, { baseUrl: xapiBaseUrl });
+    if (result.count === 0) {
+        vscode.window.showInformationMessage('条件に一致するログがありません。');
+        return;
+    }
+
+    fs.writeFileSync(target.fsPath, result.content, 'utf8');
+    vscode.window.showInformationMessage(`${result.count} 件のイベントを ${target.fsPath} に書き出しました。`);
+}
@@ -0,0 +1,352 @@
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { JournalEvent, listJournals, readJournalParts } from './journal';
+import { listLegacyLogs, readLegacyLog } from './legacyLog';
+import { exceptionTypeOf, operationOf } from './stats';
+
+// ログのエクスポート（VS Code に依存しないため、CLIからも使える）
+
+// 正規化した出力のスキーマのバージョン（列を変更したら上げる）
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export type ExportFormat = 'csv' | 'jsonl' | 'xapi';
+
+// 1つのログ（ドキュメントごとのジャーナル、操作イベントのジャーナル、以前の形式のログ）
+export interface LogSession {
+    studentId: string;
+    sessionId: string;
+    fileName: string | null;
+    documentUri: string | null;
+    sourceFiles: string[];
+    events: JournalEvent[];
+}
+
+// 出力対象の絞り込み
+export interface ExportFilter {
+    studentIds?: string[];
+    // ファイル名、またはパスの末尾
+    files?: string[];
+    from?: Date;
+    to?: Date;
+}
+
+// 1イベント1行の正規化したレコード（列は固定で、該当しない値は null）
+export interface ExportRecord {
+    schemaVersion: number;
+    studentId: string;
+    sessionId: string;
+    file: string | null;
+    documentUri: string | null;
+    timestamp: string;
+    type: string;
+    event: string | null;
+    source: string | null;
+    operation: string | null;
+    text: string | null;
+    lineContent: string | null;
+    startLine: number | null;
+    startCharacter: number | null;
+    endLine: number | null;
+    endCharacter: number | null;
+    exitCode: number | null;
+    duration: number | null;
+    exceptionType: string | null;
+    message: string | null;
+    snapshotId: string | null;
+    // 上記以外のフィールド（JSON文字列）
+    details: string | null;
+}
+
+// xAPIのIRIの基準となるURLの既定値
+export const DEFAULT_XAPI_BASE_URL = 'https://example.org/student-code-logger';
+
+// xAPIステートメントの出力設定
+export interface XapiOptions {
+    // アクターのアカウントと、動詞・アクティビティのIRIの基準となるURL
+    baseUrl: string;
+}
+
+// xAPIステートメント
+export interface XapiStatement {
+    id: string;
+    actor: { objectType: 'Agent'; account: { homePage: string; name: string } };
+    verb: { id: string; display: { [lang: string]: string } };
+    object: {
+        objectType: 'Activity';
+        id: string;
+        definition: { name: { [lang: string]: string }; type: string };
+    };
+    result?: { success?: boolean; duration?: string; response?: string };
+    context: { extensions: { [iri: string]: any } };
+    timestamp: string;
+}
+
+export const CSV_COLUMNS: (keyof ExportRecord)[] = [
+    'schemaVersion', 'studentId', 'sessionId', 'file', 'documentUri', 'timestamp', 'type', 'event',
+    'source', 'operation', 'text', 'lineContent', 'startLine', 'startCharacter', 'endLine', 'endCharacter',
+    'exitCode', 'duration', 'exceptionType', 'message', 'snapshotId', 'details'
+];
+
+// レコードの固定列として取り出すフィールドと、出力しないフィールド
+const RECORD_FIELDS = new Set([
+    'type', 'timestamp', 'event', 'documentUri', 'source', 'operation', 'text', 'lineContent',
+    'range', 'exitCode', 'duration', 'exceptionType', 'message', 'snapshotId', 'prevHash', 'hash'
+]);
+
+// ログフォルダからすべてのログを集める（パートファイルは1つにまとめる）
+export function collectSessions(folders: string[]): LogSession[] {
+    const sessions: LogSession[] = [];
+
+    for (const folder of folders) {
+        for (const journal of listJournals(folder)) {
+            const events = readJournalParts(journal.parts);
+            const header = events.find(event => event.type === 'session');
+            if (!header) {
+                continue;
+            }
+            sessions.push({
+                studentId: header.studentId,
+                sessionId: header.sessionId,
+                fileName: header.fileName || null,
+                documentUri: header.documentUri || null,
+                sourceFiles: journal.parts,
+                events: events.filter(event => event.type !== 'session')
+            });
+        }
+
+        for (const legacy of listLegacyLogs(folder)) {
+            const log = readLegacyLog(legacy.parts);
+            if (!log) {
+                continue;
+            }
+            sessions.push({
+                studentId: log.header.studentId,
+                sessionId: log.header.sessionId,
+                fileName: log.header.fileName || null,
+                documentUri: null,
+                sourceFiles: legacy.parts,
+                events: log.events
+            });
+        }
+    }
+
+    return sessions.sort((a, b) =>
+        a.studentId.localeCompare(b.studentId) ||
+        a.sessionId.localeCompare(b.sessionId) ||
+        (a.fileName || '').localeCompare(b.fileName || ''));
+}
+
+// ファイル名が絞り込みの条件に一致するか
+function matchesFile(fileName: string | null, files: string[]): boolean {
+    if (!fileName) {
+        return false;
+    }
+    const normalized = fileName.replace(/\\/g, '/');
+    return files.some(file => {
+        const pattern = file.replace(/\\/g, '/');
+        return normalized === pattern || normalized.endsWith('/' + pattern);
+    });
+}
+
+// 生徒・ファイル・期間で絞り込む（期間はイベント単位で判定する）
+export function filterSessions(sessions: LogSession[], filter: ExportFilter): LogSession[] {
+    const from = filter.from ? filter.from.getTime() : -Infinity;
+    const to = filter.to ? filter.to.getTime() : Infinity;
+
+    return sessions
+        .filter(session => !filter.studentIds || filter.studentIds.length === 0 || filter.studentIds.includes(session.studentId))
+        .filter(session => !filter.files || filter.files.length === 0 || matchesFile(session.fileName, filter.files))
+        .map(session => ({
+            ...session,
+            events: session.events.filter(event => {
+                const time = Date.parse(event.timestamp);
+                return !isNaN(time) && time >= from && time <= to;
+            })
+        }))
+        .filter(session => session.events.length > 0);
+}
+
+// 期間の指定を日時にする（日付だけの場合は、終了側ならその日の終わりとする）
+export function parseDateBound(text: string, end: boolean): Date | undefined {
+    const trimmed = text.trim();
+    if (!trimmed) {
+        return undefined;
+    }
+    const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(trimmed);
+    const date = dateOnly
+        ? new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]), end ? 23 : 0, end ? 59 : 0, end ? 59 : 0, end ? 999 : 0)
+        : new Date(trimmed);
+    return isNaN(date.getTime()) ? undefined : date;
+}
+
+function valueOf<T>(value: T | undefined): T | null {
+    return value === undefined ? null : value;
+}
+
+// イベントを正規化したレコードにする
+export function toRecord(session: LogSession, event: JournalEvent): ExportRecord {
+    const details: { [key: string]: any } = {};
+    Object.keys(event)
+        .filter(key => !RECORD_FIELDS.has(key))
+        .forEach(key => details[key] = event[key]);
+
+    const range = event.range;
+    return {
+        schemaVersion: EXPORT_SCHEMA_VERSION,
+        studentId: session.studentId,
+        sessionId: session.sessionId,
+        file: session.fileName,
+        documentUri: valueOf(event.documentUri) || session.documentUri,
+        timestamp: event.timestamp,
+        type: event.type,
+        event: valueOf(event.event),
+        source: valueOf(event.source),
+        operation: valueOf(operationOf(event)),
+        text: valueOf(event.text),
+        lineContent: valueOf(event.lineContent),
+        startLine: range ? range.start.line : null,
+        startCharacter: range ? range.start.character : null,
+        endLine: range ? range.end.line : null,
+        endCharacter: range ? range.end.character : null,
+        exitCode: valueOf(event.exitCode),
+        duration: valueOf(event.duration),
+        exceptionType: event.type === 'error' ? valueOf(exceptionTypeOf(event)) : null,
+        message: valueOf(event.message),
+        snapshotId: valueOf(event.snapshotId),
+        details: Object.keys(details).length > 0 ? JSON.stringify(details) : null
+    };
+}
+
+// すべてのログをレコードにする（ログごとに時刻順）
+export function toRecords(sessions: LogSession[]): ExportRecord[] {
+    return sessions.flatMap(session => session.events
+        .slice()
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+        .map(event => toRecord(session, event)));
+}
+
+// CSVの1つの値
+export function csvValue(value: string | number | null): string {
+    if (value === null) {
+        return '';
+    }
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// 1イベント1行のCSV
+export function formatCsv(records: ExportRecord[]): string {
+    const lines = [CSV_COLUMNS.join(',')];
+    records.forEach(record => lines.push(CSV_COLUMNS.map(column => csvValue(record[column])).join(',')));
+    return lines.join('\r\n') + '\r\n';
+}
+
+// 1行1レコードのJSONL
+export function formatJsonl(records: ExportRecord[]): string {
+    return records.map(record => JSON.stringify(record) + '\n').join('');
+}
+
+// イベントに対応するxAPIの動詞
+function verbOf(event: JournalEvent, baseUrl: string): { id: string; display: string } {
+    if (event.type === 'execution' && (event.event === 'execution_start' || event.event === 'debug_start')) {
+        return { id: 'http://adlnet.gov/expapi/verbs/launched', display: 'launched' };
+    }
+    if (event.type === 'execution' && (event.event === 'execution_end' || event.event === 'debug_end')) {
+        return { id: 'http://adlnet.gov/expapi/verbs/completed', display: 'completed' };
+    }
+    if (event.type === 'activity') {
+        return { id: 'http://adlnet.gov/expapi/verbs/interacted', display: 'interacted' };
+    }
+
+    const custom: { [type: string]: string } = {
+        edit: 'edited',
+        key: 'typed',
+        save: 'saved',
+        snapshot: 'captured',
+        error: 'encountered',
+        execution: 'executed'
+    };
+    const display = custom[event.type] || event.type;
+    return { id: `${baseUrl}/xapi/verbs/${display}`, display: display };
+}
+
+// 内容から決まるステートメントID（同じログを再度送っても重複しない）
+function statementId(session: LogSession, event: JournalEvent): string {
+    const hex = crypto.createHash('sha256')
+        .update(`${session.studentId}\n${session.sessionId}\n${session.fileName || ''}\n${JSON.stringify(event)}`)
+        .digest('hex');
+    // UUIDの形式にする（バージョン8、バリアント10）
+    const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-8${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+// ミリ秒をISO 8601の期間にする
+function isoDuration(ms: number): string {
+    return `PT${(ms / 1000).toFixed(3).replace(/\.?0+$/, '')}S`;
+}
+
+// イベントをxAPIステートメントにする
+export function toXapiStatement(session: LogSession, event: JournalEvent, options: XapiOptions): XapiStatement {
+    const baseUrl = options.baseUrl.replace(/\/+$/, '');
+    const verb = verbOf(event, baseUrl);
+    const fileName = session.fileName ? path.basename(session.fileName) : 'session';
+    const record = toRecord(session, event);
+
+    const statement: XapiStatement = {
+        id: statementId(session, event),
+        actor: { objectType: 'Agent', account: { homePage: baseUrl, name: session.studentId } },
+        verb: { id: verb.id, display: { 'en-US': verb.display } },
+        object: {
+            objectType: 'Activity',
+            id: `${baseUrl}/xapi/activities/${encodeURIComponent(session.studentId)}/${encodeURIComponent(fileName)}`,
+            definition: { name: { 'en-US': fileName }, type: 'http://adlnet.gov/expapi/activities/file' }
+        },
+        context: {
+            extensions: {
+                [`${baseUrl}/xapi/extensions/sessionId`]: session.sessionId,
+                [`${baseUrl}/xapi/extensions/eventType`]: event.type,
+                [`${baseUrl}/xapi/extensions/event`]: record
+            }
+        },
+        timestamp: event.timestamp
+    };
+
+    if (event.type === 'execution' && event.event === 'execution_end') {
+        statement.result = {
+            success: event.exitCode === 0,
+            duration: typeof event.duration === 'number' ? isoDuration(event.duration) : undefined
+        };
+    } else if (event.type === 'error') {
+        statement.result = { success: false, response: record.exceptionType || record.message || undefined };
+    }
+    return statement;
+}
+
+// すべてのログをxAPIステートメントにする
+export function toXapiStatements(sessions: LogSession[], options: XapiOptions): XapiStatement[] {
+    return sessions.flatMap(session => session.events
+        .slice()
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+        .map(event => toXapiStatement(session, event, options)));
+}
+
+// ログフォルダのログを指定の形式で書き出した内容と、イベントの件数
+export function exportLogs(
+    folders: string[],
+    format: ExportFormat,
+    filter: ExportFilter,
+    xapi: XapiOptions
+): { content: string; count: number } {
+    const sessions = filterSessions(collectSessions(folders), filter);
+
+    if (format === 'xapi') {
+        const statements = toXapiStatements(sessions, xapi);
+        return { content: JSON.stringify(statements, null, 2), count: statements.length };
+    }
+
+    const records = toRecords(sessions);
+    return {
+        content: format === 'csv' ? formatCsv(records) : formatJsonl(records),
+        count: records.length
+    };
+}
@@ -3,67 +3,101 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import * as cp from 'child_process';
-
-// 学生のログを保存するためのインターフェース
-interface LogEntry {
-    timestamp: string;
-}
-
-// 編集ログのインターフェース
-interface EditLogEntry extends LogEntry {
-    range?: {
-        start: { line: number; character: number };
-        end: { line: number; character: number };
-    };
-    text?: string;
-    operation?: string;
-    lineContent?: string;
-    key?: string;
-    position?: { line: number; character: number };
-}
-
-// エラーログのインターフェース
-interface ErrorLogEntry extends LogEntry {
-    message: string;
-    stack: string | null;
-    code?: string;
-    event?: string;
-    language?: string;
-}
-
-// キー入力ログのインターフェース
-interface KeyLogEntry extends LogEntry {
-    key: string;
-    position: { line: number; character: number };
-    lineContent: string;
+import { EventJournal, JournalEvent } from './journal';
+import { LoggerSettings, TrackingFilter, loadSettings } from './settings';
+import { openReplay } from './replayPanel';
+import { openStats } from './statsPanel';
+import { SessionManifest, manifestFileName, writeManifest } from './manifest';
+import { DiagnosticChange, DiagnosticTracker } from './diagnostics';
+import { ChangeClassifier, EditSource, InsertionClassification } from './changeClassifier';
+import { failingLine } from './traceback';
+import { RunPhase, RunStep, RunTerminal } from './runTerminal';
+import { ErrorParserName, RunnerProfile, findProfile, resolveCommand, expandVariables } from './runnerProfiles';
+import { parseErrorOutput } from './errorParsers';
+import { SnapshotStore, snapshotFolder } from './snapshotStore';
+import { SNAPSHOT_SCHEME, openSnapshotDiff, registerSnapshotProvider } from './snapshotDiff';
+import { ActivityChange, ActivityOptions, ActivityTracker } from './activity';
+import { DebugChange, DebugTracker } from './debugTracker';
+import { TestRun, TestRunOptions, TestRunner } from './testRunner';
+import { summarizeTests } from './junit';
+import { TerminalCommand, TerminalOptions, TerminalTracker } from './terminalTracker';
+import { StruggleMatch } from './struggle';
+import { LoggerApi, createLoggerApi } from './api';
+import { StruggleMonitor, StruggleOptions } from './struggleMonitor';
+import { AlertOptions, HttpAlertNotifier, validEndpoint } from './taAlerts';
+import { CellExecution, CellStructureChange, NOTEBOOK_CELL_SCHEME, NotebookTracker, cellIdOf, cellOf } from './notebook';
+import { formatReport, isIntact, verifyFolder } from './integrity';
+import { LOG_SCHEMA_VERSION } from './logSchema';
+import { validateAndMigrateLogs } from './migrationDialog';
+import { exportLogsToFile } from './exportDialog';
+import { EventBatch, EventSink } from './eventSink';
+import { UploadOptions, UploadQueue, UploadStatus, uploadQueueFolder } from './uploader';
+import { Redactor } from './redaction';
+import { hasAnswered, hasConsent, requestConsent } from './privacy';
+import { ASSIGNMENT_FILE_NAME, Assignment, isAssignmentFile, isInAssignmentFolder, readAssignment } from './assignment';
+import { submitAssignment } from './submission';
+import { EditLogEntry, ErrorLogEntry, ExecutionLogEntry, KeyLogEntry, LineEdit } from './logTypes';
+
+// ドキュメントごとのイベントストリーム
+interface DocumentStream {
+    uri: string;
+    fileName: string;
+    logFile: string;
+    journal: EventJournal | null;
+    editLog: EditLogEntry[];
+    errorLog: ErrorLogEntry[];
+    executionLog: ExecutionLogEntry[];
+    // スナップショットや保存など、その他のイベント
+    eventLog: JournalEvent[];
+    // 行番号（0始まり）ごとの最後の編集（行の挿入・削除に合わせてずらす）
+    lineEdits: Map<number, LineEdit>;
+    // 分類を待っている挿入の数（分類が終わるまでストリームを書き出さない）
+    pendingInsertions: number;
+    // ソースのスナップショットの保存先と、最後に保存したスナップショット
+    snapshots: SnapshotStore;
+    lastSnapshotId?: string;
+    firstSeen: string;
+    lastSeen: string;
+    eventCount: number;
+    // ドキュメントが属する課題
+    assignmentId?: string;
 }
 
-// 実行ログのインターフェース
-interface ExecutionLogEntry extends LogEntry {
-    event: string;
-    file: string;
-    language: string;
-    output?: string;
-    error?: string;
-    exitCode?: number;
-    duration?: number;
-}
+// 一度に書き込むイベント数の上限（これを超えたら即座にフラッシュする）
+const MAX_PENDING_EVENTS = 200;
 
 // ログを保存するためのクラス
 class Logger {
     private logFolder: string;
     private sessionId: string;
     private studentId: string;
-    private currentDocument: string;
-    private logFile: string;
-    private editLog: EditLogEntry[];
-    private errorLog: ErrorLogEntry[];
-    private executionLog: ExecutionLogEntry[];
+    private startedAt: string;
+    private streams: Map<string, DocumentStream>;
+    private manifestFile: string;
+    // ウィンドウのフォーカスや休止など、セッション全体の操作イベント
+    private activityJournal: EventJournal | null;
+    private activityLog: JournalEvent[];
+    // ジャーナルへの書き込みと同時にイベントを渡す送り先
+    private sinks: EventSink[];
+    private settings: LoggerSettings;
+    private filter: TrackingFilter;
+    private redactor: Redactor;
+    // ワークスペースフォルダごとの課題の定義
+    private assignments: Assignment[];
+    // 記録への同意と、一時停止の状態
+    private consented: boolean;
+    private pausedAt: number | null;
     private isSaving: boolean;
     private saveTimeout: NodeJS.Timeout | null;
+    private snapshotTimer: NodeJS.Timeout | null;
+    private lastExecutionId: number;
     private currentExecution: {
+        // 実行ごとの番号（前の実行のプロセスからの通知を区別する）
+        id: number;
         startTime: number;
         file: string;
+        language: string;
+        errorParser: ErrorParserName;
         process?: cp.ChildProcess;
         output: string;
         error: string;
@@ -74,17 +108,29 @@ class Logger {
         this.logFolder = this.getLogFolderPath();
         this.sessionId = this.generateSessionId();
         this.studentId = vscode.workspace.getConfiguration('Logger').get('studentId') || 'anonymous';
-        this.currentDocument = '';
-        this.logFile = '';
-        this.editLog = [];
-        this.errorLog = [];
-        this.executionLog = [];
+        this.startedAt = this.getCurrentTimestamp();
+        this.streams = new Map();
+        this.manifestFile = path.join(this.logFolder, manifestFileName(this.studentId, this.sessionId));
+        this.activityJournal = null;
+        this.activityLog = [];
+        this.sinks = [];
+        this.settings = loadSettings();
+        this.filter = new TrackingFilter(this.settings);
+        this.redactor = new Redactor(this.settings.redaction);
+        this.assignments = [];
+        this.reloadAssignments();
+        // 同意を確認するまでは記録しない
+        this.consented = false;
+        this.pausedAt = null;
         this.isSaving = false;
         this.saveTimeout = null;
+        this.snapshotTimer = null;
         this.currentExecution = null;
+        this.lastExecutionId = 0;
         
         // ログフォルダの作成
         this.ensureFolder(this.logFolder);
+        this.startSnapshotTimer();
     }
 
     // ログフォルダのパスを取得する
@@ -116,36 +162,388 @@ class Logger {
         return new Date().toISOString();
     }
 
+    // 現在のセッションのマニフェストファイル
+    public getManifestFile(): string {
+        return this.manifestFile;
+    }
+
+    // 現在の生徒ID
+    public getStudentId(): string {
+        return this.studentId;
+    }
+
+    // 現在のセッションID
+    public getSessionId(): string {
+        return this.sessionId;
+    }
+
+    // 他の拡張機能が記録するカスタムイベント（ドキュメントを指定すればそのドキュメントのログに記録する）
+    public logCustomEvent(type: string, payload: { [key: string]: any }, uri?: vscode.Uri): boolean {
+        if (!this.isRecording()) {
+            return false;
+        }
+
+        const document = uri && vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
+        const event: JournalEvent = {
+            type: 'custom',
+            timestamp: this.getCurrentTimestamp(),
+            customType: type,
+            payload: payload
+        };
+        if (document && this.isTracked(document)) {
+            const stream = this.getStream(document.uri);
+            stream.eventLog.push({ ...event, documentUri: stream.uri, ...this.cellFieldsOf(document.uri) });
+        } else {
+            // 記録対象外のドキュメントは参照しない
+            this.activityLog.push(event);
+        }
+        this.scheduleSave();
+        return true;
+    }
+
+    // 現在のセッションのログを書き込むフォルダ
+    public getLogFolder(): string {
+        return this.logFolder;
+    }
+
+    // ログが保存されうるフォルダの一覧
+    public getLogFolders(): string[] {
+        const folders = [this.logFolder];
+        (vscode.workspace.workspaceFolders || []).forEach(folder => {
+            const folderPath = path.join(folder.uri.fsPath, '.logs');
+            if (!folders.includes(folderPath)) {
+                folders.push(folderPath);
+            }
+        });
+        return folders;
+    }
+
     // 生徒情報のリロード
     public loadStudentId(): void {
         this.studentId = vscode.workspace.getConfiguration('Logger').get('studentId') || 'anonymous';
     }
 
+    // 設定のリロード（設定変更時に呼び出される）
+    public reloadSettings(): void {
+        this.loadStudentId();
+        this.settings = loadSettings();
+        this.filter = new TrackingFilter(this.settings);
+        this.redactor = new Redactor(this.settings.redaction);
+        this.startSnapshotTimer();
+    }
+
+    // ワークスペースフォルダの課題の定義を読み込み直す（定義に誤りがあればそのメッセージを返す）
+    public reloadAssignments(): string[] {
+        const errors: string[] = [];
+        this.assignments = [];
+        (vscode.workspace.workspaceFolders || []).forEach(folder => {
+            const { assignment, error } = readAssignment(folder.uri.fsPath);
+            if (assignment) {
+                this.assignments.push(assignment);
+            } else if (error) {
+                errors.push(error);
+            }
+        });
+        return errors;
+    }
+
+    // ワークスペースの課題の一覧
+    public getAssignments(): Assignment[] {
+        return this.assignments;
+    }
+
+    // ファイルが属するフォルダの課題（課題のファイルでなくても返す）
+    private assignmentFolderOf(filePath: string): Assignment | undefined {
+        return this.assignments.find(assignment => isInAssignmentFolder(assignment, filePath));
+    }
+
+    // ファイルが属する課題のID
+    private assignmentIdOf(filePath: string): string | undefined {
+        const assignment = this.assignmentFolderOf(filePath);
+        return assignment && isAssignmentFile(assignment, filePath) ? assignment.id : undefined;
+    }
+
+    // 同意済みで、一時停止していなければ記録する
+    public isRecording(): boolean {
+        return this.consented && this.pausedAt === null;
+    }
+
+    // 記録の状態
+    public getRecordingState(): 'recording' | 'paused' | 'no_consent' {
+        return !this.consented ? 'no_consent' : this.pausedAt !== null ? 'paused' : 'recording';
+    }
+
+    // 記録への同意の状態を設定する
+    public setConsent(granted: boolean): void {
+        this.consented = granted;
+        if (!granted) {
+            this.pausedAt = null;
+        }
+    }
+
+    // 記録を一時停止する（停止した期間はイベントとして記録する）
+    public pause(): void {
+        if (!this.isRecording()) {
+            return;
+        }
+        this.pausedAt = Date.now();
+        this.activityLog.push({
+            type: 'pause',
+            timestamp: this.getCurrentTimestamp(),
+            event: 'pause_start'
+        });
+        this.flushLog();
+    }
+
+    // 記録を再開する
+    public resume(reason: 'user' | 'session_end' = 'user'): void {
+        if (!this.consented || this.pausedAt === null) {
+            return;
+        }
+        this.activityLog.push({
+            type: 'pause',
+            timestamp: this.getCurrentTimestamp(),
+            event: 'pause_end',
+            reason: reason,
+            since: new Date(this.pausedAt).toISOString(),
+            duration: Date.now() - this.pausedAt
+        });
+        this.pausedAt = null;
+
+        // 停止中の変更は記録されていないため、再開時点の内容を記録しておく
+        if (reason === 'user') {
+            this.logTimerSnapshots('resume');
+        }
+        this.scheduleSave();
+    }
+
+    // ドキュメントがログ対象（言語・パス）かどうか
+    public isTracked(document: vscode.TextDocument): boolean {
+        return this.isRecording() && !this.shouldIgnoreDocument(document) && this.filter.isTracked(document.uri, document.languageId) && this.isAssignmentTracked(document.uri);
+    }
+
+    // 課題が定義されたフォルダでは、課題のファイルだけを記録する
+    private isAssignmentTracked(uri: vscode.Uri): boolean {
+        // セルのURIのパスはノートブックのパス
+        if (uri.scheme !== 'file' && uri.scheme !== NOTEBOOK_CELL_SCHEME) {
+            return true;
+        }
+        const assignment = this.assignmentFolderOf(uri.fsPath);
+        return !assignment || isAssignmentFile(assignment, uri.fsPath);
+    }
+
+    // URIのドキュメントが開かれていて、ログ対象かどうか
+    public isTrackedUri(uri: vscode.Uri): boolean {
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
+        return document !== undefined && this.isTracked(document);
+    }
+
+    // 記録する診断の重大度
+    public getDiagnosticSeverities(): string[] {
+        return this.settings.diagnosticSeverities;
+    }
+
     // ドキュメントの変更時に呼び出される
     public onDocumentChange(document: vscode.TextDocument): void {
-        const fileName = document.fileName;
-
         // ログファイル、出力チャネル、ターミナルは無視する
-        if (this.shouldIgnoreDocument(document)) {
+        if (!this.isRecording() || this.shouldIgnoreDocument(document)) {
             return;
         }
 
-        if (this.currentDocument !== fileName) {
-            this.currentDocument = fileName;
-            
-            const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
-            let folderPath = this.logFolder;
-            
-            // 文書がワークスペースに属する場合、そのワークスペース内のログフォルダを使用
-            if (workspaceFolder) {
-                folderPath = path.join(workspaceFolder.uri.fsPath, '.logs');
-                // フォルダが存在することを確認
-                this.ensureFolder(folderPath);
+        this.getStream(document.uri);
+    }
+
+    // ドキュメントに対応するストリームを取得（なければ作成）
+    private getStream(uri: vscode.Uri): DocumentStream {
+        // ノートブックのセルは、ノートブックのストリームにまとめる
+        if (uri.scheme === NOTEBOOK_CELL_SCHEME) {
+            const cell = cellOf(uri);
+            if (cell) {
+                return this.getStream(cell.notebook.uri);
             }
-            
-            this.logFile = path.join(folderPath, `${this.studentId}_${path.basename(fileName)}_${this.sessionId}.json`);
-            this.saveLog();
         }
+
+        const key = uri.toString();
+        const existing = this.streams.get(key);
+        if (existing) {
+            existing.lastSeen = this.getCurrentTimestamp();
+            return existing;
+        }
+
+        const fileName = uri.fsPath;
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+        let folderPath = this.logFolder;
+        
+        // 文書がワークスペースに属する場合、そのワークスペース内のログフォルダを使用
+        if (workspaceFolder) {
+            folderPath = path.join(workspaceFolder.uri.fsPath, '.logs');
+            // フォルダが存在することを確認
+            this.ensureFolder(folderPath);
+        }
+
+        // 別フォルダにある同名ファイルとログファイルが衝突しないようにする
+        let logFile = path.join(folderPath, `${this.studentId}_${path.basename(fileName)}_${this.sessionId}.jsonl`);
+        const usedLogFiles = Array.from(this.streams.values()).map(stream => stream.logFile);
+        for (let i = 2; usedLogFiles.includes(logFile); i++) {
+            logFile = path.join(folderPath, `${this.studentId}_${path.basename(fileName)}_${i}_${this.sessionId}.jsonl`);
+        }
+
+        const now = this.getCurrentTimestamp();
+        const stream: DocumentStream = {
+            uri: key,
+            fileName: fileName,
+            logFile: logFile,
+            journal: null,
+            editLog: [],
+            errorLog: [],
+            executionLog: [],
+            eventLog: [],
+            lineEdits: new Map(),
+            pendingInsertions: 0,
+            snapshots: new SnapshotStore(snapshotFolder(folderPath)),
+            firstSeen: now,
+            lastSeen: now,
+            eventCount: 0,
+            assignmentId: uri.scheme === 'file' ? this.assignmentIdOf(fileName) : undefined
+        };
+        stream.journal = this.openJournal(stream);
+        this.streams.set(key, stream);
+
+        // 再生用に、最初に見つけた時点の内容を記録する
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === key);
+        const notebook = vscode.workspace.notebookDocuments.find(doc => doc.uri.toString() === key);
+        if (document) {
+            this.logSnapshot(stream, document);
+        } else if (notebook) {
+            this.logNotebookSnapshot(stream, notebook);
+        }
+        this.writeManifest();
+
+        return stream;
+    }
+
+    // ノートブックのセルの一覧と、各セルの内容のスナップショットを記録
+    private logNotebookSnapshot(stream: DocumentStream, notebook: vscode.NotebookDocument): void {
+        stream.eventLog.push({
+            type: 'notebook_snapshot',
+            timestamp: this.getCurrentTimestamp(),
+            documentUri: stream.uri,
+            reason: 'initial',
+            notebookType: notebook.notebookType,
+            version: notebook.version,
+            cells: notebook.getCells().map(cell => ({
+                cellId: cellIdOf(cell),
+                cellIndex: cell.index,
+                kind: cell.kind === vscode.NotebookCellKind.Code ? 'code' : 'markup',
+                languageId: cell.document.languageId,
+                snapshotId: this.storeSnapshot(stream, cell.document.getText())
+            }))
+        });
+    }
+
+    // セルのドキュメントであれば、そのセルのIDと位置
+    private cellFieldsOf(uri: vscode.Uri): { cellId?: string; cellIndex?: number } {
+        const cell = cellOf(uri);
+        return cell ? { cellId: cellIdOf(cell), cellIndex: cell.index } : {};
+    }
+
+    // ドキュメントの内容のスナップショットを記録
+    // 最初のスナップショットは再生に使うため、ストアへの参照に加えて内容もログに含める
+    private logSnapshot(stream: DocumentStream, document: vscode.TextDocument): void {
+        const content = document.getText();
+        stream.eventLog.push({
+            type: 'snapshot',
+            timestamp: this.getCurrentTimestamp(),
+            documentUri: stream.uri,
+            reason: 'initial',
+            languageId: document.languageId,
+            version: document.version,
+            snapshotId: this.storeSnapshot(stream, content),
+            content: content
+        });
+        this.scheduleSave();
+    }
+
+    // ソースを（秘密情報を伏せ字にして）スナップショットストアに保存してIDを返す
+    private storeSnapshot(stream: DocumentStream, content: string): string | undefined {
+        try {
+            stream.lastSnapshotId = stream.snapshots.put(this.redactor.redact(content).text);
+            return stream.lastSnapshotId;
+        } catch (error) {
+            console.error('Failed to store snapshot:', error);
+            return undefined;
+        }
+    }
+
+    // 一定間隔でスナップショットを取るタイマーを（再）開始する
+    private startSnapshotTimer(): void {
+        if (this.snapshotTimer) {
+            clearInterval(this.snapshotTimer);
+            this.snapshotTimer = null;
+        }
+
+        const interval = this.settings.snapshotIntervalSeconds;
+        if (interval > 0) {
+            this.snapshotTimer = setInterval(() => this.logTimerSnapshots(), interval * 1000);
+        }
+    }
+
+    // 前回のスナップショットから内容が変わったドキュメントのスナップショットを記録
+    private logTimerSnapshots(reason: 'timer' | 'resume' = 'timer'): void {
+        vscode.workspace.textDocuments.forEach(document => {
+            const stream = this.streams.get(document.uri.toString());
+            if (!stream || !this.isTracked(document)) {
+                return;
+            }
+
+            const content = document.getText();
+            if (SnapshotStore.idOf(this.redactor.redact(content).text) === stream.lastSnapshotId) {
+                return;
+            }
+
+            stream.eventLog.push({
+                type: 'snapshot',
+                timestamp: this.getCurrentTimestamp(),
+                documentUri: stream.uri,
+                reason: reason,
+                version: document.version,
+                snapshotId: this.storeSnapshot(stream, content)
+            });
+            this.scheduleSave();
+        });
+    }
+
+    // ドキュメントが開かれた時に呼び出される
+    public onDocumentOpen(document: vscode.TextDocument): void {
+        if (this.isTracked(document)) {
+            this.getStream(document.uri);
+        }
+    }
+
+    // ドキュメントの保存を記録（再生結果の検証に使う）
+    public logSave(document: vscode.TextDocument): void {
+        if (!this.isTracked(document)) {
+            return;
+        }
+
+        const stream = this.getStream(document.uri);
+        const content = document.getText();
+        stream.eventLog.push({
+            type: 'save',
+            timestamp: this.getCurrentTimestamp(),
+            documentUri: stream.uri,
+            version: document.version,
+            // スナップショットと同じく伏せ字にした内容のハッシュ値（再生結果と照合する）
+            contentHash: SnapshotStore.idOf(this.redactor.redact(content).text),
+            snapshotId: this.storeSnapshot(stream, content)
+        });
+        this.scheduleSave();
+    }
+
+    // ファイルパスに対応するストリームを取得
+    private getStreamForFile(filePath: string): DocumentStream {
+        const document = vscode.workspace.textDocuments.find(doc => doc.fileName === filePath);
+        return this.getStream(document ? document.uri : vscode.Uri.file(filePath));
     }
 
     // 無視すべきドキュメントかどうかをチェックする
@@ -154,8 +552,8 @@ class Logger {
         
         // ログファイルのチェック
         const isLogFile = fileName.includes('.logs') || 
-                        fileName.endsWith('.json') && (
-                            fileName.includes(`_${this.sessionId}.json`) || 
+                        (fileName.endsWith('.json') || fileName.endsWith('.jsonl')) && (
+                            fileName.includes(`_${this.sessionId}`) || 
                             fileName.includes(`${this.studentId}_`)
                         );
         
@@ -164,8 +562,11 @@ class Logger {
                                 document.uri.scheme === 'terminal' ||
                                 fileName.includes('extension-output') ||
                                 fileName.includes('Python Execution Log');
+
+        // スナップショットの比較など、拡張機能が開いた仮想ドキュメントのチェック
+        const isVirtual = document.uri.scheme === SNAPSHOT_SCHEME || document.uri.scheme === 'git';
         
-        return isLogFile || isOutputOrTerminal;
+        return isLogFile || isOutputOrTerminal || isVirtual;
     }
 
     // フォルダ存在確認と作成
@@ -176,9 +577,75 @@ class Logger {
     }
 
     // 編集履歴の記録
-    public logEdit(edit: vscode.TextDocumentContentChangeEvent, document: vscode.TextDocument): void {
-        const editInfo: EditLogEntry = {
+    public logEdit(edit: vscode.TextDocumentContentChangeEvent, document: vscode.TextDocument, source: EditSource = 'typing'): void {
+        if (!this.isTracked(document)) {
+            return;
+        }
+
+        const stream = this.getStream(document.uri);
+        const editInfo = this.createEditEntry(stream, edit, document);
+        editInfo.source = source;
+        stream.editLog.push(editInfo);
+        this.trackLineEdit(stream, editInfo);
+        this.scheduleSave();
+    }
+
+    // まとまったテキストの挿入（貼り付け・補完など）の記録
+    // 分類はクリップボードの照合を待つため、エントリは先に順番どおりバッファに入れておき、
+    // 分類が終わってから発生元を埋める（それまでストリームは書き出さない）
+    public async logInsertion(edit: vscode.TextDocumentContentChangeEvent, document: vscode.TextDocument, classification: Promise<InsertionClassification>): Promise<void> {
+        if (!this.isTracked(document)) {
+            return;
+        }
+
+        const stream = this.getStream(document.uri);
+        const editInfo = this.createEditEntry(stream, edit, document);
+        editInfo.largeInsert = edit.text.length >= this.settings.largeInsertThreshold;
+        stream.editLog.push(editInfo);
+        this.trackLineEdit(stream, editInfo);
+        stream.pendingInsertions++;
+
+        try {
+            const { source, clipboardMatch } = await classification;
+            editInfo.source = source;
+            editInfo.clipboardMatch = clipboardMatch;
+        } finally {
+            stream.pendingInsertions--;
+            this.scheduleSave();
+        }
+    }
+
+    // 編集された行を記録し、挿入・削除された行の分だけ以降の行番号をずらす
+    private trackLineEdit(stream: DocumentStream, entry: EditLogEntry | KeyLogEntry): void {
+        // セルの行番号はセルごとなので、ノートブック全体の行としては追跡しない
+        if (!entry.range || entry.text === undefined || entry.cellId !== undefined) {
+            return;
+        }
+
+        const { start, end } = entry.range;
+        const addedLines = entry.text.split('\n').length - 1;
+        const delta = addedLines - (end.line - start.line);
+        const shifted = new Map<number, LineEdit>();
+
+        stream.lineEdits.forEach((edit, line) => {
+            if (line < start.line) {
+                shifted.set(line, edit);
+            } else if (line > end.line) {
+                shifted.set(line + delta, edit);
+            }
+        });
+
+        for (let line = start.line; line <= start.line + addedLines; line++) {
+            shifted.set(line, { timestamp: entry.timestamp, version: entry.version });
+        }
+        stream.lineEdits = shifted;
+    }
+
+    // 編集ログのエントリを作成
+    private createEditEntry(stream: DocumentStream, edit: vscode.TextDocumentContentChangeEvent, document: vscode.TextDocument): EditLogEntry {
+        return {
             timestamp: this.getCurrentTimestamp(),
+            documentUri: stream.uri,
             range: {
                 start: {
                     line: edit.range.start.line,
@@ -191,83 +658,179 @@ class Logger {
             },
             text: edit.text,
             operation: edit.text === '' ? 'delete' : (edit.rangeLength > 0 && edit.text !== '') ? 'replace' : 'insert',
-            lineContent: document.lineAt(edit.range.start.line).text
+            lineContent: document.lineAt(edit.range.start.line).text,
+            version: document.version,
+            ...this.cellFieldsOf(document.uri)
         };
-        this.editLog.push(editInfo);
-        this.scheduleSave();
     }
 
     // エラー情報の記録
-    public logError(error: any, code: string, language?: string): void {
+    public logError(error: any, code: string, uri: vscode.Uri, language?: string): void {
+        if (!this.isRecording() || !this.settings.enableErrorLogging || !this.filter.isTracked(uri, language)) {
+            return;
+        }
+
+        const stream = this.getStream(uri);
         const errorInfo: ErrorLogEntry = {
             timestamp: this.getCurrentTimestamp(),
+            documentUri: stream.uri,
             message: error.message || 'Unknown error',
             stack: error.stack,
             code: code,
-            language: language
+            language: language,
+            ...this.cellFieldsOf(uri)
+        };
+        stream.errorLog.push(errorInfo);
+        this.scheduleSave();
+    }
+
+    // エディタの診断の出現・解消の記録
+    public logDiagnostic(change: DiagnosticChange): void {
+        if (!this.isRecording() || !this.settings.enableErrorLogging) {
+            return;
+        }
+
+        const stream = this.getStream(change.uri);
+        const errorInfo: ErrorLogEntry = {
+            timestamp: this.getCurrentTimestamp(),
+            documentUri: stream.uri,
+            message: change.diagnostic.message,
+            stack: null,
+            event: change.event,
+            diagnosticId: change.diagnostic.id,
+            severity: change.diagnostic.severity,
+            source: change.diagnostic.source,
+            diagnosticCode: change.diagnostic.code,
+            range: change.diagnostic.range,
+            duration: change.duration,
+            ...this.cellFieldsOf(change.uri)
+        };
+        stream.errorLog.push(errorInfo);
+        this.scheduleSave();
+    }
+
+    // xAPIステートメントのIRIの基準となるURL
+    public getXapiBaseUrl(): string {
+        return this.settings.xapiBaseUrl;
+    }
+
+    // 収集サーバーへの送信設定
+    public getUploadOptions(): UploadOptions {
+        return {
+            endpoint: this.settings.uploadEndpoint,
+            token: this.settings.uploadToken,
+            batchSize: this.settings.uploadBatchSize
+        };
+    }
+
+    // ログの署名・検証に使う講義ごとの鍵
+    public getSigningKey(): string | undefined {
+        return this.settings.courseSigningKey || undefined;
+    }
+
+    // 操作の追跡に使う設定
+    public getActivityOptions(): ActivityOptions {
+        return {
+            enabled: this.settings.enableActivityLogging,
+            idleThresholdMs: this.settings.idleThresholdSeconds * 1000,
+            sampleIntervalMs: this.settings.activitySampleSeconds * 1000
         };
-        this.errorLog.push(errorInfo);
+    }
+
+    // フォーカス・エディタの切り替え・スクロール・カーソル移動・休止の記録
+    public logActivity(change: ActivityChange): void {
+        if (!this.isRecording()) {
+            return;
+        }
+        this.activityLog.push({
+            type: 'activity',
+            timestamp: this.getCurrentTimestamp(),
+            event: change.event,
+            documentUri: change.uri ? change.uri.toString() : undefined,
+            ...change.detail
+        });
         this.scheduleSave();
     }
 
     // キーボード入力の記録
-    public logKeyInput(key: string, document: vscode.TextDocument): void {
-        const position = vscode.window.activeTextEditor?.selection.active;
+    public logKeyInput(key: string, document: vscode.TextDocument, change?: vscode.TextDocumentContentChangeEvent): void {
+        if (!this.settings.enableKeyLogging || !this.isTracked(document)) {
+            return;
+        }
+
+        const editor = vscode.window.activeTextEditor;
+        const position = editor && editor.document === document ? editor.selection.active : change?.range.start;
         if (!position) return;
 
+        const stream = this.getStream(document.uri);
         const keyInfo: KeyLogEntry = {
             timestamp: this.getCurrentTimestamp(),
+            documentUri: stream.uri,
             key: key,
             position: {
                 line: position.line,
                 character: position.character
             },
-            lineContent: document.lineAt(position.line).text
+            lineContent: document.lineAt(position.line).text,
+            ...this.cellFieldsOf(document.uri)
         };
-        this.editLog.push(keyInfo);
-        // 頻繁なファイル書き込みを避けるため、キー入力はバッファリングする
-        if (this.editLog.length % 10 === 0) {
-            this.scheduleSave();
+        // 再生できるよう、変更範囲とテキストも記録する
+        if (change) {
+            keyInfo.range = {
+                start: { line: change.range.start.line, character: change.range.start.character },
+                end: { line: change.range.end.line, character: change.range.end.character }
+            };
+            keyInfo.text = change.text;
+            keyInfo.version = document.version;
         }
+        stream.editLog.push(keyInfo);
+        this.trackLineEdit(stream, keyInfo);
+        this.scheduleSave();
     }
 
-    // Pythonファイル実行開始の記録
-    public startPythonExecution(filePath: string): void {
+    // ファイル実行開始の記録
+    // 返した番号を、その実行のプロセスに関する記録（setProcess、finishExecution など）に渡す
+    public startExecution(filePath: string, language: string, errorParser: ErrorParserName): number | undefined {
         // 現在実行中のプロセスがある場合は終了させる
         if (this.currentExecution) {
             if (this.currentExecution.process) {
                 this.currentExecution.process.kill();
             }
-            this.finishExecution(1, 'Aborted by new execution');
+            this.finishExecution(this.currentExecution.id, 1, 'run', 'Aborted by new execution');
+        }
+
+        // 一時停止中に始めた実行は記録しない
+        if (!this.isRecording()) {
+            return undefined;
         }
 
         this.currentExecution = {
+            id: ++this.lastExecutionId,
             startTime: Date.now(),
             file: filePath,
+            language: language,
+            errorParser: errorParser,
             output: '',
             error: ''
         };
 
-        // 現在のドキュメントが実行されたファイルと異なる場合は更新
-        const document = vscode.workspace.textDocuments.find(doc => doc.fileName === filePath);
-        if (document) {
-            this.onDocumentChange(document);
-        }
+        // 実行開始ログ（実行したソースのスナップショットを参照する）
+        const stream = this.getStreamForFile(filePath);
+        const snapshotId = fs.existsSync(filePath)
+            ? this.storeSnapshot(stream, fs.readFileSync(filePath, 'utf8'))
+            : undefined;
+        this.logExecutionEvent('execution_start', { snapshotId: snapshotId });
+        return this.currentExecution.id;
+    }
 
-        // 実行開始ログ
-        const executionInfo: ExecutionLogEntry = {
-            timestamp: this.getCurrentTimestamp(),
-            event: 'execution_start',
-            file: filePath,
-            language: 'python'
-        };
-        this.executionLog.push(executionInfo);
-        this.scheduleSave();
+    // 記録中の実行が、指定した番号の実行か（終わった実行や、置き換えられた実行でないか）
+    private isCurrentExecution(id: number | undefined): boolean {
+        return id !== undefined && this.currentExecution !== null && this.currentExecution.id === id;
     }
 
-    // Python実行のプロセスを設定
-    public setPythonProcess(process: cp.ChildProcess): void {
-        if (!this.currentExecution) {
+    // 実行中のプロセスを設定（コンパイルと実行の各段階で呼ばれる）
+    public setProcess(id: number | undefined, process: cp.ChildProcess): void {
+        if (!this.currentExecution || !this.isCurrentExecution(id)) {
             return;
         }
 
@@ -276,7 +839,7 @@ class Logger {
         // 標準出力をリッスン
         process.stdout?.on('data', (data: Buffer) => {
             const output = data.toString();
-            if (this.currentExecution) {
+            if (this.currentExecution?.process === process) {
                 this.currentExecution.output += output;
             }
         });
@@ -284,269 +847,760 @@ class Logger {
         // 標準エラー出力をリッスン
         process.stderr?.on('data', (data: Buffer) => {
             const error = data.toString();
-            if (this.currentExecution) {
+            if (this.currentExecution?.process === process) {
                 this.currentExecution.error += error;
             }
         });
+    }
 
-        // プロセス終了イベント
-        process.on('exit', (code: number | null) => {
-            this.finishExecution(code || 0);
-        });
+    // 実行中のプログラムへの入力1行の記録
+    public logExecutionInput(id: number | undefined, line: string): void {
+        if (!this.isCurrentExecution(id)) {
+            return;
+        }
+        this.logExecutionEvent('execution_input', { input: line });
+    }
 
-        // エラーイベント
-        process.on('error', (err: Error) => {
-            if (this.currentExecution) {
-                this.currentExecution.error += err.message;
-            }
-            this.finishExecution(1, err.message);
-        });
+    // 実行時間・出力サイズの上限による停止の記録
+    public logExecutionLimit(id: number | undefined, event: 'execution_timeout' | 'output_truncated', limit: number): void {
+        if (!this.isCurrentExecution(id)) {
+            return;
+        }
+        this.logExecutionEvent(event, { limit: limit });
     }
 
-    // Python実行終了の記録
-    private finishExecution(exitCode: number, errorMessage?: string): void {
-        if (!this.currentExecution) {
+    // 実行中のプログラムに関するイベントを記録
+    private logExecutionEvent(event: string, detail: Partial<ExecutionLogEntry>): void {
+        if (!this.currentExecution || !this.isRecording()) {
             return;
         }
 
-        const duration = Date.now() - this.currentExecution.startTime;
-        
+        const stream = this.getStreamForFile(this.currentExecution.file);
         const executionInfo: ExecutionLogEntry = {
             timestamp: this.getCurrentTimestamp(),
-            event: 'execution_end',
+            documentUri: stream.uri,
+            event: event,
             file: this.currentExecution.file,
-            language: 'python',
-            output: this.currentExecution.output,
-            error: this.currentExecution.error || errorMessage,
-            exitCode: exitCode,
-            duration: duration
+            language: this.currentExecution.language,
+            ...detail
         };
-        
-        this.executionLog.push(executionInfo);
-        
-        // エラーがあった場合はエラーログにも記録
-        if (exitCode !== 0 || this.currentExecution.error || errorMessage) {
-            this.logPythonError(this.currentExecution.file, this.currentExecution.error || errorMessage || 'Unknown error');
-        }
-        
-        this.currentExecution = null;
+        stream.executionLog.push(executionInfo);
         this.scheduleSave();
     }
 
-    // Python実行エラーの記録
-    private logPythonError(filePath: string, errorMessage: string): void {
-        // Pythonのエラー情報からスタックトレースを抽出
-        const errorLines = errorMessage.split('\n');
-        let errorStack = null;
-        
-        if (errorLines.length > 1) {
-            // 最初の行をエラーメッセージ、残りをスタックとして扱う
-            const message = errorLines[0];
-            errorStack = errorLines.slice(1).join('\n');
-            
-            const errorInfo: ErrorLogEntry = {
-                timestamp: this.getCurrentTimestamp(),
-                message: message,
-                stack: errorStack,
-                code: fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : '',
-                event: 'python_execution_error',
-                language: 'python'
-            };
-            
-            this.errorLog.push(errorInfo);
-        } else {
-            // エラー行が1行のみの場合
-            const errorInfo: ErrorLogEntry = {
-                timestamp: this.getCurrentTimestamp(),
-                message: errorMessage,
-                stack: null,
-                code: fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : '',
-                event: 'python_execution_error',
-                language: 'python'
-            };
-            
-            this.errorLog.push(errorInfo);
+    // デバッガのセッション・停止・ブレークポイントの記録（実行の開始・終了と同じ形で記録する）
+    public logDebugEvent(change: DebugChange): void {
+        const uri = vscode.Uri.file(change.file);
+        if (!this.isRecording() || !this.filter.isTracked(uri, change.languageId) || !this.isAssignmentTracked(uri)) {
+            return;
         }
-    }
 
-    // 保存のスケジュール
-    private scheduleSave(): void {
-        if (this.saveTimeout) {
-            clearTimeout(this.saveTimeout);
+        const stream = this.getStreamForFile(change.file);
+        const executionInfo: ExecutionLogEntry = {
+            timestamp: this.getCurrentTimestamp(),
+            documentUri: stream.uri,
+            event: change.event,
+            file: change.file,
+            language: change.languageId || change.detail.debugType || 'unknown',
+            ...change.detail
+        };
+
+        // デバッグを始めた時点のソースのスナップショットを参照する
+        if (change.event === 'debug_start' && fs.existsSync(change.file)) {
+            executionInfo.snapshotId = this.storeSnapshot(stream, fs.readFileSync(change.file, 'utf8'));
         }
-        
-        this.saveTimeout = setTimeout(() => {
-            this.saveLog();
-        }, 1000); // 1秒間隔で保存
+        stream.executionLog.push(executionInfo);
+        this.scheduleSave();
     }
 
-    // ログの保存
-    private saveLog(): void {
-        if (!this.logFile || this.isSaving) return;
-
-        this.isSaving = true;
+    // テストの実行に使う設定（Pythonのインタプリタは Python 拡張機能の設定に合わせる）
+    public getTestRunOptions(): TestRunOptions {
+        return {
+            python: vscode.workspace.getConfiguration('python').get<string>('defaultInterpreterPath') || 'python',
+            timeoutMs: this.settings.runTimeoutSeconds * 1000,
+            maxOutputBytes: this.settings.maxOutputBytes
+        };
+    }
+
+    // テストの実行結果の記録（テストしたファイル、またはワークスペースのフォルダのログに記録する）
+    public logTestRun(run: TestRun): void {
+        const uri = vscode.Uri.file(run.target);
+        const tracked = run.scope === 'file'
+            ? this.filter.isTracked(uri, 'python') && this.isAssignmentTracked(uri)
+            : this.filter.isLanguageTracked('python');
+        if (!this.isRecording() || !tracked) {
+            return;
+        }
+
+        const stream = this.getStreamForFile(run.target);
+        const executionInfo: ExecutionLogEntry = {
+            timestamp: this.getCurrentTimestamp(),
+            documentUri: stream.uri,
+            event: 'test_run',
+            file: run.target,
+            language: 'python',
+            scope: run.scope,
+            command: run.command,
+            output: run.output,
+            error: run.error,
+            exitCode: run.exitCode,
+            duration: run.duration,
+            testSummary: summarizeTests(run.results),
+            tests: run.results
+        };
+        stream.executionLog.push(executionInfo);
+        this.scheduleSave();
+    }
+
+    // ファイルパスがログ対象かどうか（ドキュメントを開いていなくてもよい）
+    public isTrackedFile(filePath: string, languageId: string): boolean {
+        const uri = vscode.Uri.file(filePath);
+        return this.isRecording() && !filePath.includes('.logs') && this.filter.isTracked(uri, languageId) && this.isAssignmentTracked(uri);
+    }
+
+    // つまずきの検出に使う設定（記録を一時停止している間は検出しない）
+    public getStruggleOptions(): StruggleOptions {
+        return {
+            enabled: this.settings.struggleDetection && this.isRecording(),
+            rules: this.settings.struggleRules,
+            showHints: this.settings.struggleHints,
+            notifyTa: this.settings.taAlertEndpoint !== ''
+        };
+    }
+
+    // TAへの通知の送信設定（トークンは収集サーバーと共通）
+    public getAlertOptions(): AlertOptions {
+        return {
+            endpoint: this.settings.taAlertEndpoint,
+            token: this.settings.uploadToken
+        };
+    }
+
+    // 検出したつまずきの記録
+    public logStruggle(match: StruggleMatch): void {
+        if (!this.isRecording()) {
+            return;
+        }
+        this.activityLog.push({
+            type: 'struggle',
+            timestamp: this.getCurrentTimestamp(),
+            event: 'struggle_detected',
+            ...match
+        });
+        this.scheduleSave();
+    }
+
+    // 統合ターミナルの記録に使う設定
+    public getTerminalOptions(): TerminalOptions {
+        return {
+            output: this.settings.terminalOutput,
+            maxOutputBytes: this.settings.maxOutputBytes
+        };
+    }
+
+    // 統合ターミナルで実行されたコマンドの記録
+    // 記録対象のファイルを参照するコマンドはそのファイルのログに、それ以外は操作ログに記録する
+    public logTerminalCommand(command: TerminalCommand): void {
+        if (!this.isRecording()) {
+            return;
+        }
+
+        const detail = {
+            commandLine: command.commandLine,
+            commandKind: command.kind,
+            confidence: command.confidence,
+            cwd: command.cwd,
+            terminalName: command.terminalName,
+            exitCode: command.exitCode,
+            duration: command.duration,
+            output: command.output,
+            outputTruncated: command.outputTruncated
+        };
+
+        if (!command.file) {
+            this.activityLog.push({
+                type: 'execution',
+                timestamp: this.getCurrentTimestamp(),
+                event: 'terminal_command',
+                ...detail
+            });
+            this.scheduleSave();
+            return;
+        }
+
+        const language = command.languageId || 'unknown';
+        const stream = this.getStreamForFile(command.file);
+        stream.executionLog.push({
+            timestamp: this.getCurrentTimestamp(),
+            documentUri: stream.uri,
+            event: 'terminal_command',
+            file: command.file,
+            language: language,
+            ...detail
+        });
+        this.scheduleSave();
+
+        // ファイルの実行が失敗し、出力を記録していれば、実行エラーとしても記録する
+        const profile = findProfile(language);
+        if (command.kind === 'run' && command.exitCode !== undefined && command.exitCode !== 0 && command.output && profile) {
+            this.logRunError(command.file, language, profile.errorParser, command.output, 'run');
+        }
+    }
+
+    // ノートブックがログ対象かどうか
+    private isNotebookTracked(notebook: vscode.NotebookDocument, languageId: string): boolean {
+        return this.isRecording() &&
+            !notebook.uri.fsPath.includes('.logs') &&
+            this.filter.isTracked(notebook.uri, languageId) &&
+            this.isAssignmentTracked(notebook.uri);
+    }
+
+    // ノートブックが開かれた時に呼び出される
+    public onNotebookOpen(notebook: vscode.NotebookDocument): void {
+        const cell = notebook.getCells().find(candidate => candidate.kind === vscode.NotebookCellKind.Code);
+        if (cell && this.isNotebookTracked(notebook, cell.document.languageId)) {
+            this.getStream(notebook.uri);
+        }
+    }
+
+    // セルの追加・削除・移動の記録
+    public logCellStructure(change: CellStructureChange): void {
+        const { notebook, cell } = change;
+        if (!this.isNotebookTracked(notebook, cell.document.languageId)) {
+            return;
+        }
+
+        const stream = this.getStream(notebook.uri);
+        stream.eventLog.push({
+            type: 'cell',
+            timestamp: this.getCurrentTimestamp(),
+            documentUri: stream.uri,
+            event: change.event,
+            cellId: cellIdOf(cell),
+            // 削除されたセルの位置は削除前の位置
+            cellIndex: change.event === 'cell_deleted' ? change.fromIndex : cell.index,
+            fromIndex: change.event === 'cell_moved' ? change.fromIndex : undefined,
+            kind: cell.kind === vscode.NotebookCellKind.Code ? 'code' : 'markup',
+            languageId: cell.document.languageId,
+            snapshotId: this.storeSnapshot(stream, cell.document.getText())
+        });
+        this.scheduleSave();
+    }
+
+    // セルの実行の記録（実行の結果は実行ログに、例外はエラーログに記録する）
+    public logCellExecution(execution: CellExecution): void {
+        const { notebook, cell } = execution;
+        const language = cell.document.languageId;
+        if (!this.isNotebookTracked(notebook, language)) {
+            return;
+        }
+
+        const stream = this.getStream(notebook.uri);
+        const code = cell.document.getText();
+        const cellFields = { cellId: cellIdOf(cell), cellIndex: cell.index, executionOrder: execution.executionOrder };
+        stream.executionLog.push({
+            timestamp: this.getCurrentTimestamp(),
+            documentUri: stream.uri,
+            event: 'cell_execution',
+            file: notebook.uri.fsPath,
+            language: language,
+            ...cellFields,
+            output: execution.output,
+            success: execution.success,
+            exitCode: execution.success === undefined ? undefined : execution.success ? 0 : 1,
+            duration: execution.duration,
+            snapshotId: this.storeSnapshot(stream, code)
+        });
+
+        if (this.settings.enableErrorLogging) {
+            for (const error of execution.errors) {
+                stream.errorLog.push({
+                    timestamp: this.getCurrentTimestamp(),
+                    documentUri: stream.uri,
+                    message: error.message ? `${error.name}: ${error.message}` : error.name,
+                    stack: error.stack || null,
+                    code: code,
+                    event: `${language}_execution_error`,
+                    language: language,
+                    exceptionType: error.name,
+                    exceptionMessage: error.message,
+                    ...cellFields
+                });
+            }
+        }
+        this.scheduleSave();
+    }
+
+    // 実行終了の記録（前の実行のプロセスが後から終了した場合は無視する）
+    public finishExecution(id: number | undefined, exitCode: number, phase: RunPhase, errorMessage?: string): void {
+        if (!this.currentExecution || !this.isCurrentExecution(id)) {
+            return;
+        }
+
+        const execution = this.currentExecution;
+        this.logExecutionEvent('execution_end', {
+            output: execution.output,
+            error: execution.error || errorMessage,
+            exitCode: exitCode,
+            duration: Date.now() - execution.startTime,
+            phase: exitCode !== 0 ? phase : undefined
+        });
         
-        const logData = {
-            studentId: this.studentId,
-            sessionId: this.sessionId,
-            fileName: this.currentDocument,
-            editLog: this.editLog,
-            errorLog: this.errorLog,
-            executionLog: this.executionLog
+        // エラーがあった場合はエラーログにも記録
+        if (exitCode !== 0 || execution.error || errorMessage) {
+            // コンパイラによってはエラーを標準出力に出すため、標準エラー出力が空なら標準出力を解析する
+            const errorOutput = execution.error || errorMessage || (exitCode !== 0 ? execution.output : '') || 'Unknown error';
+            this.logRunError(execution.file, execution.language, execution.errorParser, errorOutput, phase);
+        }
+        
+        this.currentExecution = null;
+    }
+
+    // 実行エラーの記録
+    private logRunError(filePath: string, language: string, errorParser: ErrorParserName, errorMessage: string, phase: RunPhase): void {
+        if (!this.isRecording() || !this.settings.enableErrorLogging || !this.filter.isTracked(vscode.Uri.file(filePath), language)) {
+            return;
+        }
+
+        const stream = this.getStreamForFile(filePath);
+        const traceback = parseErrorOutput(errorParser, errorMessage);
+
+        const errorInfo: ErrorLogEntry = {
+            timestamp: this.getCurrentTimestamp(),
+            documentUri: stream.uri,
+            message: errorMessage.trim(),
+            stack: null,
+            code: fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : '',
+            event: `${language}_execution_error`,
+            language: language,
+            phase: phase
         };
 
-        try {
-            const ext = path.extname(this.logFile);
-            const baseName = path.basename(this.logFile, ext);
-            const dirName = path.dirname(this.logFile);
-            let partNumber = 1;
-            let logFilePath = path.join(dirName, `${baseName}_part${partNumber}${ext}`);
-
-            // ログファイルサイズをチェックし、1MBを超えたら新しいファイルを作成
-            while (fs.existsSync(logFilePath) && fs.statSync(logFilePath).size > 1024 * 1024) {
-                partNumber++;                
-                logFilePath = path.join(dirName, `${baseName}_part${partNumber}${ext}`);
+        if (traceback) {
+            // トレースバックは最後の行が例外なので、それをメッセージとして扱う
+            errorInfo.message = traceback.message ? `${traceback.type}: ${traceback.message}` : traceback.type;
+            errorInfo.stack = errorMessage;
+            errorInfo.exceptionType = traceback.type;
+            errorInfo.exceptionMessage = traceback.message;
+            errorInfo.traceback = traceback;
+
+            // 失敗した行を、その行を最後に編集した記録と結びつける
+            const line = failingLine(traceback, filePath);
+            if (line !== undefined) {
+                errorInfo.failingLine = line;
+                errorInfo.lastEditOfLine = stream.lineEdits.get(line - 1);
             }
+        }
+
+        stream.errorLog.push(errorInfo);
+        this.scheduleSave();
+    }
+
+    // 保存のスケジュール
+    // キー入力のたびにタイマーを延長すると入力中に一度も保存されないため、
+    // 既にスケジュール済みの場合はそのタイマーに任せてバッチ化する
+    private scheduleSave(): void {
+        if (this.pendingCount() >= MAX_PENDING_EVENTS) {
+            this.flushLog();
+            return;
+        }
 
-            //fs.writeFileSync(logFilePath, JSON.stringify(logData, null, 2), 'utf8');
-            fs.writeFile(logFilePath, JSON.stringify(logData, null, 2), 'utf8', (err) => {
-                if (err) console.error('ログファイル書き込みエラー:', err);
+        if (this.saveTimeout) {
+            return;
+        }
+        
+        this.saveTimeout = setTimeout(() => {
+            this.saveTimeout = null;
+            this.flushLog();
+        }, 1000); // 1秒間隔で保存
+    }
+
+    // 未書き込みのイベント数
+    private pendingCount(): number {
+        let count = 0;
+        this.streams.forEach(stream => {
+            count += this.streamPendingCount(stream);
+        });
+        return count + this.activityLog.length;
+    }
+
+    // ストリームごとの未書き込みのイベント数
+    private streamPendingCount(stream: DocumentStream): number {
+        return stream.editLog.length + stream.errorLog.length + stream.executionLog.length + stream.eventLog.length;
+    }
+
+    // ストリームのログファイルに対応するジャーナルを開く
+    private openJournal(stream: DocumentStream): EventJournal | null {
+        try {
+            return new EventJournal(stream.logFile, {
+                header: (part: number) => ({
+                    type: 'session',
+                    timestamp: this.getCurrentTimestamp(),
+                    schemaVersion: LOG_SCHEMA_VERSION,
+                    studentId: this.studentId,
+                    sessionId: this.sessionId,
+                    documentUri: stream.uri,
+                    fileName: stream.fileName,
+                    assignmentId: stream.assignmentId,
+                    part: part
+                }),
+                chained: true,
+                signingKey: () => this.settings.courseSigningKey
             });
         } catch (error) {
-            console.error('Failed to save log:', error);
+            console.error('Failed to open log journal:', error);
+            return null;
+        }
+    }
+
+    // 未書き込みのイベントをジャーナルに追記し、メモリ上のバッファを空にする
+    // force でなければ、挿入の分類を待っているストリームは後回しにする
+    public flushLog(force: boolean = false): void {
+        if (this.saveTimeout) {
+            clearTimeout(this.saveTimeout);
+            this.saveTimeout = null;
+        }
+
+        if (this.isSaving || this.pendingCount() === 0) return;
+
+        this.isSaving = true;
+
+        try {
+            this.streams.forEach(stream => this.flushStream(stream, force));
+            this.flushActivity();
+            this.writeManifest();
         } finally {
             this.isSaving = false;
         }
     }
+
+    // 1つのストリームのイベントを書き出す
+    private flushStream(stream: DocumentStream, force: boolean): void {
+        if (!stream.journal || this.streamPendingCount(stream) === 0 || (stream.pendingInsertions > 0 && !force)) {
+            return;
+        }
+
+        const events: JournalEvent[] = [
+            ...stream.eventLog,
+            ...stream.editLog.map(entry => ({ type: entry.key !== undefined ? 'key' : 'edit', ...entry })),
+            ...stream.errorLog.map(entry => ({ type: 'error', ...entry })),
+            ...stream.executionLog.map(entry => ({ type: 'execution', ...entry }))
+        ];
+        // 種類ごとのバッファをまとめて時系列順に並べ、秘密情報を伏せ字にする
+        events.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+        const redacted = this.redactor.redactEvents(events.map(event =>
+            stream.assignmentId ? { ...event, assignmentId: stream.assignmentId } : event
+        ));
+
+        try {
+            stream.journal.append(redacted);
+            stream.eventCount += redacted.length;
+            stream.editLog = [];
+            stream.errorLog = [];
+            stream.executionLog = [];
+            stream.eventLog = [];
+        } catch (error) {
+            // 書き込みに失敗した場合はバッファを残して次回再試行する
+            console.error('Failed to save log:', error);
+            return;
+        }
+        this.publish({ documentUri: stream.uri, fileName: stream.fileName, events: redacted });
+    }
+
+    // イベントの送り先を追加する
+    public addSink(sink: EventSink): vscode.Disposable {
+        this.sinks.push(sink);
+        return new vscode.Disposable(() => {
+            this.sinks = this.sinks.filter(other => other !== sink);
+        });
+    }
+
+    // ジャーナルに書き込んだイベントを送り先に渡す
+    private publish(batch: Omit<EventBatch, 'studentId' | 'sessionId'>): void {
+        this.sinks.forEach(sink => {
+            try {
+                sink.publish({ studentId: this.studentId, sessionId: this.sessionId, ...batch });
+            } catch (error) {
+                // 送り先の失敗でファイルへの記録を止めない
+                console.error('Failed to publish events:', error);
+            }
+        });
+    }
+
+    // 操作イベントをセッション全体のジャーナルに書き出す（最初の書き込み時に作成する）
+    private flushActivity(): void {
+        if (this.activityLog.length === 0) {
+            return;
+        }
+
+        const events = this.activityLog.map(event => this.redactor.redactEvent(this.withAssignment(event)));
+        try {
+            if (!this.activityJournal) {
+                this.activityJournal = new EventJournal(path.join(this.logFolder, `${this.studentId}_activity_${this.sessionId}.jsonl`), {
+                    header: (part: number) => ({
+                        type: 'session',
+                        timestamp: this.getCurrentTimestamp(),
+                        schemaVersion: LOG_SCHEMA_VERSION,
+                        studentId: this.studentId,
+                        sessionId: this.sessionId,
+                        part: part
+                    }),
+                    chained: true,
+                    signingKey: () => this.settings.courseSigningKey
+                });
+            }
+            this.activityJournal.append(events);
+        } catch (error) {
+            // 書き込みに失敗した場合はバッファを残して次回再試行する
+            console.error('Failed to save activity log:', error);
+            return;
+        }
+        this.activityLog = [];
+        this.publish({ events });
+    }
+
+    // セッション全体のイベントに課題のIDを付ける（ドキュメントのイベントはその課題、それ以外は最初のフォルダの課題）
+    private withAssignment(event: JournalEvent): JournalEvent {
+        if (event.assignmentId !== undefined) {
+            return event;
+        }
+        const assignmentId = event.documentUri && event.documentUri.startsWith('file:')
+            ? this.assignmentIdOf(vscode.Uri.parse(event.documentUri).fsPath)
+            : this.assignmentFolderOf(this.logFolder)?.id;
+        return assignmentId ? { ...event, assignmentId } : event;
+    }
+
+    // 課題の提出を記録する
+    public logSubmission(assignment: Assignment, archive: string): void {
+        this.activityLog.push({
+            type: 'submission',
+            timestamp: this.getCurrentTimestamp(),
+            assignmentId: assignment.id,
+            deadline: assignment.deadline,
+            archive: path.basename(archive)
+        });
+        this.flushLog();
+    }
+
+    // セッションで扱ったファイルの一覧をマニフェストとして書き出す
+    private writeManifest(): void {
+        const manifestDir = path.dirname(this.manifestFile);
+        const manifest: SessionManifest = {
+            studentId: this.studentId,
+            sessionId: this.sessionId,
+            startedAt: this.startedAt,
+            updatedAt: this.getCurrentTimestamp(),
+            documents: Array.from(this.streams.values()).map(stream => ({
+                uri: stream.uri,
+                fileName: stream.fileName,
+                logFiles: stream.journal ? stream.journal.parts.map(part => path.relative(manifestDir, part)) : [],
+                firstSeen: stream.firstSeen,
+                lastSeen: stream.lastSeen,
+                eventCount: stream.eventCount,
+                assignmentId: stream.assignmentId
+            })),
+            activityLogFiles: this.activityJournal
+                ? this.activityJournal.parts.map(part => path.relative(manifestDir, part))
+                : []
+        };
+
+        try {
+            writeManifest(this.manifestFile, manifest);
+        } catch (error) {
+            console.error('Failed to write session manifest:', error);
+        }
+    }
+
+    // 終了時に残りのイベントを書き出す
+    public dispose(): void {
+        if (this.snapshotTimer) {
+            clearInterval(this.snapshotTimer);
+        }
+        // 停止中に終了した場合は、停止した期間を閉じておく
+        this.resume('session_end');
+        // 分類を待っている挿入も、発生元のないまま書き出す
+        this.flushLog(true);
+    }
 }
 
-// Python実行用のランナークラス
-class PythonRunner {
+// 言語ごとのプロファイルに従ってファイルを実行するランナークラス
+class CodeRunner {
     private logger: Logger;
-    private outputChannel: vscode.OutputChannel;
+    private terminal: vscode.Terminal | null;
 
     constructor(logger: Logger) {
         this.logger = logger;
-        this.outputChannel = vscode.window.createOutputChannel('Python Execution Log');
+        this.terminal = null;
+    }
+
+    // ドキュメントを実行できるかどうか
+    public canRun(document: vscode.TextDocument): boolean {
+        return document.uri.scheme === 'file' && findProfile(document.languageId) !== undefined;
     }
 
-    // Pythonファイルを実行
-    public async runPythonFile(filePath: string): Promise<void> {
+    // ファイルを実行
+    public async runFile(document: vscode.TextDocument): Promise<void> {
+        const filePath = document.fileName;
+
         // ファイルが存在するか確認
         if (!fs.existsSync(filePath)) {
             vscode.window.showErrorMessage(`ファイルが見つかりません: ${filePath}`);
             return;
         }
 
-        // Pythonファイルでない場合は実行しない
-        if (!filePath.toLowerCase().endsWith('.py')) {
-            vscode.window.showInformationMessage('Pythonファイルではありません。');
+        // 実行方法が定義されていない言語は実行しない
+        const profile = findProfile(document.languageId);
+        if (!profile) {
+            vscode.window.showInformationMessage(`この言語（${document.languageId}）の実行方法が設定されていません。`);
             return;
         }
 
-        // 出力チャンネルをクリアして表示
-        this.outputChannel.clear();
-        this.outputChannel.show(true);
-        this.outputChannel.appendLine(`実行中: ${filePath}`);
-        this.outputChannel.appendLine("----------------------------------------");
-
         try {
-            // Python実行開始ログ
-            this.logger.startPythonExecution(filePath);
-
-            // ファイルのディレクトリを取得
-            const fileDir = path.dirname(filePath);
-
-            // ファイル名を取得
-            const fileName = path.basename(filePath);
-
-            // Python実行コマンドの取得
-            const pythonPath = vscode.workspace.getConfiguration('python').get<string>('defaultInterpreterPath') || 'python';
-            
-            // 子プロセスとして実行
-            const process = cp.spawn(pythonPath, [fileName], {
-                cwd: fileDir,
-                shell: true,
-                env: { PYTHONIOENCODING: 'utf8' },
-                stdio: ['pipe', 'pipe', 'pipe']
-            });
-            
-            // プロセスをロガーに設定
-            this.logger.setPythonProcess(process);
-
-            // 標準出力をリッスン
-            process.stdout.on('data', (data: Buffer) => {
-                const output = data.toString();
-                this.outputChannel.append(output);
+            // 実行開始ログ
+            const executionId = this.logger.startExecution(filePath, profile.languageId, profile.errorParser);
+
+            const settings = loadSettings();
+            const pty = new RunTerminal({
+                steps: this.resolveSteps(profile, filePath),
+                cwd: profile.cwd ? expandVariables(profile.cwd, filePath) : path.dirname(filePath),
+                env: { ...process.env, ...profile.env },
+                timeoutMs: settings.runTimeoutSeconds * 1000,
+                maxOutputBytes: settings.maxOutputBytes
+            }, {
+                onStart: child => this.logger.setProcess(executionId, child),
+                onInput: line => this.logger.logExecutionInput(executionId, line),
+                onLimit: (event, limit) => this.logger.logExecutionLimit(executionId, event, limit),
+                onExit: (exitCode, phase, errorMessage) => this.logger.finishExecution(executionId, exitCode, phase, errorMessage)
             });
 
-            // 標準エラー出力をリッスン
-            process.stderr.on('data', (data: Buffer) => {
-                const error = data.toString();
-                this.outputChannel.append(error);
-            });
+            // 前回の実行のターミナルは閉じる
+            this.terminal?.dispose();
+            this.terminal = vscode.window.createTerminal({ name: `実行: ${path.basename(filePath)}`, pty });
+            this.terminal.show();
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`実行エラー: ${error.message}`);
+        }
+    }
 
-            // プロセス終了イベント
-            process.on('exit', (code: number | null) => {
-                this.outputChannel.appendLine("----------------------------------------");
-                this.outputChannel.appendLine(`\n終了コード: ${code || 0}`);
-                if (code === 0) {
-                    this.outputChannel.appendLine('正常に終了しました。');
-                } else {
-                    this.outputChannel.appendLine('エラーが発生しました。');
-                }
-            });
+    // プロファイルのコマンドを実行する段階の列にする
+    private resolveSteps(profile: RunnerProfile, filePath: string): RunStep[] {
+        // Pythonのインタプリタは Python 拡張機能の設定に合わせる
+        const extra = {
+            python: vscode.workspace.getConfiguration('python').get<string>('defaultInterpreterPath') || 'python'
+        };
 
-            // エラーイベント
-            process.on('error', (err: Error) => {
-                this.outputChannel.appendLine(`\nエラー: ${err.message}`);
-                vscode.window.showErrorMessage(`Python実行エラー: ${err.message}`);
-            });
-        } catch (error: any) {
-            this.outputChannel.appendLine(`\n実行エラー: ${error.message}`);
-            vscode.window.showErrorMessage(`Python実行エラー: ${error.message}`);
+        const steps: RunStep[] = [];
+        if (profile.compile) {
+            const [command, ...args] = resolveCommand(profile.compile, filePath, extra);
+            steps.push({ phase: 'compile', command, args });
         }
+        const [command, ...args] = resolveCommand(profile.run, filePath, extra);
+        steps.push({ phase: 'run', command, args });
+        return steps;
+    }
+
+    public dispose(): void {
+        this.terminal?.dispose();
     }
 }
 
 // 拡張機能のアクティベーション
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): LoggerApi {
     console.log('Logger extension is now active!');
 
     const logger = new Logger();
-    const pythonRunner = new PythonRunner(logger);
+    // 同意するまでは何も記録しない
+    logger.setConsent(hasConsent(context));
+    const runner = new CodeRunner(logger);
+    context.subscriptions.push(runner);
+    const classifier = new ChangeClassifier();
+    context.subscriptions.push(logger, classifier);
 
     // ドキュメント変更イベントの監視
     context.subscriptions.push(
         vscode.workspace.onDidChangeTextDocument(e => {
-            // Pythonファイル以外は無視
-            if (e.document.languageId !== 'python' || logger.shouldIgnoreDocument(e.document)) {
+            // ログ対象外の言語・パスは無視
+            if (!logger.isTracked(e.document)) {
                 return;
             }
 
             logger.onDocumentChange(e.document);
+
+            // 元に戻す・マルチカーソル・フォーマッタなど、イベント全体で判断できる変更
+            const eventSource = classifier.classifyEvent(e);
             e.contentChanges.forEach(change => {               
+                if (eventSource) {
+                    logger.logEdit(change, e.document, eventSource);
+                    return;
+                }
 
                 // キー入力の検知
-                if (change.text.length >= 1 && change.rangeLength > 0) {
+                if (change.text.length >= 1 && change.rangeLength > 0 && change.text.length <= 2) {
                     logger.logEdit(change, e.document);
                 }
                 else if (change.text.length === 1 && change.rangeLength === 0) {
                     // 単一文字の追加はキー入力
-                    logger.logKeyInput(change.text, e.document);
+                    logger.logKeyInput(change.text, e.document, change);
                 } 
                 else if (change.text === '' && change.rangeLength === 1) {
                     // 1文字の削除 => Delete
-                    logger.logKeyInput('Delete', e.document);
+                    logger.logKeyInput('Delete', e.document, change);
                 } 
-                else if (change.text === '\n' || change.text === '\r\n') {
-                    // 改行の追加 => Enterキー
-                    logger.logKeyInput('Enter', e.document);
+                else if (/^\r?\n[ \t]*$/.test(change.text) && change.rangeLength === 0) {
+                    // 改行の追加（自動インデントを含む） => Enterキー
+                    logger.logKeyInput('Enter', e.document, change);
+                }
+                else if (change.text.length > 2) {
+                    // 貼り付けや補完によるまとまった挿入
+                    logger.logInsertion(change, e.document, classifier.classifyInsertion(change, e.document)).catch(error => {
+                        console.error('Failed to log insertion:', error);
+                    });
+                }
+                else {
+                    // 複数文字の挿入・削除も再生できるよう編集として記録する
+                    logger.logEdit(change, e.document);
                 }
             });
         })
     );
 
+    // エディタの診断（リンター・型エラー）の出現と解消を記録する
+    context.subscriptions.push(
+        new DiagnosticTracker(
+            uri => logger.isTrackedUri(uri),
+            () => logger.getDiagnosticSeverities(),
+            change => logger.logDiagnostic(change)
+        )
+    );
+
+    // フォーカス・エディタの切り替え・スクロール・カーソル移動・休止を記録する
+    context.subscriptions.push(
+        new ActivityTracker(
+            document => logger.isTracked(document),
+            () => logger.getActivityOptions(),
+            change => logger.logActivity(change)
+        )
+    );
+
+    // デバッガのセッション・ブレークポイント・停止を記録する
+    context.subscriptions.push(new DebugTracker(change => logger.logDebugEvent(change)));
+
+    // 開かれたドキュメントの初期内容を記録する
+    vscode.workspace.textDocuments.forEach(document => logger.onDocumentOpen(document));
+    context.subscriptions.push(
+        vscode.workspace.onDidOpenTextDocument(document => logger.onDocumentOpen(document)),
+        vscode.workspace.onDidSaveTextDocument(document => logger.logSave(document))
+    );
+
+    // 設定変更を即座に反映する
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('Logger')) {
+                logger.reloadSettings();
+            }
+        })
+    );
+
     // 選択範囲の変更イベントの監視
     context.subscriptions.push(
         vscode.window.onDidChangeTextEditorSelection(e => {
@@ -557,13 +1611,13 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );
 
-    // Python実行コマンドの登録
+    // 実行コマンドの登録（コマンドIDは以前のPython専用のものを引き継ぐ）
     context.subscriptions.push(
         vscode.commands.registerCommand('extension.logger.runPython', async () => {
             const activeEditor = vscode.window.activeTextEditor;
             if (activeEditor) {
                 // 現在のファイルを実行
-                await pythonRunner.runPythonFile(activeEditor.document.fileName);
+                await runner.runFile(activeEditor.document);
             } else {
                 vscode.window.showInformationMessage('ファイルが開かれていません。');
             }
@@ -575,11 +1629,11 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(
         vscode.commands.registerCommand('extension.logger.runPythonInTerminal', async () => {
             const activeEditor = vscode.window.activeTextEditor;
-            if (activeEditor && activeEditor.document.languageId === 'python') {
+            if (activeEditor && runner.canRun(activeEditor.document)) {
                 // ドキュメントを保存
                 await activeEditor.document.save();
-                // Pythonファイル実行
-                await pythonRunner.runPythonFile(activeEditor.document.fileName);
+                // ファイル実行
+                await runner.runFile(activeEditor.document);
             }
         })
     );
@@ -589,15 +1643,15 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.StatusBarAlignment.Left,
         100
     );
-    runButtonDisposable.text = "$(play) Python実行";
-    runButtonDisposable.tooltip = "Pythonファイルを実行";
+    runButtonDisposable.text = "$(play) 実行";
+    runButtonDisposable.tooltip = "ファイルを保存して実行";
     runButtonDisposable.command = 'extension.logger.runPythonInTerminal';
     context.subscriptions.push(runButtonDisposable);
 
-    // Pythonファイルがアクティブな場合にのみボタンを表示
+    // 実行方法のある言語のファイルがアクティブな場合にのみボタンを表示
     context.subscriptions.push(
         vscode.window.onDidChangeActiveTextEditor(editor => {
-            if (editor && editor.document.languageId === 'python') {
+            if (editor && runner.canRun(editor.document)) {
                 runButtonDisposable.show();
             } else {
                 runButtonDisposable.hide();
@@ -607,12 +1661,41 @@ export function activate(context: vscode.ExtensionContext) {
 
     // 初期状態の設定
     const activeEditor = vscode.window.activeTextEditor;
-    if (activeEditor && activeEditor.document.languageId === 'python') {
+    if (activeEditor && runner.canRun(activeEditor.document)) {
         runButtonDisposable.show();
     } else {
         runButtonDisposable.hide();
     }
 
+    // ノートブックのセルの追加・削除・移動と、セルの実行を記録する
+    vscode.workspace.notebookDocuments.forEach(notebook => logger.onNotebookOpen(notebook));
+    context.subscriptions.push(
+        vscode.workspace.onDidOpenNotebookDocument(notebook => logger.onNotebookOpen(notebook)),
+        new NotebookTracker(
+            change => logger.logCellStructure(change),
+            execution => logger.logCellExecution(execution)
+        )
+    );
+
+    // 統合ターミナルで実行されたコマンドを記録する
+    context.subscriptions.push(
+        new TerminalTracker(
+            (filePath, languageId) => logger.isTrackedFile(filePath, languageId),
+            () => logger.getTerminalOptions(),
+            command => logger.logTerminalCommand(command)
+        )
+    );
+
+    // テストを実行して結果を記録するコマンド
+    const testRunner = new TestRunner(
+        () => logger.getTestRunOptions(),
+        run => logger.logTestRun(run)
+    );
+    context.subscriptions.push(
+        testRunner,
+        vscode.commands.registerCommand('extension.logger.runTests', () => testRunner.runTests())
+    );
+
     // 生徒ID設定コマンド
     context.subscriptions.push(
         vscode.commands.registerCommand('extension.logger.setStudentId', async () => {
@@ -629,12 +1712,217 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );    
 
+    // セッション再生コマンドの登録
+    context.subscriptions.push(
+        vscode.commands.registerCommand('extension.logger.replaySession', async () => {
+            // 再生対象に最新の編集が含まれるよう先に書き出す
+            logger.flushLog();
+            await openReplay(logger.getLogFolders());
+        })
+    );
+
+    // スナップショット比較コマンドの登録
+    context.subscriptions.push(
+        registerSnapshotProvider(),
+        vscode.commands.registerCommand('extension.logger.diffSnapshots', async () => {
+            logger.flushLog();
+            await openSnapshotDiff(logger.getLogFolders());
+        })
+    );
+
     // 統計表示コマンドの登録
-    const statsDisposable = vscode.commands.registerCommand('extension.logger.showStats', () => {
-        vscode.window.showInformationMessage('Logger is active. Logs are being collected.');
+    const statsDisposable = vscode.commands.registerCommand('extension.logger.showStats', async () => {
+        // 統計に最新のイベントが含まれるよう先に書き出す
+        logger.flushLog();
+        await openStats(logger.getManifestFile(), logger.getLogFolders(), logger.getActivityOptions().idleThresholdMs);
     });
 
     context.subscriptions.push(statsDisposable);
+
+    // 記録の状態（記録中・一時停止中・未同意）の表示
+    const recordingStatusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 101);
+    const showRecordingState = () => {
+        switch (logger.getRecordingState()) {
+            case 'recording':
+                recordingStatusBar.text = '$(record) 記録中';
+                recordingStatusBar.tooltip = 'クリックして記録を一時停止';
+                recordingStatusBar.command = 'extension.logger.pauseLogging';
+                break;
+            case 'paused':
+                recordingStatusBar.text = '$(debug-pause) 記録停止中';
+                recordingStatusBar.tooltip = 'クリックして記録を再開';
+                recordingStatusBar.command = 'extension.logger.resumeLogging';
+                break;
+            case 'no_consent':
+                recordingStatusBar.text = '$(circle-slash) 記録なし';
+                recordingStatusBar.tooltip = '記録に同意していません。クリックして同意を確認';
+                recordingStatusBar.command = 'extension.logger.resumeLogging';
+                break;
+        }
+        recordingStatusBar.show();
+    };
+    context.subscriptions.push(
+        recordingStatusBar,
+        vscode.commands.registerCommand('extension.logger.pauseLogging', () => {
+            logger.pause();
+            showRecordingState();
+        }),
+        vscode.commands.registerCommand('extension.logger.resumeLogging', async () => {
+            // 同意していない場合は、もう一度同意を求める
+            if (!hasConsent(context)) {
+                logger.setConsent(await requestConsent(context));
+            }
+            logger.resume();
+            showRecordingState();
+        })
+    );
+
+    // 初回は記録への同意を求める
+    showRecordingState();
+    if (!hasAnswered(context)) {
+        requestConsent(context).then(granted => {
+            logger.setConsent(granted);
+            showRecordingState();
+        }).catch(error => {
+            // 同意を確認できなかった場合は記録しない（次回の起動時にもう一度確認する）
+            console.error('Failed to request consent:', error);
+            showRecordingState();
+        });
+    }
+
+    // 収集サーバーへの送信（送信先が設定されている場合のみ）と、送信待ちの件数の表示
+    const uploadStatusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+    uploadStatusBar.command = 'extension.logger.syncNow';
+    let rejectedEvents: number | undefined;
+    const showUploadStatus = (status: UploadStatus) => {
+        // サーバーに拒否されたイベントが増えたら知らせる（トークンや送信先の設定の誤りなど）
+        if (rejectedEvents !== undefined && status.rejected > rejectedEvents) {
+            vscode.window.showWarningMessage(`収集サーバーにログの受け付けを拒否されました（${status.lastError}）。トークンと送信先の設定を確認してください。`);
+        }
+        rejectedEvents = status.rejected;
+
+        if (!status.enabled) {
+            uploadStatusBar.hide();
+            return;
+        }
+        uploadStatusBar.text = status.pending > 0
+            ? `$(${status.sending ? 'sync~spin' : 'cloud-upload'}) ${status.pending}`
+            : status.rejected > 0 ? `$(warning) 拒否 ${status.rejected}` : '$(cloud) 送信済み';
+        uploadStatusBar.tooltip = [
+            `送信待ちのイベント: ${status.pending} 件`,
+            status.rejected > 0 ? `拒否されたイベント: ${status.rejected} 件` : '',
+            status.lastError ? `送信に失敗しました: ${status.lastError}` : ''
+        ].filter(line => line).join('\n');
+        uploadStatusBar.show();
+    };
+    // URLとして正しくない送信先は設定を読み込むときに無効にするので、そのことを知らせる
+    const warnInvalidEndpoint = (name: string) => {
+        const value = vscode.workspace.getConfiguration('Logger').get<string>(name, '');
+        if (value.trim() && !validEndpoint(value)) {
+            vscode.window.showWarningMessage(`Logger.${name} が http(s) のURLではないため、送信しません: ${value}`);
+        }
+    };
+    warnInvalidEndpoint('uploadEndpoint');
+    warnInvalidEndpoint('taAlertEndpoint');
+    const uploadQueue = new UploadQueue(
+        uploadQueueFolder(logger.getLogFolder()),
+        () => logger.getUploadOptions(),
+        showUploadStatus
+    );
+    context.subscriptions.push(
+        uploadStatusBar,
+        uploadQueue,
+        logger.addSink(uploadQueue),
+        vscode.commands.registerCommand('extension.logger.syncNow', () => {
+            logger.flushLog();
+            uploadQueue.syncNow();
+        }),
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('Logger.uploadEndpoint')) {
+                warnInvalidEndpoint('uploadEndpoint');
+                showUploadStatus(uploadQueue.status);
+                uploadQueue.syncNow();
+            }
+            if (e.affectsConfiguration('Logger.taAlertEndpoint')) {
+                warnInvalidEndpoint('taAlertEndpoint');
+            }
+        })
+    );
+
+    // 記録したイベントからつまずきを検出し、ヒントを表示してTAに通知する
+    const struggleMonitor = new StruggleMonitor(
+        () => logger.getStruggleOptions(),
+        match => logger.logStruggle(match),
+        new HttpAlertNotifier(() => logger.getAlertOptions())
+    );
+    context.subscriptions.push(struggleMonitor, logger.addSink(struggleMonitor));
+
+    // 課題の定義ファイルの変更を反映する
+    const showAssignmentErrors = (errors: string[]) => errors.forEach(error => vscode.window.showWarningMessage(error));
+    showAssignmentErrors(logger.reloadAssignments());
+    const assignmentWatcher = vscode.workspace.createFileSystemWatcher(`**/${ASSIGNMENT_FILE_NAME}`);
+    const reloadAssignments = () => showAssignmentErrors(logger.reloadAssignments());
+    context.subscriptions.push(
+        assignmentWatcher,
+        assignmentWatcher.onDidCreate(reloadAssignments),
+        assignmentWatcher.onDidChange(reloadAssignments),
+        assignmentWatcher.onDidDelete(reloadAssignments),
+        vscode.workspace.onDidChangeWorkspaceFolders(reloadAssignments)
+    );
+
+    // 課題のソース・ログ・スナップショットをまとめた提出アーカイブを作成する
+    context.subscriptions.push(
+        vscode.commands.registerCommand('extension.logger.submitAssignment', async () => {
+            logger.flushLog();
+            await submitAssignment(logger.getAssignments(), logger.getStudentId(), (assignment, archive) => {
+                logger.logSubmission(assignment, archive);
+            });
+        })
+    );
+
+    // すべてのセッションのログをCSV・JSONL・xAPIに書き出す
+    context.subscriptions.push(
+        vscode.commands.registerCommand('extension.logger.exportLogs', async () => {
+            logger.flushLog();
+            await exportLogsToFile(logger.getLogFolders(), logger.getXapiBaseUrl());
+        })
+    );
+
+    // ログが改ざんされていないか検証する
+    const integrityOutput = vscode.window.createOutputChannel('Logger: Integrity');
+    context.subscriptions.push(
+        integrityOutput,
+        vscode.commands.registerCommand('extension.logger.verifyLogIntegrity', () => {
+            // 書きかけのイベントを先に書き出して、連鎖の末尾を最新にする
+            logger.flushLog();
+            const results = logger.getLogFolders().map(folder => verifyFolder(folder, logger.getSigningKey()));
+
+            integrityOutput.clear();
+            integrityOutput.append(formatReport(results));
+            integrityOutput.show(true);
+
+            if (results.every(result => isIntact(result))) {
+                vscode.window.showInformationMessage('ログの改ざんは見つかりませんでした。');
+            } else {
+                vscode.window.showWarningMessage('変更・削除されたログがあります。詳細は出力パネルを確認してください。');
+            }
+        })
+    );
+
+    // ログをスキーマで検証し、古い形式のログを移行する
+    const migrationOutput = vscode.window.createOutputChannel('Logger: Log Schema');
+    context.subscriptions.push(
+        migrationOutput,
+        vscode.commands.registerCommand('extension.logger.validateLogs', async () => {
+            logger.flushLog();
+            await validateAndMigrateLogs(logger.getLogFolders(), logger.getSigningKey(), migrationOutput);
+        })
+    );
+
+    // 他の拡張機能（採点・ヒント・クイズなど）に記録の購読とカスタムイベントの記録を公開する
+    const { api, disposable: apiDisposable } = createLoggerApi(logger);
+    context.subscriptions.push(apiDisposable);
+    return api;
 }
 
 // 拡張機能の非アクティベーション
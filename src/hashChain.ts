@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+// 連鎖の先頭に使うハッシュ値
+export const GENESIS_HASH = '0'.repeat(64);
+
+// ジャーナルのハッシュ連鎖の末尾（サイドカーファイルに保存する）
+export interface ChainHead {
+    version: number;
+    algorithm: 'sha256';
+    // 最後のイベントのハッシュ値
+    head: string;
+    // 連鎖に含まれるイベントの数
+    count: number;
+    // ジャーナルのパートファイル名（順番どおり）
+    parts: string[];
+    updatedAt: string;
+    // 講義ごとの鍵による署名（鍵が設定されている場合のみ）
+    signature?: {
+        algorithm: 'hmac-sha256';
+        // どの鍵で署名したかを示す（鍵そのものは含めない）
+        keyId: string;
+        value: string;
+    };
+}
+
+// 1つ前のハッシュ値とイベントの内容からハッシュ値を求める
+// イベントは hash を除き、prevHash を含めた状態で直列化する
+export function hashEvent(prevHash: string, event: { [key: string]: any }): string {
+    const { hash, ...rest } = event;
+    return crypto.createHash('sha256').update(prevHash).update(JSON.stringify(rest)).digest('hex');
+}
+
+// イベントを連鎖につなげる（prevHash と hash を末尾に付ける）
+export function chainEvent<T extends { [key: string]: any }>(prevHash: string, event: T): T & { prevHash: string; hash: string } {
+    const linked = { ...event, prevHash: prevHash };
+    return { ...linked, hash: hashEvent(prevHash, linked) };
+}
+
+// ジャーナルに対応するサイドカーファイルのパス（<名前>.chain.json）
+export function chainFileOf(journalName: string, folder: string): string {
+    return path.join(folder, `${journalName}.chain.json`);
+}
+
+// 鍵の識別子
+export function keyIdOf(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex').slice(0, 16);
+}
+
+// 連鎖の末尾に対する署名
+export function signHead(head: Pick<ChainHead, 'head' | 'count' | 'parts'>, key: string): string {
+    return crypto.createHmac('sha256', key)
+        .update(JSON.stringify({ head: head.head, count: head.count, parts: head.parts }))
+        .digest('hex');
+}
+
+// 署名が正しいか確認する
+export function verifySignature(head: ChainHead, key: string): boolean {
+    if (!head.signature) {
+        return false;
+    }
+    const expected = Buffer.from(signHead(head, key), 'hex');
+    const actual = Buffer.from(head.signature.value, 'hex');
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+// サイドカーファイルを書き込む（一時ファイルに書いてから置き換える）
+export function writeChainHead(filePath: string, head: ChainHead): void {
+    const tempFile = `${filePath}.tmp`;
+    fs.writeFileSync(tempFile, JSON.stringify(head, null, 2), 'utf8');
+    fs.renameSync(tempFile, filePath);
+}
+
+// サイドカーファイルを読み込む（なければ undefined）
+export function readChainHead(filePath: string): ChainHead | undefined {
+    if (!fs.existsSync(filePath)) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch {
+        return undefined;
+    }
+}
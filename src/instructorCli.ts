@@ -0,0 +1,92 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { DEFAULT_THRESHOLDS, ReportThresholds, buildClassReport, formatClassCsv, formatClassHtml } from './classReport';
+
+// 集めた生徒のログから、クラスのレポートを作るコマンドラインツール
+// 使い方: student-code-logger-report [--out DIR] [--key SIGNING_KEY] [--min-minutes N] [--idle-seconds N] <生徒のログを集めたフォルダ>
+// DIR に class-report.html、class-report.csv、summaries.json を書き出す
+
+const USAGE = 'Usage: student-code-logger-report [--out DIR] [--key SIGNING_KEY] [--min-minutes N] [--idle-seconds N] <collected logs folder>';
+
+function fail(message: string): never {
+    console.error(message);
+    console.error(USAGE);
+    process.exit(1);
+}
+
+function main(args: string[]): void {
+    let root: string | undefined;
+    let out = '.';
+    let key: string | undefined;
+    const thresholds: ReportThresholds = { ...DEFAULT_THRESHOLDS };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        const value = () => {
+            if (i + 1 >= args.length) {
+                fail(`Missing value for ${arg}`);
+            }
+            return args[++i];
+        };
+
+        switch (arg) {
+            case '--out':
+                out = value();
+                break;
+            case '--key':
+                key = value();
+                break;
+            case '--min-minutes': {
+                const text = value();
+                const minutes = Number(text);
+                if (!isFinite(minutes) || minutes < 0) {
+                    fail(`Invalid minutes: ${text}`);
+                }
+                thresholds.minTimeOnTask = minutes * 60 * 1000;
+                break;
+            }
+            case '--idle-seconds': {
+                const text = value();
+                const seconds = Number(text);
+                if (!isFinite(seconds) || seconds <= 0) {
+                    fail(`Invalid seconds: ${text}`);
+                }
+                thresholds.idleThreshold = seconds * 1000;
+                break;
+            }
+            case '-h':
+            case '--help':
+                console.log(USAGE);
+                return;
+            default:
+                if (arg.startsWith('--')) {
+                    fail(`Unknown option: ${arg}`);
+                }
+                if (root) {
+                    fail(`Unexpected argument: ${arg}`);
+                }
+                root = arg;
+        }
+    }
+
+    if (!root) {
+        fail('No logs folder given');
+    }
+    if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+        fail(`Not a folder: ${root}`);
+    }
+
+    const report = buildClassReport(path.resolve(root), thresholds, key);
+    fs.mkdirSync(out, { recursive: true });
+    fs.writeFileSync(path.join(out, 'class-report.html'), formatClassHtml(report), 'utf8');
+    fs.writeFileSync(path.join(out, 'class-report.csv'), formatClassCsv(report), 'utf8');
+    fs.writeFileSync(path.join(out, 'summaries.json'), JSON.stringify(report, null, 2), 'utf8');
+
+    console.error(`Summarized ${report.students.length} students from ${report.logFolders.length} log folders into ${out}`);
+    for (const student of report.students.filter(student => student.flags.length > 0)) {
+        console.log(`${student.studentId}: ${student.flags.map(flag => flag.message).join(' / ')}`);
+    }
+}
+
+main(process.argv.slice(2));
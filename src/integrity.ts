@@ -0,0 +1,244 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { listJournals } from './journal';
+import { ChainHead, GENESIS_HASH, chainFileOf, hashEvent, keyIdOf, readChainHead, verifySignature } from './hashChain';
+import { listManifests, readManifest, resolveActivityLogFiles, resolveLogFiles } from './manifest';
+import { SnapshotStore, snapshotFolder } from './snapshotStore';
+
+// 検出した問題の種類
+export type IntegrityIssueKind =
+    | 'invalid_line'
+    | 'truncated_line'
+    | 'missing_hash'
+    | 'altered'
+    | 'chain_break'
+    | 'head_mismatch'
+    | 'missing_chain_file'
+    | 'missing_part'
+    | 'unexpected_part'
+    | 'missing_journal'
+    | 'missing_log_file'
+    | 'unsigned'
+    | 'signature_invalid'
+    | 'snapshot_altered';
+
+// 検証で見つかった問題
+export interface IntegrityIssue {
+    kind: IntegrityIssueKind;
+    // 改ざんの可能性があるものは error、クラッシュの痕跡などは warning
+    severity: 'error' | 'warning';
+    file: string;
+    // ファイル内の行番号（1始まり）
+    line?: number;
+    message: string;
+}
+
+// ジャーナル1つ分の検証結果
+export interface JournalVerification {
+    name: string;
+    parts: string[];
+    eventCount: number;
+    signed: boolean;
+    // 鍵を使って署名を確認できたか
+    signatureVerified: boolean;
+    issues: IntegrityIssue[];
+}
+
+// ログフォルダの検証結果
+export interface FolderVerification {
+    folder: string;
+    journals: JournalVerification[];
+    // ジャーナルに属さない問題（ログファイルの欠落、スナップショットの変更など）
+    issues: IntegrityIssue[];
+}
+
+// 検証結果に改ざんの可能性がある問題が含まれていないか
+export function isIntact(result: FolderVerification): boolean {
+    return allIssues(result).every(issue => issue.severity !== 'error');
+}
+
+// 検証結果のすべての問題
+export function allIssues(result: FolderVerification): IntegrityIssue[] {
+    return result.issues.concat(...result.journals.map(journal => journal.issues));
+}
+
+// ジャーナルのハッシュ連鎖と、サイドカーファイルの末尾・署名を検証する
+export function verifyJournal(name: string, parts: string[], key?: string): JournalVerification {
+    const issues: IntegrityIssue[] = [];
+    const folder = parts.length > 0 ? path.dirname(parts[0]) : '.';
+    const chainFile = chainFileOf(name, folder);
+    const chainHead = readChainHead(chainFile);
+
+    if (!chainHead) {
+        issues.push({ kind: 'missing_chain_file', severity: 'error', file: chainFile, message: 'ハッシュ連鎖のサイドカーファイルがありません' });
+    } else {
+        const actual = parts.map(part => path.basename(part));
+        chainHead.parts
+            .filter(part => !actual.includes(part))
+            .forEach(part => issues.push({ kind: 'missing_part', severity: 'error', file: path.join(folder, part), message: 'パートファイルが削除されています' }));
+        actual
+            .filter(part => !chainHead.parts.includes(part))
+            .forEach(part => issues.push({ kind: 'unexpected_part', severity: 'error', file: path.join(folder, part), message: 'サイドカーファイルに記載のないパートファイルです' }));
+    }
+
+    let expectedPrev = GENESIS_HASH;
+    let eventCount = 0;
+    // 壊れた行の直後のイベントが連鎖を保っていれば、クラッシュ時の書きかけの行とみなす
+    let pendingInvalid: IntegrityIssue | null = null;
+
+    for (const part of parts) {
+        const lines = fs.readFileSync(part, 'utf8').split('\n');
+        lines.forEach((text, index) => {
+            if (!text.trim()) {
+                return;
+            }
+
+            let event: { [key: string]: any };
+            try {
+                event = JSON.parse(text);
+            } catch {
+                pendingInvalid = { kind: 'invalid_line', severity: 'error', file: part, line: index + 1, message: 'JSONとして読み込めない行です' };
+                issues.push(pendingInvalid);
+                return;
+            }
+
+            eventCount++;
+            const invalidBefore: IntegrityIssue | null = pendingInvalid;
+            pendingInvalid = null;
+
+            if (typeof event.hash !== 'string' || typeof event.prevHash !== 'string') {
+                issues.push({ kind: 'missing_hash', severity: 'error', file: part, line: index + 1, message: 'ハッシュ値のないイベントです（後から追加された可能性があります）' });
+                return;
+            }
+
+            if (hashEvent(event.prevHash, event) !== event.hash) {
+                issues.push({ kind: 'altered', severity: 'error', file: part, line: index + 1, message: `イベントの内容が変更されています (${event.type} ${event.timestamp})` });
+            }
+            if (event.prevHash !== expectedPrev) {
+                issues.push({ kind: 'chain_break', severity: 'error', file: part, line: index + 1, message: 'この行の直前で連鎖が途切れています（イベントの削除・挿入・並べ替え）' });
+            } else if (invalidBefore) {
+                invalidBefore.kind = 'truncated_line';
+                invalidBefore.severity = 'warning';
+                invalidBefore.message = '書き込み途中で中断された行です（連鎖は保たれています）';
+            }
+            expectedPrev = event.hash;
+        });
+    }
+
+    let signatureVerified = false;
+    if (chainHead) {
+        if (chainHead.head !== expectedPrev) {
+            issues.push({
+                kind: 'head_mismatch',
+                severity: 'error',
+                file: chainFile,
+                message: `連鎖の末尾がサイドカーファイルと一致しません（記録: ${chainHead.count} 件, 実際: ${eventCount} 件）。末尾のイベントが削除・追加された可能性があります`
+            });
+        }
+        signatureVerified = checkSignature(chainHead, chainFile, key, issues);
+    }
+
+    return {
+        name: name,
+        parts: parts,
+        eventCount: eventCount,
+        signed: chainHead?.signature !== undefined,
+        signatureVerified: signatureVerified,
+        issues: issues
+    };
+}
+
+// 鍵が与えられていれば署名を確認する
+function checkSignature(chainHead: ChainHead, chainFile: string, key: string | undefined, issues: IntegrityIssue[]): boolean {
+    if (!key) {
+        return false;
+    }
+    if (!chainHead.signature) {
+        issues.push({ kind: 'unsigned', severity: 'error', file: chainFile, message: '署名がありません' });
+        return false;
+    }
+    if (chainHead.signature.keyId !== keyIdOf(key)) {
+        issues.push({ kind: 'signature_invalid', severity: 'error', file: chainFile, message: '別の鍵で署名されています' });
+        return false;
+    }
+    if (!verifySignature(chainHead, key)) {
+        issues.push({ kind: 'signature_invalid', severity: 'error', file: chainFile, message: '署名が一致しません（サイドカーファイルが変更されています）' });
+        return false;
+    }
+    return true;
+}
+
+// ログフォルダ内のすべてのジャーナル、マニフェスト、スナップショットを検証する
+export function verifyFolder(folder: string, key?: string): FolderVerification {
+    const issues: IntegrityIssue[] = [];
+    const journals = listJournals(folder).map(journal => verifyJournal(journal.name, journal.parts, key));
+
+    // ジャーナルごと削除されていないか（サイドカーファイルだけが残っている）
+    const names = new Set(journals.map(journal => journal.name));
+    if (fs.existsSync(folder)) {
+        fs.readdirSync(folder)
+            .filter(file => file.endsWith('.chain.json'))
+            .map(file => file.slice(0, -'.chain.json'.length))
+            .filter(name => !names.has(name))
+            .forEach(name => issues.push({
+                kind: 'missing_journal',
+                severity: 'error',
+                file: chainFileOf(name, folder),
+                message: 'サイドカーファイルに対応するログファイルがありません'
+            }));
+    }
+
+    // マニフェストに記載されたログファイルが揃っているか
+    for (const manifestFile of listManifests(folder)) {
+        let files: string[];
+        try {
+            const manifest = readManifest(manifestFile);
+            files = manifest.documents
+                .flatMap(document => resolveLogFiles(manifestFile, document))
+                .concat(resolveActivityLogFiles(manifestFile, manifest));
+        } catch {
+            issues.push({ kind: 'invalid_line', severity: 'error', file: manifestFile, message: 'マニフェストを読み込めません' });
+            continue;
+        }
+        files
+            .filter(file => !fs.existsSync(file))
+            .forEach(file => issues.push({ kind: 'missing_log_file', severity: 'error', file: file, message: 'マニフェストに記載されたログファイルがありません' }));
+    }
+
+    // スナップショットの内容がIDのハッシュ値と一致するか
+    const snapshots = snapshotFolder(folder);
+    if (fs.existsSync(snapshots)) {
+        fs.readdirSync(snapshots)
+            .filter(file => file.endsWith('.txt'))
+            .forEach(file => {
+                const filePath = path.join(snapshots, file);
+                if (SnapshotStore.idOf(fs.readFileSync(filePath, 'utf8')) !== path.basename(file, '.txt')) {
+                    issues.push({ kind: 'snapshot_altered', severity: 'error', file: filePath, message: 'スナップショットの内容が変更されています' });
+                }
+            });
+    }
+
+    return { folder: folder, journals: journals, issues: issues };
+}
+
+// 検証結果をテキストのレポートにする
+export function formatReport(results: FolderVerification[]): string {
+    const lines: string[] = [];
+    for (const result of results) {
+        lines.push(`# ${result.folder}`);
+        for (const journal of result.journals) {
+            const signature = journal.signatureVerified ? '署名確認済み' : journal.signed ? '署名あり（未確認）' : '署名なし';
+            const status = journal.issues.some(issue => issue.severity === 'error') ? 'NG' : 'OK';
+            lines.push(`[${status}] ${journal.name} (${journal.parts.length} part(s), ${journal.eventCount} 件, ${signature})`);
+            journal.issues.forEach(issue => lines.push(`    ${formatIssue(issue)}`));
+        }
+        result.issues.forEach(issue => lines.push(`[NG] ${formatIssue(issue)}`));
+        lines.push('');
+    }
+    return lines.join('\n');
+}
+
+function formatIssue(issue: IntegrityIssue): string {
+    const location = issue.line !== undefined ? `${issue.file}:${issue.line}` : issue.file;
+    return `${issue.severity === 'error' ? 'エラー' : '警告'}: ${location} - ${issue.message}`;
+}
@@ -0,0 +1,291 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChainHead, GENESIS_HASH, chainEvent, chainFileOf, keyIdOf, signHead, writeChainHead } from './hashChain';
+
+// ジャーナルに1行として書き込むイベント
+export interface JournalEvent {
+    type: string;
+    timestamp: string;
+    [key: string]: any;
+}
+
+// ジャーナルの設定
+export interface JournalOptions {
+    // 1パートあたりの最大サイズ（バイト）
+    maxFileSize?: number;
+    // 各パートの先頭に書き込むヘッダイベント
+    header?: (part: number) => JournalEvent;
+    // イベントをハッシュ連鎖でつなぎ、末尾をサイドカーファイルに書き出す
+    chained?: boolean;
+    // サイドカーファイルの署名に使う鍵（空なら署名しない）
+    signingKey?: () => string | undefined;
+}
+
+const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+
+// 追記専用のJSONLイベントジャーナル
+// 1行に1イベントを書き込み、サイズ上限を超えたら次のパートファイルに切り替える
+export class EventJournal {
+    private dirName: string;
+    private baseName: string;
+    private ext: string;
+    private maxFileSize: number;
+    private header?: (part: number) => JournalEvent;
+    private partNumber: number;
+    private currentPath: string;
+    private currentSize: number;
+    private hasEvents: boolean;
+    private chained: boolean;
+    private signingKey?: () => string | undefined;
+    private chainHead: string;
+    private chainCount: number;
+
+    constructor(filePath: string, options: JournalOptions = {}) {
+        this.ext = path.extname(filePath) || '.jsonl';
+        this.baseName = path.basename(filePath, path.extname(filePath));
+        this.dirName = path.dirname(filePath);
+        this.maxFileSize = options.maxFileSize || DEFAULT_MAX_FILE_SIZE;
+        this.header = options.header;
+        this.chained = options.chained === true;
+        this.signingKey = options.signingKey;
+        this.chainHead = GENESIS_HASH;
+        this.chainCount = 0;
+
+        // 既存のパートがあれば最後のパートから追記を再開する
+        this.partNumber = 1;
+        while (fs.existsSync(this.partPath(this.partNumber + 1))) {
+            this.partNumber++;
+        }
+        this.currentPath = this.partPath(this.partNumber);
+        this.currentSize = 0;
+        this.hasEvents = false;
+        if (this.chained) {
+            this.resumeChain();
+        }
+        this.openPart();
+        this.writeChainHead();
+    }
+
+    // 現在書き込み中のパートファイルのパス
+    public get path(): string {
+        return this.currentPath;
+    }
+
+    // これまでに書き込んだパートファイルの一覧
+    public get parts(): string[] {
+        const parts: string[] = [];
+        for (let part = 1; part <= this.partNumber; part++) {
+            parts.push(this.partPath(part));
+        }
+        return parts;
+    }
+
+    // パート番号からファイルパスを組み立てる
+    private partPath(part: number): string {
+        return path.join(this.dirName, `${this.baseName}_part${part}${this.ext}`);
+    }
+
+    // 現在のパートを開く（途中で途切れた行があれば改行で閉じる）
+    private openPart(): void {
+        this.hasEvents = false;
+        if (fs.existsSync(this.currentPath)) {
+            this.currentSize = fs.statSync(this.currentPath).size;
+            this.hasEvents = this.currentSize > 0;
+            if (this.currentSize > 0 && !this.endsWithNewline(this.currentPath, this.currentSize)) {
+                this.write('\n');
+            }
+        } else {
+            this.currentSize = 0;
+        }
+
+        if (this.currentSize === 0 && this.header) {
+            const { line, hash } = this.serialize(this.chainHead, this.header(this.partNumber));
+            this.write(line);
+            this.chainHead = hash;
+            this.chainCount++;
+        }
+    }
+
+    // 既存のパートから連鎖の末尾を復元する（ディスク上の内容を正とする）
+    private resumeChain(): void {
+        for (const part of this.parts) {
+            if (!fs.existsSync(part)) {
+                continue;
+            }
+            for (const event of readJournal(part)) {
+                if (typeof event.hash === 'string') {
+                    this.chainHead = event.hash;
+                    this.chainCount++;
+                }
+            }
+        }
+    }
+
+    // イベントを1行に直列化する（連鎖の末尾はまだ進めない）
+    private serialize(prevHash: string, event: JournalEvent): { line: string; hash: string } {
+        if (!this.chained) {
+            return { line: JSON.stringify(event) + '\n', hash: prevHash };
+        }
+        const linked = chainEvent(prevHash, event);
+        return { line: JSON.stringify(linked) + '\n', hash: linked.hash };
+    }
+
+    // 連鎖の末尾をサイドカーファイルに書き出す
+    private writeChainHead(): void {
+        if (!this.chained) {
+            return;
+        }
+
+        const head: ChainHead = {
+            version: 1,
+            algorithm: 'sha256',
+            head: this.chainHead,
+            count: this.chainCount,
+            parts: this.parts.map(part => path.basename(part)),
+            updatedAt: new Date().toISOString()
+        };
+        const key = this.signingKey ? this.signingKey() : undefined;
+        if (key) {
+            head.signature = { algorithm: 'hmac-sha256', keyId: keyIdOf(key), value: signHead(head, key) };
+        }
+
+        try {
+            writeChainHead(chainFileOf(this.baseName, this.dirName), head);
+        } catch (error) {
+            // イベント自体は書き込み済みなので、次の追記時に書き直す
+            console.error('Failed to write chain head:', error);
+        }
+    }
+
+    // ファイル末尾が改行で終わっているか確認
+    private endsWithNewline(filePath: string, size: number): boolean {
+        const fd = fs.openSync(filePath, 'r');
+        try {
+            const buffer = Buffer.alloc(1);
+            fs.readSync(fd, buffer, 0, 1, size - 1);
+            return buffer[0] === 0x0a;
+        } finally {
+            fs.closeSync(fd);
+        }
+    }
+
+    // 文字列を現在のパートに追記し、ディスクへ同期する
+    private write(data: string): void {
+        const fd = fs.openSync(this.currentPath, 'a');
+        try {
+            fs.writeSync(fd, data);
+            fs.fsyncSync(fd);
+        } finally {
+            fs.closeSync(fd);
+        }
+        this.currentSize += Buffer.byteLength(data, 'utf8');
+    }
+
+    // イベントのバッチを追記する
+    public append(events: JournalEvent[]): void {
+        if (events.length === 0) {
+            return;
+        }
+
+        // 連鎖の末尾は、ディスクへの書き込みが成功してから進める
+        let chunk = '';
+        let head = this.chainHead;
+        let count = this.chainCount;
+        for (const event of events) {
+            let { line, hash } = this.serialize(head, event);
+
+            // サイズ上限を超える場合は、それまでの分を書き込んでから次のパートへ
+            const size = Buffer.byteLength(chunk + line, 'utf8');
+            if (this.currentSize + size > this.maxFileSize && (chunk || this.hasEvents)) {
+                if (chunk) {
+                    this.write(chunk);
+                    chunk = '';
+                    this.chainHead = head;
+                    this.chainCount = count;
+                }
+                this.rotate();
+                // 新しいパートのヘッダの後ろにつなぎ直す
+                head = this.chainHead;
+                count = this.chainCount;
+                ({ line, hash } = this.serialize(head, event));
+            }
+            chunk += line;
+            head = hash;
+            count++;
+            this.hasEvents = true;
+        }
+
+        if (chunk) {
+            this.write(chunk);
+            this.chainHead = head;
+            this.chainCount = count;
+        }
+        this.writeChainHead();
+    }
+
+    // 次のパートファイルに切り替える
+    private rotate(): void {
+        this.partNumber++;
+        this.currentPath = this.partPath(this.partNumber);
+        this.openPart();
+    }
+}
+
+// JSONLファイルからイベントを読み込む（壊れた行は読み飛ばす）
+export function readJournal(filePath: string): JournalEvent[] {
+    const events: JournalEvent[] = [];
+    const lines = fs.readFileSync(filePath, 'utf8').split('\n');
+
+    for (const line of lines) {
+        if (!line.trim()) {
+            continue;
+        }
+        try {
+            events.push(JSON.parse(line));
+        } catch {
+            // クラッシュ時に途中まで書き込まれた行は無視する
+        }
+    }
+
+    return events;
+}
+
+// フォルダ内のジャーナル（パートファイルのまとまり）
+export interface JournalFiles {
+    name: string;
+    parts: string[];
+}
+
+// フォルダ内のジャーナルを一覧する（パートは番号順に並べる）
+export function listJournals(folderPath: string): JournalFiles[] {
+    if (!fs.existsSync(folderPath)) {
+        return [];
+    }
+
+    const journals = new Map<string, { part: number; file: string }[]>();
+    for (const file of fs.readdirSync(folderPath)) {
+        const match = /^(.*)_part(\d+)\.jsonl$/.exec(file);
+        if (!match) {
+            continue;
+        }
+        const parts = journals.get(match[1]) || [];
+        parts.push({ part: Number(match[2]), file: path.join(folderPath, file) });
+        journals.set(match[1], parts);
+    }
+
+    return Array.from(journals.entries())
+        .map(([name, parts]) => ({
+            name: name,
+            parts: parts.sort((a, b) => a.part - b.part).map(part => part.file)
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// 複数のパートファイルを順に読み込んで1つのイベント列にする
+export function readJournalParts(parts: string[]): JournalEvent[] {
+    const events: JournalEvent[] = [];
+    for (const part of parts) {
+        events.push(...readJournal(part));
+    }
+    return events;
+}
@@ -0,0 +1,132 @@
+// JSON Schema の一部（type、properties、required、additionalProperties、items、enum、const、
+// 数値・文字列の範囲、anyOf / oneOf、definitions への $ref）による検証
+// 拡張機能の API に登録されたカスタムイベントと、ログの検証に使う
+
+export interface JsonSchema {
+    $schema?: string;
+    $id?: string;
+    $ref?: string;
+    title?: string;
+    description?: string;
+    type?: JsonType | JsonType[];
+    properties?: { [name: string]: JsonSchema };
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema;
+    enum?: any[];
+    const?: any;
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    anyOf?: JsonSchema[];
+    oneOf?: JsonSchema[];
+    definitions?: { [name: string]: JsonSchema };
+}
+
+export type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+function typeOf(value: any): JsonType {
+    if (value === null) {
+        return 'null';
+    }
+    if (Array.isArray(value)) {
+        return 'array';
+    }
+    if (typeof value === 'number') {
+        return Number.isInteger(value) ? 'integer' : 'number';
+    }
+    return typeof value as JsonType;
+}
+
+function matchesType(value: any, type: JsonType): boolean {
+    const actual = typeOf(value);
+    return actual === type || (type === 'number' && actual === 'integer');
+}
+
+// 値をスキーマで検証し、問題の一覧を返す（空なら正しい）
+// root は $ref（#/definitions/名前）の参照先を探すスキーマ
+export function validateJson(value: any, schema: JsonSchema, root: JsonSchema = schema, location: string = '$'): string[] {
+    if (schema.$ref) {
+        const match = /^#\/definitions\/(.+)$/.exec(schema.$ref);
+        const target = match && root.definitions ? root.definitions[match[1]] : undefined;
+        if (!target) {
+            return [`${location}: 参照先のないスキーマです (${schema.$ref})`];
+        }
+        return validateJson(value, target, root, location);
+    }
+
+    const errors: string[] = [];
+    if (schema.type) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some(type => matchesType(value, type))) {
+            return [`${location}: ${types.join(' / ')} である必要があります (${typeOf(value)})`];
+        }
+    }
+    if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+        errors.push(`${location}: ${JSON.stringify(schema.const)} である必要があります`);
+    }
+    if (schema.enum && !schema.enum.some(candidate => JSON.stringify(candidate) === JSON.stringify(value))) {
+        errors.push(`${location}: ${schema.enum.map(candidate => JSON.stringify(candidate)).join(', ')} のいずれかである必要があります`);
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            errors.push(`${location}: ${schema.minimum} 以上である必要があります`);
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            errors.push(`${location}: ${schema.maximum} 以下である必要があります`);
+        }
+    }
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            errors.push(`${location}: ${schema.minLength} 文字以上である必要があります`);
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            errors.push(`${location}: ${schema.maxLength} 文字以下である必要があります`);
+        }
+        if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+            errors.push(`${location}: パターン ${schema.pattern} に一致する必要があります`);
+        }
+    }
+
+    if (Array.isArray(value) && schema.items) {
+        value.forEach((item, index) => errors.push(...validateJson(item, schema.items!, root, `${location}[${index}]`)));
+    }
+
+    if (typeOf(value) === 'object') {
+        for (const name of schema.required || []) {
+            if (value[name] === undefined) {
+                errors.push(`${location}: ${name} がありません`);
+            }
+        }
+        for (const name of Object.keys(value)) {
+            const property = schema.properties ? schema.properties[name] : undefined;
+            if (property) {
+                errors.push(...validateJson(value[name], property, root, `${location}.${name}`));
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${location}: ${name} は定義されていないプロパティです`);
+            } else if (typeof schema.additionalProperties === 'object') {
+                errors.push(...validateJson(value[name], schema.additionalProperties, root, `${location}.${name}`));
+            }
+        }
+    }
+
+    if (schema.anyOf && !schema.anyOf.some(option => validateJson(value, option, root, location).length === 0)) {
+        errors.push(`${location}: どの形式にも一致しません`);
+    }
+    if (schema.oneOf) {
+        const results = schema.oneOf.map(option => validateJson(value, option, root, location));
+        const matched = results.filter(result => result.length === 0).length;
+        if (matched === 0) {
+            // 候補が1つに絞れる場合（type などで判別できる場合）は、その候補の問題を返す
+            const closest = results.reduce((best, result) => result.length < best.length ? result : best);
+            errors.push(...(closest.length > 0 ? closest : [`${location}: どの形式にも一致しません`]));
+        } else if (matched > 1) {
+            errors.push(`${location}: 複数の形式に一致します`);
+        }
+    }
+
+    return errors;
+}
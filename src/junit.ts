@@ -0,0 +1,126 @@
+// JUnit XML（pytest の --junitxml の出力）からテストの結果を読み取る
+
+// テストの結果
+export type TestOutcome = 'passed' | 'failed' | 'error' | 'skipped';
+
+// テスト1件の結果
+export interface TestCaseResult {
+    // classname と name をつないだ名前（例: tests.test_calc::test_add）
+    id: string;
+    name: string;
+    classname: string;
+    outcome: TestOutcome;
+    // 所要時間（ミリ秒）
+    duration: number;
+    // アサーションの失敗・エラー・スキップの理由
+    message?: string;
+    // 失敗・エラーの詳細（トレースバックなど）
+    details?: string;
+}
+
+// テスト結果の集計
+export interface TestSummary {
+    total: number;
+    passed: number;
+    failed: number;
+    errors: number;
+    skipped: number;
+}
+
+// 詳細として残す最大の長さ（トレースバックが長い場合は末尾を残す）
+const MAX_DETAILS_LENGTH = 4000;
+
+// XMLの文字参照・実体参照を戻す
+function decodeXml(text: string): string {
+    return text
+        .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, data: string) => data)
+        .replace(/&#x([0-9a-fA-F]+);/g, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, '\'')
+        .replace(/&amp;/g, '&');
+}
+
+// タグの属性を読み取る
+function attributesOf(tag: string): { [name: string]: string } {
+    const attributes: { [name: string]: string } = {};
+    const pattern = /([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(tag)) !== null) {
+        attributes[match[1]] = decodeXml(match[3] !== undefined ? match[3] : match[4]);
+    }
+    return attributes;
+}
+
+function truncateDetails(text: string): string {
+    return text.length > MAX_DETAILS_LENGTH ? '...' + text.slice(-MAX_DETAILS_LENGTH) : text;
+}
+
+// JUnit XML を読み取る（testcase 要素だけを見るため、testsuite の入れ子の形は問わない）
+export function parseJUnitXml(xml: string): TestCaseResult[] {
+    const results: TestCaseResult[] = [];
+    const testcase = /<testcase\b([^>]*?)(\/>|>([\s\S]*?)<\/testcase>)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = testcase.exec(xml)) !== null) {
+        const attributes = attributesOf(match[1]);
+        const body = match[3] || '';
+        const name = attributes.name || '';
+        const classname = attributes.classname || '';
+        const result: TestCaseResult = {
+            id: classname ? `${classname}::${name}` : name,
+            name: name,
+            classname: classname,
+            outcome: 'passed',
+            duration: Math.round((parseFloat(attributes.time) || 0) * 1000)
+        };
+
+        // 失敗・エラー・スキップの要素（自己終了タグの場合もある）
+        const outcome = /<(failure|error|skipped)\b([^>]*?)(\/>|>([\s\S]*?)<\/\1>)/.exec(body);
+        if (outcome) {
+            const kind = outcome[1];
+            result.outcome = kind === 'failure' ? 'failed' : kind === 'error' ? 'error' : 'skipped';
+            const detailAttributes = attributesOf(outcome[2]);
+            if (detailAttributes.message) {
+                result.message = detailAttributes.message;
+            }
+            const details = decodeXml(outcome[4] || '').trim();
+            if (details && kind !== 'skipped') {
+                result.details = truncateDetails(details);
+            }
+        }
+        results.push(result);
+    }
+
+    return results;
+}
+
+// テスト結果を集計する
+export function summarizeTests(results: TestCaseResult[]): TestSummary {
+    return {
+        total: results.length,
+        passed: results.filter(result => result.outcome === 'passed').length,
+        failed: results.filter(result => result.outcome === 'failed').length,
+        errors: results.filter(result => result.outcome === 'error').length,
+        skipped: results.filter(result => result.outcome === 'skipped').length
+    };
+}
+
+// 出力チャネルに表示するテスト結果
+export function formatTestResults(results: TestCaseResult[]): string {
+    const marks: { [outcome in TestOutcome]: string } = { passed: '✓', failed: '✗', error: '!', skipped: '-' };
+    const lines = results.map(result => {
+        let line = `${marks[result.outcome]} ${result.id} (${result.duration}ms)`;
+        if (result.message && result.outcome !== 'passed') {
+            line += `\n    ${result.message.split('\n').join('\n    ')}`;
+        }
+        return line;
+    });
+
+    const summary = summarizeTests(results);
+    lines.push('');
+    lines.push(`合計 ${summary.total} 件: 成功 ${summary.passed}、失敗 ${summary.failed}、エラー ${summary.errors}、スキップ ${summary.skipped}`);
+    return lines.join('\n');
+}
@@ -0,0 +1,109 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { JournalEvent } from './journal';
+
+// 以前の形式のログ（整形済みJSONにセッション全体を書き込んでいたもの）
+// {studentId, sessionId, fileName, editLog, errorLog, executionLog}
+export interface LegacyLogFiles {
+    name: string;
+    parts: string[];
+}
+
+// 読み込めなかったパートやエントリ
+export interface LegacySkippedEntry {
+    file: string;
+    // ログ内の位置（例: editLog[3]）。パートごと読み込めない場合は省略
+    location?: string;
+    reason: string;
+}
+
+// 以前の形式のログを読み込んだ結果
+export interface LegacyLog {
+    header: JournalEvent;
+    events: JournalEvent[];
+    skipped: LegacySkippedEntry[];
+}
+
+// フォルダ内の以前の形式のログを一覧する（パートは番号順に並べる）
+export function listLegacyLogs(folderPath: string): LegacyLogFiles[] {
+    if (!fs.existsSync(folderPath)) {
+        return [];
+    }
+
+    const logs = new Map<string, { part: number; file: string }[]>();
+    for (const file of fs.readdirSync(folderPath)) {
+        const match = /^(.*)_part(\d+)\.json$/.exec(file);
+        if (!match) {
+            continue;
+        }
+        const parts = logs.get(match[1]) || [];
+        parts.push({ part: Number(match[2]), file: path.join(folderPath, file) });
+        logs.set(match[1], parts);
+    }
+
+    return Array.from(logs.entries())
+        .map(([name, parts]) => ({
+            name: name,
+            parts: parts.sort((a, b) => a.part - b.part).map(part => part.file)
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// 以前の形式のログをイベント列として読み込む
+// 各パートにはその時点までのログがまとめて書かれているため、重複するエントリは1つにする
+export function readLegacyLog(parts: string[]): LegacyLog | undefined {
+    const seen = new Set<string>();
+    const events: JournalEvent[] = [];
+    const skipped: LegacySkippedEntry[] = [];
+    let header: JournalEvent | undefined;
+
+    const add = (type: string, entry: any, file: string, location: string) => {
+        if (!entry || typeof entry !== 'object' || typeof entry.timestamp !== 'string') {
+            skipped.push({ file, location, reason: 'timestamp がありません' });
+            return;
+        }
+        const event = { type: type, ...entry };
+        const key = JSON.stringify(event);
+        if (!seen.has(key)) {
+            seen.add(key);
+            events.push(event);
+        }
+    };
+
+    for (const part of parts) {
+        let data: any;
+        try {
+            data = JSON.parse(fs.readFileSync(part, 'utf8'));
+        } catch {
+            // 書き込み途中で壊れたパートは読み飛ばす
+            skipped.push({ file: part, reason: 'JSONとして読み込めません' });
+            continue;
+        }
+        if (!data || typeof data !== 'object' || typeof data.sessionId !== 'string') {
+            skipped.push({ file: part, reason: 'sessionId がありません' });
+            continue;
+        }
+
+        if (!header) {
+            header = {
+                type: 'session',
+                timestamp: '',
+                studentId: data.studentId,
+                sessionId: data.sessionId,
+                fileName: data.fileName || ''
+            };
+        }
+        (data.editLog || []).forEach((entry: any, index: number) =>
+            add(entry && entry.key !== undefined ? 'key' : 'edit', entry, part, `editLog[${index}]`));
+        (data.errorLog || []).forEach((entry: any, index: number) => add('error', entry, part, `errorLog[${index}]`));
+        (data.executionLog || []).forEach((entry: any, index: number) => add('execution', entry, part, `executionLog[${index}]`));
+    }
+
+    if (!header) {
+        return undefined;
+    }
+
+    events.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    header.timestamp = events.length > 0 ? events[0].timestamp : new Date(0).toISOString();
+    return { header, events, skipped };
+}
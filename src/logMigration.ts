@@ -0,0 +1,387 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { findLogFolders } from './classReport';
+import { ChainHead, GENESIS_HASH, chainEvent, chainFileOf, keyIdOf, readChainHead, signHead, writeChainHead } from './hashChain';
+import { verifyJournal } from './integrity';
+import { JournalEvent, listJournals } from './journal';
+import { listLegacyLogs, readLegacyLog } from './legacyLog';
+import { LOG_SCHEMA_VERSION, schemaVersionOf, validateEvent } from './logSchema';
+import { listManifests } from './manifest';
+import { snapshotFolder } from './snapshotStore';
+
+// 検証・移行の方法
+// validate: 検証して報告するだけ
+// in_place: 元のフォルダのログを置き換える（元のファイルはバックアップのフォルダに移す）
+// copy: 移行したログを別のフォルダに書き出す（最新の形式のログやマニフェストもそのまま写す）
+export type MigrationMode = 'validate' | 'in_place' | 'copy';
+
+export interface MigrationOptions {
+    mode: MigrationMode;
+    // copy: 書き出し先（検証したフォルダの構成をこの下に再現する）
+    outRoot?: string;
+    // ハッシュ連鎖の署名の確認と、移行したログの署名に使う講義の鍵
+    signingKey?: string;
+}
+
+// 移行できなかった・スキーマに合わないエントリ
+export interface MigrationIssue {
+    file: string;
+    // 行番号（JSONL）またはログ内の位置（以前の形式の editLog[3] など）
+    location?: string;
+    message: string;
+}
+
+// ログの状態
+// current: 最新の形式 / outdated: 移行が必要（validate のとき） / migrated: 移行した / skipped: 移行しなかった（理由は issues）
+export type LogStatus = 'current' | 'outdated' | 'migrated' | 'skipped';
+
+// ログ1つ分（パートファイルのまとまり）の結果
+export interface LogMigration {
+    name: string;
+    parts: string[];
+    fromVersion: number;
+    status: LogStatus;
+    eventCount: number;
+    // 書き込んだパートファイル
+    written: string[];
+    issues: MigrationIssue[];
+}
+
+// ログフォルダの結果
+export interface FolderMigration {
+    folder: string;
+    // ログを書き込むフォルダ（validate / in_place では元のフォルダ）
+    target: string;
+    // in_place: 元のファイルを移したフォルダ（移したものがなければ省略）
+    backupFolder?: string;
+    logs: LogMigration[];
+}
+
+// in_place で元のファイルを移すフォルダ（ログを探すときは降りない）
+export const MIGRATION_BACKUP_FOLDER = 'migration-backup';
+
+// バージョン1のイベントのうち type のないものを、含まれるキーから判別する
+function inferType(event: { [key: string]: any }): string | undefined {
+    if (event.customType !== undefined) {
+        return 'custom';
+    }
+    if (event.studentId !== undefined && event.sessionId !== undefined) {
+        return 'session';
+    }
+    if (event.key !== undefined) {
+        return 'key';
+    }
+    if (event.message !== undefined && event.stack !== undefined) {
+        return 'error';
+    }
+    if (event.event !== undefined && (event.file !== undefined || event.language !== undefined)) {
+        return 'execution';
+    }
+    if (event.range !== undefined || event.text !== undefined || event.operation !== undefined) {
+        return 'edit';
+    }
+    return undefined;
+}
+
+// バージョン1のイベントを最新の形式にする（移行できなければ理由を返す）
+// ハッシュ連鎖は書き込むときにつなぎ直す
+function upgradeEvent(entry: any): JournalEvent | string {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+        return 'オブジェクトではありません';
+    }
+
+    const { prevHash, hash, ...rest } = entry;
+    const type = typeof rest.type === 'string' ? rest.type : inferType(rest);
+    if (!type) {
+        return 'イベントの種類を判別できません';
+    }
+
+    const event: JournalEvent = { ...rest, type: type };
+    if (type === 'session') {
+        event.schemaVersion = LOG_SCHEMA_VERSION;
+    }
+    const errors = validateEvent(event);
+    return errors.length > 0 ? `スキーマに合いません: ${errors.join('; ')}` : event;
+}
+
+// JSONL のパートファイルの行（読み込めない行は event を省略）
+interface JournalLine {
+    file: string;
+    line: number;
+    event?: any;
+}
+
+function readLines(part: string): JournalLine[] {
+    const lines: JournalLine[] = [];
+    fs.readFileSync(part, 'utf8').split('\n').forEach((text, index) => {
+        if (!text.trim()) {
+            return;
+        }
+        try {
+            lines.push({ file: part, line: index + 1, event: JSON.parse(text) });
+        } catch {
+            lines.push({ file: part, line: index + 1 });
+        }
+    });
+    return lines;
+}
+
+// パートごとのイベントをジャーナルとして書き込み、書き込んだファイルを返す
+// chained ならハッシュ連鎖でつなぎ、サイドカーファイルを（鍵があれば署名して）書き出す
+function writeJournalParts(folder: string, name: string, parts: JournalEvent[][], chained: boolean, signingKey?: string): string[] {
+    fs.mkdirSync(folder, { recursive: true });
+
+    let head = GENESIS_HASH;
+    let count = 0;
+    const files = parts.map((events, index) => {
+        const file = path.join(folder, `${name}_part${index + 1}.jsonl`);
+        const lines = events.map(event => {
+            if (!chained) {
+                return JSON.stringify(event);
+            }
+            const linked = chainEvent(head, event);
+            head = linked.hash;
+            count++;
+            return JSON.stringify(linked);
+        });
+        fs.writeFileSync(file, lines.map(line => line + '\n').join(''), 'utf8');
+        return file;
+    });
+
+    if (chained) {
+        const chainHead: ChainHead = {
+            version: 1,
+            algorithm: 'sha256',
+            head: head,
+            count: count,
+            parts: files.map(file => path.basename(file)),
+            updatedAt: new Date().toISOString()
+        };
+        if (signingKey) {
+            chainHead.signature = { algorithm: 'hmac-sha256', keyId: keyIdOf(signingKey), value: signHead(chainHead, signingKey) };
+        }
+        writeChainHead(chainFileOf(name, folder), chainHead);
+    }
+    return files;
+}
+
+// ファイルをフォルダに写す（写したファイルを返す）
+function copyFiles(files: string[], folder: string): string[] {
+    fs.mkdirSync(folder, { recursive: true });
+    return files.map(file => {
+        const copied = path.join(folder, path.basename(file));
+        fs.copyFileSync(file, copied);
+        return copied;
+    });
+}
+
+// ファイルをバックアップのフォルダに移す
+function moveFiles(files: string[], folder: string): void {
+    fs.mkdirSync(folder, { recursive: true });
+    files.forEach(file => fs.renameSync(file, path.join(folder, path.basename(file))));
+}
+
+// ログを書き込む先と、元のファイルの扱い
+interface MigrationTarget {
+    mode: MigrationMode;
+    folder: string;
+    backupFolder: string;
+    signingKey?: string;
+}
+
+// JSONL のジャーナルを検証し、古い形式であれば移行する
+function migrateJournal(name: string, parts: string[], target: MigrationTarget): LogMigration {
+    const result: LogMigration = { name, parts, fromVersion: 1, status: 'current', eventCount: 0, written: [], issues: [] };
+    const folder = path.dirname(parts[0]);
+    const chainFile = chainFileOf(name, folder);
+    const lines = parts.map(part => readLines(part));
+    const readable = ([] as JournalLine[]).concat(...lines).filter(line => line.event !== undefined);
+
+    result.fromVersion = schemaVersionOf(readable.map(line => line.event));
+    ([] as JournalLine[]).concat(...lines)
+        .filter(line => line.event === undefined)
+        .forEach(line => result.issues.push({ file: line.file, location: `${line.line}`, message: 'JSONとして読み込めない行です' }));
+
+    if (result.fromVersion > LOG_SCHEMA_VERSION) {
+        result.status = 'skipped';
+        result.issues.push({ file: parts[0], message: `この拡張機能より新しい形式です (schemaVersion ${result.fromVersion})` });
+        return result;
+    }
+
+    if (result.fromVersion === LOG_SCHEMA_VERSION) {
+        result.eventCount = readable.length;
+        readable.forEach(line => {
+            const errors = validateEvent(line.event);
+            if (errors.length > 0) {
+                result.issues.push({ file: line.file, location: `${line.line}`, message: `スキーマに合いません: ${errors.join('; ')}` });
+            }
+        });
+        if (target.mode === 'copy') {
+            result.written = copyFiles(fs.existsSync(chainFile) ? parts.concat(chainFile) : parts, target.folder);
+        }
+        return result;
+    }
+
+    // パートの区切りはそのままにして（マニフェストのログファイルの記載を変えない）、各イベントを移行する
+    const upgraded = lines.map(partLines => partLines
+        .filter(line => line.event !== undefined)
+        .map(line => {
+            const event = upgradeEvent(line.event);
+            if (typeof event === 'string') {
+                result.issues.push({ file: line.file, location: `${line.line}`, message: event });
+                return undefined;
+            }
+            return event;
+        })
+        .filter((event): event is JournalEvent => event !== undefined));
+    result.eventCount = upgraded.reduce((count, events) => count + events.length, 0);
+
+    if (!upgraded.some(events => events.some(event => event.type === 'session'))) {
+        result.status = 'skipped';
+        result.issues.push({ file: parts[0], message: 'session イベントがないため、生徒とセッションが分かりません' });
+        return result;
+    }
+    if (target.mode === 'validate') {
+        result.status = 'outdated';
+        return result;
+    }
+
+    // 連鎖でつながれたログは、改ざんされていないことを確かめてからつなぎ直す
+    const chainHead = readChainHead(chainFile);
+    if (chainHead) {
+        if (chainHead.signature && !target.signingKey) {
+            result.status = 'skipped';
+            result.issues.push({ file: chainFile, message: '署名されたログです。移行するには講義の鍵（Logger.courseSigningKey）を設定してください' });
+            return result;
+        }
+        const errors = verifyJournal(name, parts, target.signingKey).issues.filter(issue => issue.severity === 'error');
+        if (errors.length > 0) {
+            result.status = 'skipped';
+            errors.forEach(issue => result.issues.push({
+                file: issue.file,
+                location: issue.line !== undefined ? `${issue.line}` : undefined,
+                message: `ハッシュ連鎖を確認できないため移行しません: ${issue.message}`
+            }));
+            return result;
+        }
+    }
+
+    if (target.mode === 'in_place') {
+        moveFiles(chainHead ? parts.concat(chainFile) : parts, target.backupFolder);
+    }
+    result.written = writeJournalParts(target.folder, name, upgraded, chainHead !== undefined, target.signingKey);
+    result.status = 'migrated';
+    return result;
+}
+
+// 以前の形式（整形済みJSON）のログを JSONL のジャーナルに移行する
+// 各パートにはその時点までのログがまとめて書かれているため、重複を除いて1つのパートにする
+function migrateLegacyLog(name: string, parts: string[], target: MigrationTarget): LogMigration {
+    const result: LogMigration = { name, parts, fromVersion: 1, status: 'outdated', eventCount: 0, written: [], issues: [] };
+    const log = readLegacyLog(parts);
+    if (!log) {
+        result.status = 'skipped';
+        result.issues.push({ file: parts[0], message: '読み込めるパートがありません' });
+        return result;
+    }
+    log.skipped.forEach(entry => result.issues.push({ file: entry.file, location: entry.location, message: entry.reason }));
+
+    const events: JournalEvent[] = [];
+    for (const entry of [{ ...log.header, migratedFrom: 'legacy_json', part: 1 }, ...log.events]) {
+        const event = upgradeEvent(entry);
+        if (typeof event === 'string') {
+            result.issues.push({ file: parts[0], location: `${entry.type} ${entry.timestamp}`, message: event });
+        } else {
+            events.push(event);
+        }
+    }
+    result.eventCount = events.length;
+
+    if (events.length === 0 || events[0].type !== 'session') {
+        result.status = 'skipped';
+        result.issues.push({ file: parts[0], message: 'session イベントを作れないため移行できません' });
+        return result;
+    }
+    if (target.mode === 'validate') {
+        return result;
+    }
+    if (fs.existsSync(path.join(target.folder, `${name}_part1.jsonl`))) {
+        result.status = 'skipped';
+        result.issues.push({ file: path.join(target.folder, `${name}_part1.jsonl`), message: '同じ名前のログが既にあります' });
+        return result;
+    }
+
+    if (target.mode === 'in_place') {
+        moveFiles(parts, target.backupFolder);
+    }
+    // 以前の形式のログには連鎖がないため、移行した時点の内容で連鎖を始める
+    result.written = writeJournalParts(target.folder, name, [events], true, target.signingKey);
+    result.status = 'migrated';
+    return result;
+}
+
+// ログフォルダのログを検証・移行する
+export function migrateFolder(folder: string, target: string, options: MigrationOptions): FolderMigration {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const migrationTarget: MigrationTarget = {
+        mode: options.mode,
+        folder: options.mode === 'copy' ? target : folder,
+        backupFolder: path.join(folder, MIGRATION_BACKUP_FOLDER, stamp),
+        signingKey: options.signingKey
+    };
+
+    const logs = listJournals(folder).map(journal => migrateJournal(journal.name, journal.parts, migrationTarget))
+        .concat(listLegacyLogs(folder).map(legacy => migrateLegacyLog(legacy.name, legacy.parts, migrationTarget)));
+
+    // 別のフォルダに書き出す場合は、マニフェストとスナップショットも写す
+    if (options.mode === 'copy') {
+        copyFiles(listManifests(folder), migrationTarget.folder);
+        const snapshots = snapshotFolder(folder);
+        if (fs.existsSync(snapshots)) {
+            copyFiles(fs.readdirSync(snapshots).map(file => path.join(snapshots, file)), snapshotFolder(migrationTarget.folder));
+        }
+    }
+
+    return {
+        folder: folder,
+        target: migrationTarget.folder,
+        backupFolder: fs.existsSync(migrationTarget.backupFolder) ? migrationTarget.backupFolder : undefined,
+        logs: logs
+    };
+}
+
+// フォルダ以下のすべてのログフォルダを検証・移行する
+export function migrateLogs(root: string, options: MigrationOptions): FolderMigration[] {
+    if (options.mode === 'copy' && !options.outRoot) {
+        throw new Error('書き出し先のフォルダを指定してください');
+    }
+    return findLogFolders(root).map(folder =>
+        migrateFolder(folder, path.join(options.outRoot || root, path.relative(root, folder)), options));
+}
+
+const STATUS_LABELS: { [status in LogStatus]: string } = {
+    current: '最新',
+    outdated: '要移行',
+    migrated: '移行済み',
+    skipped: '未移行'
+};
+
+// 結果をテキストのレポートにする
+export function formatMigrationReport(results: FolderMigration[]): string {
+    const lines: string[] = [];
+    for (const result of results) {
+        lines.push(result.target === result.folder ? `# ${result.folder}` : `# ${result.folder} -> ${result.target}`);
+        for (const log of result.logs) {
+            const version = log.status === 'migrated'
+                ? `schemaVersion ${log.fromVersion} -> ${LOG_SCHEMA_VERSION}`
+                : `schemaVersion ${log.fromVersion}`;
+            lines.push(`[${STATUS_LABELS[log.status]}] ${log.name} (${log.parts.length} part(s), ${log.eventCount} 件, ${version})`);
+            log.issues.forEach(issue => lines.push(`    ${issue.location ? `${issue.file}:${issue.location}` : issue.file} - ${issue.message}`));
+        }
+        if (result.backupFolder) {
+            lines.push(`元のファイル: ${result.backupFolder}`);
+        }
+        lines.push('');
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,25 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { listJournals } from './journal';
+
+// ログフォルダからジャーナルを選択させる
+export async function pickJournal(logFolders: string[]): Promise<string[] | undefined> {
+    const items = logFolders
+        .flatMap(folder => listJournals(folder))
+        .map(journal => ({
+            label: journal.name,
+            description: `${journal.parts.length} part(s)`,
+            detail: path.dirname(journal.parts[0]),
+            parts: journal.parts
+        }));
+
+    if (items.length === 0) {
+        vscode.window.showInformationMessage('ログファイルが見つかりません。');
+        return undefined;
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: 'ログファイルを選択してください'
+    });
+    return selected?.parts;
+}
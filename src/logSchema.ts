@@ -0,0 +1,39 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { JournalEvent } from './journal';
+import { JsonSchema, validateJson } from './jsonSchema';
+
+// ログの形式のバージョン（イベントの形を変えたら上げ、logMigration.ts に移行を追加する）
+// 1: バージョンのない形式（整形済みJSONの *_partN.json と、schemaVersion のない JSONL）
+// 2: 各パートの先頭の session イベントに schemaVersion を書き、すべてのイベントを type で判別する形式
+export const LOG_SCHEMA_VERSION = 2;
+
+// 公開しているイベントのスキーマ（拡張機能のフォルダの schemas/ 以下）
+export const LOG_SCHEMA_FILE = path.join(__dirname, '..', 'schemas', 'log-event.schema.json');
+
+let logSchema: JsonSchema | undefined;
+
+// イベントのスキーマを読み込む
+export function loadLogSchema(): JsonSchema {
+    if (!logSchema) {
+        logSchema = JSON.parse(fs.readFileSync(LOG_SCHEMA_FILE, 'utf8')) as JsonSchema;
+    }
+    return logSchema;
+}
+
+// ジャーナルの形式のバージョン（先頭の session イベントから判断し、なければ1）
+export function schemaVersionOf(events: JournalEvent[]): number {
+    const header = events.find(event => event.type === 'session');
+    return header && typeof header.schemaVersion === 'number' ? header.schemaVersion : 1;
+}
+
+// イベントを type に対応する定義で検証し、問題の一覧を返す（空なら正しい）
+export function validateEvent(event: any): string[] {
+    const schema = loadLogSchema();
+    const type = event && typeof event === 'object' ? event.type : undefined;
+    const definition = typeof type === 'string' && schema.definitions ? schema.definitions[type] : undefined;
+    if (!definition || definition.properties?.type?.const !== type) {
+        return [`$.type: 不明なイベントの種類です (${JSON.stringify(type)})`];
+    }
+    return validateJson(event, definition, schema);
+}
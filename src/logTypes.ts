@@ -0,0 +1,130 @@
+import { EditSource } from './changeClassifier';
+import { ParsedTraceback } from './traceback';
+import { RunPhase } from './runTerminal';
+import { TestCaseResult, TestSummary } from './junit';
+import { TerminalCommandKind } from './commandLine';
+
+// ログのエントリの型（拡張機能と、VS Code の外で動くツールで共有する）
+
+// 学生のログを保存するためのインターフェース
+export interface LogEntry {
+    timestamp: string;
+    documentUri: string;
+    // ノートブックのセルのエントリでは、セルのIDと位置（documentUri はノートブック）
+    cellId?: string;
+    cellIndex?: number;
+}
+
+// 編集ログのインターフェース
+export interface EditLogEntry extends LogEntry {
+    range?: {
+        start: { line: number; character: number };
+        end: { line: number; character: number };
+    };
+    text?: string;
+    operation?: string;
+    lineContent?: string;
+    key?: string;
+    position?: { line: number; character: number };
+    version?: number;
+    // 変更の発生元（貼り付け、補完、フォーマッタなど）
+    source?: EditSource;
+    clipboardMatch?: boolean;
+    // 大量のテキストが一度に挿入された場合はtrue
+    largeInsert?: boolean;
+}
+
+// エラーログのインターフェース
+export interface ErrorLogEntry extends LogEntry {
+    message: string;
+    stack: string | null;
+    code?: string;
+    event?: string;
+    language?: string;
+    // エディタの診断情報（event が diagnostic_appeared / diagnostic_resolved の場合）
+    diagnosticId?: string;
+    severity?: string;
+    source?: string;
+    diagnosticCode?: string;
+    range?: EditLogEntry['range'];
+    duration?: number;
+    // Pythonの実行エラーを解析した結果
+    exceptionType?: string;
+    exceptionMessage?: string;
+    traceback?: ParsedTraceback;
+    phase?: RunPhase;
+    // 失敗した行（1始まり）と、その行を最後に編集したときの記録
+    failingLine?: number;
+    lastEditOfLine?: LineEdit;
+}
+
+// 行ごとの最後の編集
+export interface LineEdit {
+    timestamp: string;
+    version?: number;
+}
+
+// キー入力ログのインターフェース
+export interface KeyLogEntry extends LogEntry {
+    key: string;
+    position: { line: number; character: number };
+    lineContent: string;
+    range?: EditLogEntry['range'];
+    text?: string;
+    version?: number;
+}
+
+// 実行ログのインターフェース
+export interface ExecutionLogEntry extends LogEntry {
+    event: string;
+    file: string;
+    language: string;
+    output?: string;
+    error?: string;
+    exitCode?: number;
+    duration?: number;
+    // 失敗した段階（コンパイル / 実行）
+    phase?: RunPhase;
+    // 実行したソースのスナップショット（event が execution_start の場合）
+    snapshotId?: string;
+    // 実行中に標準入力へ送られた1行（event が execution_input の場合）
+    input?: string;
+    // 超過した上限値（event が execution_timeout / output_truncated の場合）
+    limit?: number;
+    // デバッガのセッション（event が debug_start / debug_end / debug_stopped の場合）
+    debugSessionId?: string;
+    debugType?: string;
+    // 停止の理由（breakpoint、exception、step など）と、デバッガによる説明
+    reason?: string;
+    description?: string;
+    // 停止した位置・ブレークポイントの行（1始まり）
+    line?: number;
+    stoppedFile?: string;
+    // 例外で停止した場合の例外
+    exceptionType?: string;
+    exceptionMessage?: string;
+    // ブレークポイントの条件と有効・無効（event が breakpoint_added / breakpoint_removed の場合）
+    condition?: string;
+    enabled?: boolean;
+    // テストの実行（event が test_run の場合）: 対象の範囲、実行したコマンド、テストごとの結果
+    scope?: 'file' | 'workspace';
+    command?: string;
+    testSummary?: TestSummary;
+    tests?: TestCaseResult[];
+    // 統合ターミナルで実行されたコマンド（event が terminal_command の場合）
+    commandLine?: string;
+    commandKind?: TerminalCommandKind;
+    confidence?: string;
+    cwd?: string;
+    terminalName?: string;
+    outputTruncated?: boolean;
+    // ノートブックのセルの実行（event が cell_execution の場合）
+    executionOrder?: number;
+    success?: boolean;
+}
+
+// ジャーナルに書き込まれた形（エントリに type を付けたもの）
+export type EditEvent = EditLogEntry & { type: 'edit' };
+export type KeyEvent = KeyLogEntry & { type: 'key' };
+export type ErrorEvent = ErrorLogEntry & { type: 'error' };
+export type ExecutionEvent = ExecutionLogEntry & { type: 'execution' };
@@ -0,0 +1,64 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// セッション内で扱ったドキュメントの情報
+export interface ManifestDocument {
+    uri: string;
+    fileName: string;
+    // マニフェストのあるフォルダからの相対パス
+    logFiles: string[];
+    firstSeen: string;
+    lastSeen: string;
+    eventCount: number;
+    // ドキュメントが属する課題
+    assignmentId?: string;
+}
+
+// セッションマニフェスト
+export interface SessionManifest {
+    studentId: string;
+    sessionId: string;
+    startedAt: string;
+    updatedAt: string;
+    documents: ManifestDocument[];
+    // セッション全体の操作イベント（フォーカス・休止など）のログファイル
+    activityLogFiles?: string[];
+}
+
+// マニフェストのファイル名
+export function manifestFileName(studentId: string, sessionId: string): string {
+    return `${studentId}_${sessionId}_manifest.json`;
+}
+
+// マニフェストを書き込む（書き込み途中で壊れないよう、一時ファイルに書いてから置き換える）
+export function writeManifest(filePath: string, manifest: SessionManifest): void {
+    const tempFile = `${filePath}.tmp`;
+    fs.writeFileSync(tempFile, JSON.stringify(manifest, null, 2), 'utf8');
+    fs.renameSync(tempFile, filePath);
+}
+
+// マニフェストを読み込む
+export function readManifest(filePath: string): SessionManifest {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+}
+
+// フォルダ内のマニフェストを一覧する
+export function listManifests(folderPath: string): string[] {
+    if (!fs.existsSync(folderPath)) {
+        return [];
+    }
+    return fs.readdirSync(folderPath)
+        .filter(file => file.endsWith('_manifest.json'))
+        .sort()
+        .map(file => path.join(folderPath, file));
+}
+
+// マニフェストに記載されたドキュメントのログファイルの絶対パス
+export function resolveLogFiles(manifestFile: string, document: ManifestDocument): string[] {
+    return document.logFiles.map(file => path.resolve(path.dirname(manifestFile), file));
+}
+
+// マニフェストに記載された操作イベントのログファイルの絶対パス
+export function resolveActivityLogFiles(manifestFile: string, manifest: SessionManifest): string[] {
+    return (manifest.activityLogFiles || []).map(file => path.resolve(path.dirname(manifestFile), file));
+}
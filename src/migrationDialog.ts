@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+import { FolderMigration, MIGRATION_BACKUP_FOLDER, MigrationMode, formatMigrationReport, migrateLogs } from './logMigration';
+
+// 検証・移行の方法の選択肢
+const MODES: { label: string; description: string; mode: MigrationMode }[] = [
+    { label: '検証のみ', description: 'スキーマに合わないエントリと、移行が必要なログを報告する', mode: 'validate' },
+    { label: 'その場で移行', description: `元のファイルは ${MIGRATION_BACKUP_FOLDER} フォルダに移す`, mode: 'in_place' },
+    { label: '別のフォルダに移行', description: '元のファイルは変更しない', mode: 'copy' }
+];
+
+// フォルダを選択させる（キャンセルされたら undefined）
+async function pickFolder(openLabel: string): Promise<string | undefined> {
+    const selected = await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        openLabel: openLabel
+    });
+    return selected && selected.length > 0 ? selected[0].fsPath : undefined;
+}
+
+// 検証するフォルダを選択させる（このワークスペースのログフォルダか、任意のフォルダ）
+async function pickRoot(logFolders: string[]): Promise<string | undefined> {
+    const items: (vscode.QuickPickItem & { folder?: string })[] = [
+        ...logFolders.map(folder => ({ label: folder, folder: folder })),
+        { label: 'フォルダを選択...', description: '以下のすべてのログフォルダを対象にする' }
+    ];
+    const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: '検証・移行するログのフォルダを選択してください'
+    });
+    if (!selected) {
+        return undefined;
+    }
+    return selected.folder || pickFolder('このフォルダのログを検証');
+}
+
+// ログを検証・移行し、結果を出力パネルに表示する
+export async function validateAndMigrateLogs(logFolders: string[], signingKey: string | undefined, output: vscode.OutputChannel): Promise<void> {
+    const root = await pickRoot(logFolders);
+    if (!root) {
+        return;
+    }
+
+    const selected = await vscode.window.showQuickPick(MODES, {
+        placeHolder: '古い形式のログの扱いを選択してください'
+    });
+    if (!selected) {
+        return;
+    }
+
+    let outRoot: string | undefined;
+    if (selected.mode === 'copy') {
+        outRoot = await pickFolder('ここに書き出す');
+        if (!outRoot) {
+            return;
+        }
+    }
+
+    let results: FolderMigration[];
+    try {
+        results = migrateLogs(root, { mode: selected.mode, outRoot: outRoot, signingKey: signingKey });
+    } catch (error) {
+        vscode.window.showErrorMessage(`ログの移行に失敗しました: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+    }
+    if (results.length === 0) {
+        vscode.window.showInformationMessage('ログが見つかりませんでした。');
+        return;
+    }
+
+    output.clear();
+    output.append(formatMigrationReport(results));
+    output.show(true);
+
+    const logs = results.flatMap(result => result.logs);
+    const count = (status: string) => logs.filter(log => log.status === status).length;
+    const issues = logs.reduce((total, log) => total + log.issues.length, 0);
+    const summary = selected.mode === 'validate'
+        ? `${logs.length} 件のログのうち、${count('outdated')} 件は移行が必要です。`
+        : `${count('migrated')} 件のログを移行しました（未移行 ${count('skipped')} 件）。`;
+    if (issues > 0 || count('skipped') > 0) {
+        vscode.window.showWarningMessage(`${summary}移行できない・スキーマに合わないエントリが ${issues} 件あります。詳細は出力パネルを確認してください。`);
+    } else {
+        vscode.window.showInformationMessage(summary);
+    }
+}
@@ -0,0 +1,164 @@
+import * as vscode from 'vscode';
+import { stripAnsi } from './terminalTracker';
+
+// ノートブックのセルのドキュメントのURIスキーム
+export const NOTEBOOK_CELL_SCHEME = 'vscode-notebook-cell';
+
+// セルの出力のうち、エラーを表すMIMEタイプ
+const ERROR_MIME = 'application/vnd.code.notebook.error';
+// セルの出力のうち、テキストとして記録するMIMEタイプ
+const TEXT_MIMES = ['application/vnd.code.notebook.stdout', 'application/vnd.code.notebook.stderr', 'text/plain'];
+
+// 記録するセルの構造の変更
+export type CellStructureEvent = 'cell_added' | 'cell_deleted' | 'cell_moved';
+
+// セルの構造の変更の通知
+export interface CellStructureChange {
+    event: CellStructureEvent;
+    notebook: vscode.NotebookDocument;
+    cell: vscode.NotebookCell;
+    // 削除・移動前の位置
+    fromIndex?: number;
+}
+
+// セルの実行で発生したエラー
+export interface CellError {
+    name: string;
+    message: string;
+    stack?: string;
+}
+
+// セルの実行の通知
+export interface CellExecution {
+    notebook: vscode.NotebookDocument;
+    cell: vscode.NotebookCell;
+    executionOrder?: number;
+    success?: boolean;
+    duration?: number;
+    output: string;
+    errors: CellError[];
+}
+
+// セルのドキュメントのURIから、ノートブックのセルを探す
+export function cellOf(uri: vscode.Uri): vscode.NotebookCell | undefined {
+    if (uri.scheme !== NOTEBOOK_CELL_SCHEME) {
+        return undefined;
+    }
+    const key = uri.toString();
+    for (const notebook of vscode.workspace.notebookDocuments) {
+        const cell = notebook.getCells().find(candidate => candidate.document.uri.toString() === key);
+        if (cell) {
+            return cell;
+        }
+    }
+    return undefined;
+}
+
+// セルのID（nbformat 4.5 のセルIDがなければ、セッション中は変わらないセルのURIのフラグメント）
+export function cellIdOf(cell: vscode.NotebookCell): string {
+    const metadata = cell.metadata || {};
+    const id = metadata.id || metadata.custom?.id;
+    return typeof id === 'string' && id ? id : cell.document.uri.fragment;
+}
+
+// セルの出力のテキストとエラー
+export function cellOutputsOf(cell: vscode.NotebookCell): { output: string; errors: CellError[] } {
+    const texts: string[] = [];
+    const errors: CellError[] = [];
+
+    for (const output of cell.outputs) {
+        for (const item of output.items) {
+            const text = Buffer.from(item.data).toString('utf8');
+            if (item.mime === ERROR_MIME) {
+                try {
+                    const error = JSON.parse(text);
+                    errors.push({
+                        name: error.name || 'Error',
+                        message: error.message || '',
+                        stack: typeof error.stack === 'string' ? stripAnsi(error.stack) : undefined
+                    });
+                } catch {
+                    errors.push({ name: 'Error', message: text });
+                }
+            } else if (TEXT_MIMES.includes(item.mime)) {
+                texts.push(stripAnsi(text));
+            }
+        }
+    }
+    return { output: texts.join(''), errors };
+}
+
+// ノートブックのセルの追加・削除・移動と、セルの実行を追跡する
+export class NotebookTracker implements vscode.Disposable {
+    private disposables: vscode.Disposable[];
+    // セルごとに最後に記録した実行（同じ実行の通知が何度か届くため）
+    private lastExecutions: WeakMap<vscode.NotebookCell, string>;
+
+    constructor(
+        private onStructure: (change: CellStructureChange) => void,
+        private onExecution: (execution: CellExecution) => void
+    ) {
+        this.lastExecutions = new WeakMap();
+        this.disposables = [
+            vscode.workspace.onDidChangeNotebookDocument(e => this.onChange(e))
+        ];
+    }
+
+    private onChange(e: vscode.NotebookDocumentChangeEvent): void {
+        this.handleContentChanges(e.notebook, e.contentChanges);
+
+        for (const change of e.cellChanges) {
+            const summary = change.executionSummary || change.cell.executionSummary;
+            if (change.executionSummary === undefined && change.outputs === undefined) {
+                continue;
+            }
+            // 終了時刻が入った時点で実行が終わったとみなす
+            if (!summary || !summary.timing || summary.success === undefined) {
+                continue;
+            }
+
+            const key = `${summary.executionOrder}:${summary.timing.endTime}`;
+            if (this.lastExecutions.get(change.cell) === key) {
+                continue;
+            }
+            this.lastExecutions.set(change.cell, key);
+
+            const { output, errors } = cellOutputsOf(change.cell);
+            this.onExecution({
+                notebook: e.notebook,
+                cell: change.cell,
+                executionOrder: summary.executionOrder,
+                success: summary.success,
+                duration: summary.timing.endTime - summary.timing.startTime,
+                output: output,
+                errors: errors
+            });
+        }
+    }
+
+    // セルの追加・削除を記録する（同じ変更の中で削除と追加の両方に現れたセルは移動とする）
+    private handleContentChanges(notebook: vscode.NotebookDocument, changes: readonly vscode.NotebookDocumentContentChange[]): void {
+        const removed = new Map<string, { cell: vscode.NotebookCell; index: number }>();
+        changes.forEach(change => change.removedCells.forEach((cell, offset) => {
+            removed.set(cell.document.uri.toString(), { cell, index: change.range.start + offset });
+        }));
+
+        for (const change of changes) {
+            for (const cell of change.addedCells) {
+                const key = cell.document.uri.toString();
+                const moved = removed.get(key);
+                if (moved) {
+                    removed.delete(key);
+                    this.onStructure({ event: 'cell_moved', notebook, cell, fromIndex: moved.index });
+                } else {
+                    this.onStructure({ event: 'cell_added', notebook, cell });
+                }
+            }
+        }
+        removed.forEach(({ cell, index }) => this.onStructure({ event: 'cell_deleted', notebook, cell, fromIndex: index }));
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
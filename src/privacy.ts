@@ -0,0 +1,53 @@
+import * as vscode from 'vscode';
+
+// 同意の記録を保存する globalState のキー
+export const CONSENT_STATE_KEY = 'logger.consent';
+// 説明の内容を変えたら上げる（同意を取り直す）
+export const CONSENT_VERSION = 1;
+
+// 記録への同意
+export interface ConsentRecord {
+    granted: boolean;
+    version: number;
+    timestamp: string;
+}
+
+// 現在の説明に対して同意済みかどうか
+export function hasConsent(context: vscode.ExtensionContext): boolean {
+    const record = context.globalState.get<ConsentRecord>(CONSENT_STATE_KEY);
+    return record !== undefined && record.granted && record.version === CONSENT_VERSION;
+}
+
+// 現在の説明に対して、同意・拒否のどちらかを既に選んでいるか
+export function hasAnswered(context: vscode.ExtensionContext): boolean {
+    const record = context.globalState.get<ConsentRecord>(CONSENT_STATE_KEY);
+    return record !== undefined && record.version === CONSENT_VERSION;
+}
+
+// 記録の内容を説明して同意を求める（閉じられた場合は何も保存せず、次回もう一度尋ねる）
+export async function requestConsent(context: vscode.ExtensionContext): Promise<boolean> {
+    const agree = '同意する';
+    const decline = '同意しない';
+    const answer = await vscode.window.showInformationMessage(
+        'この拡張機能は学習の分析のため、コードの編集・キー入力・実行結果・エラーを記録します。',
+        {
+            modal: true,
+            detail: '記録は作業フォルダの .logs に保存され、設定によっては講義のサーバーに送信されます。' +
+                'APIキーやパスワードと思われる文字列は伏せ字にして保存します。' +
+                '記録はいつでも「Logger: Pause Logging」で一時停止できます。'
+        },
+        agree,
+        decline
+    );
+    if (answer === undefined) {
+        return false;
+    }
+
+    const record: ConsentRecord = {
+        granted: answer === agree,
+        version: CONSENT_VERSION,
+        timestamp: new Date().toISOString()
+    };
+    await context.globalState.update(CONSENT_STATE_KEY, record);
+    return record.granted;
+}
@@ -0,0 +1,241 @@
+// ログに書き込む前に、APIキーやパスワードなどの秘密情報を伏せ字にする
+
+// 伏せ字の設定
+export interface RedactionOptions {
+    enabled: boolean;
+    // 追加で伏せ字にする正規表現（キャプチャグループがあれば1番目のグループだけを伏せ字にする）
+    // 大文字と小文字を区別しない場合は先頭に (?i) を付ける
+    patterns: string[];
+    // この値以上のエントロピー（1文字あたりのビット数）の文字列を秘密情報とみなす（0で無効）
+    entropyThreshold: number;
+    // エントロピーで判定する文字列の最短の長さ
+    minSecretLength: number;
+}
+
+// パターンの先頭に付けると、大文字と小文字を区別しない
+const IGNORE_CASE_PREFIX = '(?i)';
+
+// よく使われる秘密情報の形式（トークンの形式は大文字と小文字を区別する）
+export const BUILTIN_PATTERNS: string[] = [
+    // 秘密鍵
+    '-----BEGIN [A-Z ]*PRIVATE KEY-----[\\s\\S]*?-----END [A-Z ]*PRIVATE KEY-----',
+    // AWSのアクセスキー
+    '\\b(?:AKIA|ASIA)[0-9A-Z]{16}\\b',
+    // GitHubのトークン
+    '\\bgh[pousr]_[A-Za-z0-9]{36,}\\b',
+    '\\bgithub_pat_[A-Za-z0-9_]{22,}\\b',
+    // Slackのトークン
+    '\\bxox[abprs]-[A-Za-z0-9-]{10,}\\b',
+    // OpenAIなどのAPIキー
+    '\\bsk-[A-Za-z0-9_-]{20,}\\b',
+    // Googleの APIキー
+    '\\bAIza[0-9A-Za-z_-]{35}\\b',
+    // パスワードやトークンを文字列で代入している箇所（値だけを伏せ字にする）
+    '(?i)(?:password|passwd|pwd|secret|api[_-]?key|access[_-]?token|auth[_-]?token|token)\\s*[:=]\\s*[\'"]([^\'"\\n]{4,})[\'"]'
+];
+
+// 伏せ字にするイベントのフィールド（オブジェクトの場合は中の文字列をすべて対象にする）
+export const REDACTED_FIELDS = [
+    'text', 'lineContent', 'code', 'output', 'error', 'input', 'content',
+    'message', 'stack', 'exceptionMessage', 'description', 'traceback', 'tests', 'commandLine', 'payload'
+];
+
+// エントロピーを判定する候補（英数字と、Base64・トークンで使われる記号の並び）
+const TOKEN_PATTERN = /[A-Za-z0-9+/=_-]+/g;
+
+// 文字列のシャノンエントロピー（1文字あたりのビット数）
+export function shannonEntropy(text: string): number {
+    const counts = new Map<string, number>();
+    for (const c of text) {
+        counts.set(c, (counts.get(c) || 0) + 1);
+    }
+    let entropy = 0;
+    counts.forEach(count => {
+        const p = count / text.length;
+        entropy -= p * Math.log2(p);
+    });
+    return entropy;
+}
+
+// パターンを正規表現にする（(?i) で始まるものだけ大文字と小文字を区別しない）
+function compilePattern(source: string): RegExp {
+    return source.startsWith(IGNORE_CASE_PREFIX)
+        ? new RegExp(source.slice(IGNORE_CASE_PREFIX.length), 'gi')
+        : new RegExp(source, 'g');
+}
+
+// 長さを変えずに伏せ字にする（再生時の位置がずれないよう、改行は残す）
+function mask(text: string): string {
+    return text.replace(/[^\r\n]/g, '*');
+}
+
+// 伏せ字にされる範囲（行内の文字の位置、end は含まない）
+export interface MaskedSpan {
+    start: number;
+    end: number;
+}
+
+// キー入力・編集のイベントで、テキストが入力された位置
+function inputPosition(event: { [key: string]: any }): { line: number; character: number } | undefined {
+    const position = event.range ? event.range.start : event.position;
+    return position && typeof position.line === 'number' && typeof position.character === 'number' ? position : undefined;
+}
+
+// ドキュメント（ノートブックではセル）の行を区別するキー
+function lineKey(event: { [key: string]: any }, line: number): string {
+    return `${event.documentUri}#${event.cellId || ''}#${line}`;
+}
+
+// 秘密情報を伏せ字にする
+export class Redactor {
+    private patterns: RegExp[];
+
+    constructor(private options: RedactionOptions) {
+        this.patterns = [];
+        for (const source of BUILTIN_PATTERNS.concat(options.patterns)) {
+            try {
+                this.patterns.push(compilePattern(source));
+            } catch (error) {
+                // 設定の誤りで記録全体を止めない
+                console.error(`Invalid redaction pattern: ${source}`, error);
+            }
+        }
+    }
+
+    // 文字列中の秘密情報を伏せ字にし、伏せ字にした箇所の数を返す
+    public redact(text: string): { text: string; count: number } {
+        if (!this.options.enabled || !text) {
+            return { text, count: 0 };
+        }
+
+        let count = 0;
+        let result = text;
+        for (const pattern of this.patterns) {
+            result = result.replace(pattern, (match: string, group?: any) => {
+                count++;
+                if (typeof group !== 'string') {
+                    return mask(match);
+                }
+                const index = match.lastIndexOf(group);
+                return match.slice(0, index) + mask(group) + match.slice(index + group.length);
+            });
+        }
+
+        if (this.options.entropyThreshold > 0) {
+            result = result.replace(TOKEN_PATTERN, token => {
+                if (this.looksLikeSecret(token)) {
+                    count++;
+                    return mask(token);
+                }
+                return token;
+            });
+        }
+
+        return { text: result, count };
+    }
+
+    // 文字列のうち、伏せ字にされる範囲を返す
+    public maskedSpans(text: string): MaskedSpan[] {
+        const redacted = this.redact(text).text;
+        const spans: MaskedSpan[] = [];
+        let start = -1;
+        for (let i = 0; i <= text.length; i++) {
+            const masked = i < text.length && redacted[i] === '*' && text[i] !== '*';
+            if (masked && start < 0) {
+                start = i;
+            } else if (!masked && start >= 0) {
+                spans.push({ start, end: i });
+                start = -1;
+            }
+        }
+        return spans;
+    }
+
+    // 長く、英字と数字が混ざり、ランダムに近い文字列を秘密情報とみなす
+    private looksLikeSecret(token: string): boolean {
+        return token.length >= this.options.minSecretLength &&
+            /[0-9]/.test(token) &&
+            /[A-Za-z]/.test(token) &&
+            shannonEntropy(token) >= this.options.entropyThreshold;
+    }
+
+    // 値（文字列・配列・オブジェクト）の中の文字列をすべて伏せ字にする
+    private redactValue(value: any, counter: { count: number }): any {
+        if (typeof value === 'string') {
+            const redacted = this.redact(value);
+            counter.count += redacted.count;
+            return redacted.text;
+        }
+        if (Array.isArray(value)) {
+            return value.map(item => this.redactValue(item, counter));
+        }
+        if (value && typeof value === 'object') {
+            const result: { [key: string]: any } = {};
+            Object.keys(value).forEach(key => result[key] = this.redactValue(value[key], counter));
+            return result;
+        }
+        return value;
+    }
+
+    // イベントの対象フィールドを伏せ字にしたコピーを返す（伏せ字にした箇所の数を redactions に記録する）
+    public redactEvent<T extends { [key: string]: any }>(event: T): T {
+        if (!this.options.enabled) {
+            return event;
+        }
+
+        const counter = { count: 0 };
+        const result: { [key: string]: any } = { ...event };
+        for (const field of REDACTED_FIELDS) {
+            if (result[field] !== undefined && result[field] !== null) {
+                result[field] = this.redactValue(result[field], counter);
+            }
+        }
+        if (counter.count > 0) {
+            result.redactions = counter.count;
+        }
+        return result as T;
+    }
+
+    // イベントの列を伏せ字にしたコピーを返す
+    // キー入力・編集のテキストは1文字ずつでは秘密情報の形式に一致しないため、入力した位置がその行
+    // （列の中の同じ行の最後の内容も含める。秘密情報は入力し終えてから形式に一致することが多い）で
+    // 伏せ字にされる範囲に入っていれば、key と text も伏せ字にする
+    public redactEvents<T extends { [key: string]: any }>(events: T[]): T[] {
+        if (!this.options.enabled) {
+            return events;
+        }
+
+        const latest = new Map<string, string>();
+        events.forEach(event => {
+            const position = inputPosition(event);
+            if (position && typeof event.lineContent === 'string') {
+                latest.set(lineKey(event, position.line), event.lineContent);
+            }
+        });
+
+        return events.map(event => {
+            const result: { [key: string]: any } = this.redactEvent(event);
+            const position = inputPosition(event);
+            if (!position || typeof event.lineContent !== 'string') {
+                return result as T;
+            }
+
+            const length = typeof event.text === 'string' ? Math.max(event.text.split('\n')[0].length, 1) : 1;
+            const hidden = [event.lineContent, latest.get(lineKey(event, position.line))].some(line =>
+                line !== undefined && this.maskedSpans(line).some(span =>
+                    position.character < span.end && position.character + length > span.start));
+            if (!hidden) {
+                return result as T;
+            }
+
+            if (typeof result.key === 'string' && result.key.length === 1) {
+                result.key = mask(result.key);
+            }
+            if (typeof result.text === 'string') {
+                result.text = mask(result.text);
+            }
+            result.redactions = (result.redactions || 0) + 1;
+            return result as T;
+        });
+    }
+}
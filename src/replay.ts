@@ -0,0 +1,185 @@
+import * as crypto from 'crypto';
+import { JournalEvent } from './journal';
+
+// 再生の1ステップ（適用前のテキストに対するオフセットで表す）
+export interface ReplayStep {
+    timestamp: string;
+    start: number;
+    end: number;
+    text: string;
+}
+
+// タイムライン上のマーカー（実行やエラー）
+export interface ReplayMarker {
+    timestamp: string;
+    step: number;
+    kind: 'execution' | 'error';
+    label: string;
+    failed: boolean;
+}
+
+// 保存時点の内容と再生結果の照合結果
+export interface ReplaySave {
+    timestamp: string;
+    step: number;
+    matches: boolean;
+}
+
+// 1ファイル分の再生データ
+export interface ReplaySession {
+    fileName: string;
+    initialContent: string;
+    finalContent: string;
+    steps: ReplayStep[];
+    markers: ReplayMarker[];
+    saves: ReplaySave[];
+    // 記録されていない変更がある場合はtrue（再生結果が保存内容と一致しない可能性がある）
+    hasGaps: boolean;
+}
+
+// 行・文字位置をテキスト内のオフセットに変換する
+export function positionToOffset(text: string, line: number, character: number): number {
+    let offset = 0;
+    for (let i = 0; i < line; i++) {
+        const next = text.indexOf('\n', offset);
+        if (next === -1) {
+            return text.length;
+        }
+        offset = next + 1;
+    }
+
+    let lineEnd = text.indexOf('\n', offset);
+    if (lineEnd === -1) {
+        lineEnd = text.length;
+    }
+    if (lineEnd > offset && text[lineEnd - 1] === '\r') {
+        lineEnd--;
+    }
+    return Math.min(offset + character, lineEnd);
+}
+
+// 範囲とテキストを持つイベント（編集・キー入力）かどうか
+function isReplayableEdit(event: JournalEvent): boolean {
+    return (event.type === 'edit' || event.type === 'key') &&
+        event.range !== undefined && typeof event.text === 'string' && typeof event.version === 'number';
+}
+
+// ステップを適用したテキストを返す
+export function applyStep(text: string, step: ReplayStep): string {
+    return text.slice(0, step.start) + step.text + text.slice(step.end);
+}
+
+// 内容のハッシュ値（保存イベントのcontentHashと同じ形式）
+function hashContent(text: string): string {
+    return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+// 1ドキュメント分のイベント列から再生データを組み立てる
+export function buildReplay(events: JournalEvent[]): ReplaySession | null {
+    // 内容を含む最初のスナップショットから再生する
+    const snapshot = events.find(event => event.type === 'snapshot' && typeof event.content === 'string');
+    if (!snapshot) {
+        return null;
+    }
+
+    const header = events.find(event => event.type === 'session');
+    const baseVersion: number = snapshot.version;
+
+    // スナップショット以降の変更をバージョン順に並べる（同じバージョン内は記録順）
+    const edits = events
+        .filter(event => isReplayableEdit(event) && event.version > baseVersion)
+        .map((event, index) => ({ event, index }))
+        .sort((a, b) => a.event.version - b.event.version || a.index - b.index)
+        .map(item => item.event);
+
+    const saves = events
+        .filter(event => event.type === 'save' && event.version >= baseVersion)
+        .sort((a, b) => a.version - b.version);
+
+    const steps: ReplayStep[] = [];
+    const replaySaves: ReplaySave[] = [];
+    let text: string = snapshot.content;
+    let lastVersion = baseVersion;
+    let hasGaps = false;
+    let saveIndex = 0;
+
+    // 指定バージョンまでの保存イベントを現在の内容と照合する
+    const checkSaves = (upToVersion: number) => {
+        while (saveIndex < saves.length && saves[saveIndex].version <= upToVersion) {
+            const save = saves[saveIndex++];
+            replaySaves.push({
+                timestamp: save.timestamp,
+                step: steps.length,
+                matches: hashContent(text) === save.contentHash
+            });
+        }
+    };
+
+    checkSaves(baseVersion);
+    for (const edit of edits) {
+        if (edit.version !== lastVersion) {
+            checkSaves(edit.version - 1);
+            if (edit.version > lastVersion + 1) {
+                hasGaps = true;
+            }
+            lastVersion = edit.version;
+        }
+
+        const start = positionToOffset(text, edit.range.start.line, edit.range.start.character);
+        const end = positionToOffset(text, edit.range.end.line, edit.range.end.character);
+        const step: ReplayStep = { timestamp: edit.timestamp, start, end, text: edit.text };
+        text = applyStep(text, step);
+        steps.push(step);
+    }
+    checkSaves(Number.MAX_SAFE_INTEGER);
+
+    // 実行・エラーイベントを、その時点までに適用されたステップ数に対応づける
+    const stepAt = (timestamp: string): number => {
+        let count = 0;
+        while (count < steps.length && steps[count].timestamp <= timestamp) {
+            count++;
+        }
+        return count;
+    };
+
+    const markers: ReplayMarker[] = [];
+    for (const event of events) {
+        if (event.type === 'execution' && event.event === 'execution_end') {
+            const failed = event.exitCode !== 0;
+            markers.push({
+                timestamp: event.timestamp,
+                step: stepAt(event.timestamp),
+                kind: 'execution',
+                label: failed ? `実行 (終了コード ${event.exitCode})` : '実行 (成功)',
+                failed: failed
+            });
+        } else if (event.type === 'execution' && event.event === 'debug_end') {
+            const failed = event.exitCode !== undefined && event.exitCode !== 0;
+            markers.push({
+                timestamp: event.timestamp,
+                step: stepAt(event.timestamp),
+                kind: 'execution',
+                label: failed ? `デバッグ (終了コード ${event.exitCode})` : 'デバッグ',
+                failed: failed
+            });
+        } else if (event.type === 'error' && event.event !== 'diagnostic_appeared' && event.event !== 'diagnostic_resolved') {
+            markers.push({
+                timestamp: event.timestamp,
+                step: stepAt(event.timestamp),
+                kind: 'error',
+                label: event.message,
+                failed: true
+            });
+        }
+    }
+
+    return {
+        fileName: header ? header.fileName : snapshot.documentUri,
+        initialContent: snapshot.content,
+        finalContent: text,
+        steps: steps,
+        markers: markers,
+        saves: replaySaves,
+        hasGaps: hasGaps
+    };
+}
@@ -0,0 +1,188 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { readJournalParts } from './journal';
+import { pickJournal } from './logPicker';
+import { buildReplay, ReplaySession } from './replay';
+
+// セッションログを選択して再生ビューを開く
+export async function openReplay(logFolders: string[]): Promise<void> {
+    const parts = await pickJournal(logFolders);
+    if (!parts) {
+        return;
+    }
+
+    const session = buildReplay(readJournalParts(parts));
+    if (!session) {
+        vscode.window.showErrorMessage('このログには初期スナップショットがないため再生できません。');
+        return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+        'loggerReplay',
+        `Replay: ${path.basename(session.fileName)}`,
+        vscode.ViewColumn.Active,
+        { enableScripts: true }
+    );
+    panel.webview.html = getReplayHtml(session);
+}
+
+// 再生ビューのHTML
+function getReplayHtml(session: ReplaySession): string {
+    const nonce = Math.random().toString(36).slice(2);
+    // スクリプト内に埋め込むため、</script> で途切れないようにエスケープする
+    const data = JSON.stringify(session).replace(/</g, '\\u003c');
+    const mismatched = session.saves.filter(save => !save.matches).length;
+    const status = session.hasGaps || mismatched > 0
+        ? `⚠ 記録されていない変更があります（保存内容と一致しない箇所: ${mismatched}）`
+        : `✓ 保存内容と一致 (${session.saves.length} 回の保存)`;
+
+    return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    .controls { display: flex; gap: 8px; align-items: center; margin-bottom: 4px; }
+    .timeline { position: relative; height: 14px; margin: 0 8px; }
+    .marker { position: absolute; width: 4px; height: 12px; cursor: pointer; }
+    .marker.execution { background: var(--vscode-testing-iconPassed, green); }
+    .marker.failed { background: var(--vscode-errorForeground, red); }
+    #scrubber { width: 100%; }
+    pre { font-family: var(--vscode-editor-font-family); background: var(--vscode-editor-background); padding: 8px; white-space: pre-wrap; }
+    mark { background: var(--vscode-editor-findMatchHighlightBackground); color: inherit; }
+</style>
+</head>
+<body>
+<div class="controls">
+    <button id="play">▶ 再生</button>
+    <select id="speed">
+        <option value="0.5">0.5x</option>
+        <option value="1" selected>1x</option>
+        <option value="2">2x</option>
+        <option value="5">5x</option>
+        <option value="20">20x</option>
+    </select>
+    <span id="position"></span>
+    <span id="time"></span>
+</div>
+<div class="timeline" id="markers"></div>
+<input type="range" id="scrubber" min="0" value="0">
+<div>${status}</div>
+<pre id="code"></pre>
+<script nonce="${nonce}">
+    const session = ${data};
+    const steps = session.steps;
+    const CHECKPOINT_INTERVAL = 100;
+    // 一定ステップごとの内容を保持して、巻き戻し時の再計算を減らす
+    const checkpoints = [session.initialContent];
+
+    const code = document.getElementById('code');
+    const scrubber = document.getElementById('scrubber');
+    const playButton = document.getElementById('play');
+    const speedSelect = document.getElementById('speed');
+    const positionLabel = document.getElementById('position');
+    const timeLabel = document.getElementById('time');
+    const markerContainer = document.getElementById('markers');
+
+    let current = 0;
+    let timer = null;
+    scrubber.max = String(steps.length);
+
+    function apply(text, step) {
+        return text.slice(0, step.start) + step.text + text.slice(step.end);
+    }
+
+    function contentAt(index) {
+        let base = Math.floor(index / CHECKPOINT_INTERVAL);
+        while (checkpoints.length <= base) {
+            let text = checkpoints[checkpoints.length - 1];
+            const from = (checkpoints.length - 1) * CHECKPOINT_INTERVAL;
+            for (let i = from; i < from + CHECKPOINT_INTERVAL; i++) {
+                text = apply(text, steps[i]);
+            }
+            checkpoints.push(text);
+        }
+        let text = checkpoints[base];
+        for (let i = base * CHECKPOINT_INTERVAL; i < index; i++) {
+            text = apply(text, steps[i]);
+        }
+        return text;
+    }
+
+    function escapeHtml(text) {
+        return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    }
+
+    function render() {
+        const text = contentAt(current);
+        const last = current > 0 ? steps[current - 1] : null;
+        if (last && last.text.length > 0) {
+            const end = last.start + last.text.length;
+            code.innerHTML = escapeHtml(text.slice(0, last.start)) + '<mark>' + escapeHtml(text.slice(last.start, end)) + '</mark>' + escapeHtml(text.slice(end));
+        } else {
+            code.textContent = text;
+        }
+        scrubber.value = String(current);
+        positionLabel.textContent = current + ' / ' + steps.length;
+        timeLabel.textContent = last ? new Date(last.timestamp).toLocaleTimeString() : '';
+    }
+
+    function stop() {
+        if (timer) {
+            clearTimeout(timer);
+            timer = null;
+        }
+        playButton.textContent = '▶ 再生';
+    }
+
+    function scheduleNext() {
+        if (current >= steps.length) {
+            stop();
+            return;
+        }
+        // 実際の入力間隔を再現する（長い休止は1秒に切り詰める）
+        const prev = current > 0 ? Date.parse(steps[current - 1].timestamp) : Date.parse(steps[0].timestamp);
+        const gap = Math.min(Date.parse(steps[current].timestamp) - prev, 1000);
+        timer = setTimeout(() => {
+            current++;
+            render();
+            scheduleNext();
+        }, Math.max(gap, 0) / Number(speedSelect.value));
+    }
+
+    playButton.addEventListener('click', () => {
+        if (timer) {
+            stop();
+            return;
+        }
+        if (current >= steps.length) {
+            current = 0;
+        }
+        playButton.textContent = '⏸ 一時停止';
+        scheduleNext();
+    });
+
+    scrubber.addEventListener('input', () => {
+        current = Number(scrubber.value);
+        render();
+    });
+
+    for (const marker of session.markers) {
+        const element = document.createElement('div');
+        element.className = 'marker ' + marker.kind + (marker.failed ? ' failed' : '');
+        element.style.left = (steps.length ? marker.step / steps.length * 100 : 0) + '%';
+        element.title = new Date(marker.timestamp).toLocaleTimeString() + ' ' + marker.label;
+        element.addEventListener('click', () => {
+            stop();
+            current = marker.step;
+            render();
+        });
+        markerContainer.appendChild(element);
+    }
+
+    render();
+</script>
+</body>
+</html>`;
+}
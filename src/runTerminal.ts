@@ -0,0 +1,234 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+
+// 実行の段階
+export type RunPhase = 'compile' | 'run';
+
+// 順に実行するコマンド（コンパイル → 実行）
+export interface RunStep {
+    phase: RunPhase;
+    command: string;
+    args: string[];
+}
+
+// 実行するプロセスの設定
+export interface RunOptions {
+    steps: RunStep[];
+    cwd: string;
+    env: NodeJS.ProcessEnv;
+    // 実行段階の実行時間の上限（ミリ秒、0なら無制限）
+    timeoutMs: number;
+    // 出力サイズの上限（バイト、0なら無制限）
+    maxOutputBytes: number;
+}
+
+// 実行中の出来事の通知先
+export interface RunCallbacks {
+    onStart(process: cp.ChildProcess, phase: RunPhase): void;
+    onInput(line: string): void;
+    onLimit(event: 'execution_timeout' | 'output_truncated', limit: number): void;
+    // 全ての段階が終わったとき、または途中の段階が失敗したときに1回だけ呼ばれる
+    onExit(exitCode: number, phase: RunPhase, errorMessage?: string): void;
+}
+
+// Windows では npx などのコマンドが .cmd / .bat のため、シェル経由で起動する
+const USE_SHELL = process.platform === 'win32';
+
+// cmd.exe に渡す引数を引用符で囲む（空白や記号を含む場合のみ）
+function quoteWindowsArg(arg: string): string {
+    if (/^[\w\-.\/\\:=@+,]+$/.test(arg)) {
+        return arg;
+    }
+    return `"${arg.replace(/"/g, '""')}"`;
+}
+
+// 子プロセスの入出力をつなぐ疑似ターミナル
+// 学生がターミナルに入力した行をプロセスの標準入力に送る
+export class RunTerminal implements vscode.Pseudoterminal {
+    private writeEmitter = new vscode.EventEmitter<string>();
+    public onDidWrite: vscode.Event<string> = this.writeEmitter.event;
+
+    private process: cp.ChildProcess | null = null;
+    private inputBuffer = '';
+    private outputBytes = 0;
+    private timer: NodeJS.Timeout | null = null;
+    private limitReached = false;
+
+    constructor(private options: RunOptions, private callbacks: RunCallbacks) {}
+
+    public open(): void {
+        this.runStep(0);
+    }
+
+    // 指定した段階のコマンドを実行し、成功したら次の段階に進む
+    private runStep(index: number): void {
+        const step = this.options.steps[index];
+        this.writeLine(`実行中: ${step.command} ${step.args.join(' ')}`);
+        this.writeLine('----------------------------------------');
+
+        const process = USE_SHELL
+            ? cp.spawn(quoteWindowsArg(step.command), step.args.map(quoteWindowsArg), {
+                cwd: this.options.cwd,
+                env: this.options.env,
+                stdio: ['pipe', 'pipe', 'pipe'],
+                shell: true,
+                windowsHide: true
+            })
+            : cp.spawn(step.command, step.args, {
+                cwd: this.options.cwd,
+                env: this.options.env,
+                stdio: ['pipe', 'pipe', 'pipe']
+            });
+        this.process = process;
+        this.callbacks.onStart(process, step.phase);
+
+        process.stdout.on('data', (data: Buffer) => this.handleOutput(data));
+        process.stderr.on('data', (data: Buffer) => this.handleOutput(data));
+        // 終了したプロセスへの入力（EPIPE など）は捨てる。終了は exit で扱う
+        process.stdin.on('error', (err: Error) => console.error('Failed to write to process input:', err.message));
+
+        // exit と error の両方が発生することがあるため、終了処理は1回だけ行う
+        let finished = false;
+        const finish = (exitCode: number, errorMessage?: string) => {
+            if (finished) {
+                return;
+            }
+            finished = true;
+            this.clearTimer();
+            this.process = null;
+
+            if (exitCode === 0 && index + 1 < this.options.steps.length && !this.limitReached) {
+                this.writeLine('');
+                this.runStep(index + 1);
+                return;
+            }
+
+            this.writeLine('');
+            this.writeLine('----------------------------------------');
+            this.writeLine(`終了コード: ${exitCode}`);
+            this.writeLine(exitCode === 0 ? '正常に終了しました。' : 'エラーが発生しました。');
+            this.callbacks.onExit(exitCode, step.phase, errorMessage);
+        };
+
+        // シグナルで強制終了された場合は失敗として扱う
+        process.on('exit', (code: number | null) => finish(code !== null ? code : 1));
+
+        process.on('error', (err: Error) => {
+            this.writeLine(`エラー: ${err.message}`);
+            vscode.window.showErrorMessage(`実行エラー: ${err.message}`);
+            finish(1, err.message);
+        });
+
+        // 無限ループなどで終わらない場合は強制終了する
+        if (step.phase === 'run' && this.options.timeoutMs > 0) {
+            this.timer = setTimeout(() => {
+                this.stop('execution_timeout', this.options.timeoutMs,
+                    `実行時間が上限（${this.options.timeoutMs / 1000}秒）を超えたため停止しました。`);
+            }, this.options.timeoutMs);
+        }
+    }
+
+    public close(): void {
+        this.clearTimer();
+        this.kill();
+    }
+
+    // 実行中のプロセスを終了する（シェル経由の場合は、シェルから起動されたプロセスもまとめて終了する）
+    private kill(): void {
+        if (!this.process) {
+            return;
+        }
+        if (USE_SHELL && this.process.pid !== undefined) {
+            cp.spawn('taskkill', ['/pid', String(this.process.pid), '/T', '/F'], { windowsHide: true })
+                .on('error', error => console.error('Failed to stop process:', error));
+        } else {
+            this.process.kill();
+        }
+    }
+
+    // ターミナルへの入力を1行ずつプロセスに送る（プロセスが入力を閉じた後や終了した後は送らない）
+    public handleInput(data: string): void {
+        if (!this.process || !this.process.stdin) {
+            return;
+        }
+        const stdin = this.process.stdin;
+
+        for (const char of data) {
+            if (char === '\r') {
+                const line = this.inputBuffer;
+                this.inputBuffer = '';
+                this.writeEmitter.fire('\r\n');
+                if (stdin.writable) {
+                    stdin.write(line + '\n');
+                    this.callbacks.onInput(line);
+                }
+            } else if (char === '\x7f') {
+                // Backspace
+                if (this.inputBuffer.length > 0) {
+                    this.inputBuffer = this.inputBuffer.slice(0, -1);
+                    this.writeEmitter.fire('\b \b');
+                }
+            } else if (char === '\x03') {
+                // Ctrl+C
+                this.writeEmitter.fire('^C\r\n');
+                this.kill();
+            } else if (char === '\x04') {
+                // Ctrl+D（入力の終わり）
+                if (stdin.writable) {
+                    stdin.end();
+                }
+            } else if (char >= ' ') {
+                this.inputBuffer += char;
+                this.writeEmitter.fire(char);
+            }
+        }
+    }
+
+    // プロセスの出力をターミナルに表示し、出力サイズの上限を確認する
+    private handleOutput(data: Buffer): void {
+        if (this.limitReached) {
+            return;
+        }
+
+        this.outputBytes += data.length;
+        if (this.options.maxOutputBytes > 0 && this.outputBytes > this.options.maxOutputBytes) {
+            const remaining = data.length - (this.outputBytes - this.options.maxOutputBytes);
+            this.write(data.slice(0, Math.max(remaining, 0)).toString());
+            this.stop('output_truncated', this.options.maxOutputBytes,
+                `出力が上限（${this.options.maxOutputBytes}バイト）を超えたため停止しました。`);
+            return;
+        }
+
+        this.write(data.toString());
+    }
+
+    // 上限に達したプロセスを停止する
+    private stop(event: 'execution_timeout' | 'output_truncated', limit: number, message: string): void {
+        if (this.limitReached || !this.process) {
+            return;
+        }
+
+        this.limitReached = true;
+        this.clearTimer();
+        this.callbacks.onLimit(event, limit);
+        this.writeLine('');
+        this.writeLine(message);
+        this.kill();
+    }
+
+    private clearTimer(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    // ターミナルは改行にCRLFが必要
+    private write(text: string): void {
+        this.writeEmitter.fire(text.replace(/\r?\n/g, '\r\n'));
+    }
+
+    private writeLine(text: string): void {
+        this.write(text + '\n');
+    }
+}
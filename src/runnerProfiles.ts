@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { splitCommandLine } from './commandLine';
+
+// エラー出力の解析方法
+export type ErrorParserName = 'python' | 'node' | 'java' | 'csharp' | 'generic';
+
+// 言語ごとの実行方法
+export interface RunnerProfile {
+    id: string;
+    languageId: string;
+    // コンパイルコマンド（不要な言語では省略）
+    compile?: string;
+    run: string;
+    env?: { [name: string]: string };
+    // 作業ディレクトリ（省略時はファイルのあるフォルダ）
+    cwd?: string;
+    errorParser: ErrorParserName;
+}
+
+// 組み込みのプロファイル
+// コマンドには ${file}, ${fileBasename}, ${fileBasenameNoExtension}, ${fileDirname}, ${workspaceFolder} が使える
+export const BUILTIN_PROFILES: RunnerProfile[] = [
+    {
+        id: 'python',
+        languageId: 'python',
+        run: '${python} -u ${fileBasename}',
+        env: { PYTHONIOENCODING: 'utf8' },
+        errorParser: 'python'
+    },
+    {
+        id: 'node',
+        languageId: 'javascript',
+        run: 'node ${fileBasename}',
+        errorParser: 'node'
+    },
+    {
+        id: 'typescript',
+        languageId: 'typescript',
+        run: 'npx --yes tsx ${fileBasename}',
+        errorParser: 'node'
+    },
+    {
+        id: 'java',
+        languageId: 'java',
+        compile: 'javac -encoding UTF-8 ${fileBasename}',
+        run: 'java -Dfile.encoding=UTF-8 ${fileBasenameNoExtension}',
+        errorParser: 'java'
+    },
+    {
+        id: 'csharp',
+        languageId: 'csharp',
+        run: 'dotnet run',
+        errorParser: 'csharp'
+    }
+];
+
+// 設定のプロファイルで組み込みのプロファイルを上書き・追加する
+export function loadProfiles(): RunnerProfile[] {
+    const custom = vscode.workspace.getConfiguration('Logger').get<RunnerProfile[]>('runnerProfiles', []);
+    const profiles = new Map<string, RunnerProfile>();
+    BUILTIN_PROFILES.forEach(profile => profiles.set(profile.id, profile));
+    custom.forEach(profile => profiles.set(profile.id, { ...profiles.get(profile.id), ...profile }));
+    return Array.from(profiles.values());
+}
+
+// 言語IDに対応するプロファイル（設定で追加したものを優先する）
+export function findProfile(languageId: string): RunnerProfile | undefined {
+    const profiles = loadProfiles();
+    for (let i = profiles.length - 1; i >= 0; i--) {
+        if (profiles[i].languageId === languageId) {
+            return profiles[i];
+        }
+    }
+    return undefined;
+}
+
+// コマンドライン中の変数を置き換える
+export function expandVariables(template: string, filePath: string, extra: { [name: string]: string } = {}): string {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+    const variables: { [name: string]: string } = {
+        file: filePath,
+        fileBasename: path.basename(filePath),
+        fileBasenameNoExtension: path.basename(filePath, path.extname(filePath)),
+        fileDirname: path.dirname(filePath),
+        workspaceFolder: workspaceFolder ? workspaceFolder.uri.fsPath : path.dirname(filePath),
+        ...extra
+    };
+    return template.replace(/\$\{(\w+)\}/g, (match, name: string) => variables[name] !== undefined ? variables[name] : match);
+}
+
+// プロファイルのコマンドを、実行するファイルに合わせて引数の配列にする
+export function resolveCommand(template: string, filePath: string, extra: { [name: string]: string } = {}): string[] {
+    return splitCommandLine(template).map(arg => expandVariables(arg, filePath, extra));
+}
@@ -0,0 +1,169 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DEFAULT_XAPI_BASE_URL } from './exporter';
+import { RedactionOptions } from './redaction';
+import { TerminalOutputMode } from './terminalTracker';
+import { NOTEBOOK_CELL_SCHEME } from './notebook';
+import { DEFAULT_STRUGGLE_RULES, StruggleRule, validRules } from './struggle';
+import { validEndpoint } from './taAlerts';
+
+// 拡張機能の設定
+export interface LoggerSettings {
+    enableKeyLogging: boolean;
+    enableErrorLogging: boolean;
+    languageAllowlist: string[];
+    languageDenylist: string[];
+    includePaths: string[];
+    excludePaths: string[];
+    diagnosticSeverities: string[];
+    largeInsertThreshold: number;
+    runTimeoutSeconds: number;
+    maxOutputBytes: number;
+    snapshotIntervalSeconds: number;
+    enableActivityLogging: boolean;
+    idleThresholdSeconds: number;
+    activitySampleSeconds: number;
+    courseSigningKey: string;
+    xapiBaseUrl: string;
+    uploadEndpoint: string;
+    uploadToken: string;
+    uploadBatchSize: number;
+    terminalOutput: TerminalOutputMode;
+    struggleDetection: boolean;
+    struggleRules: StruggleRule[];
+    struggleHints: boolean;
+    taAlertEndpoint: string;
+    redaction: RedactionOptions;
+}
+
+// 設定を読み込む
+export function loadSettings(): LoggerSettings {
+    const config = vscode.workspace.getConfiguration('Logger');
+    return {
+        enableKeyLogging: config.get<boolean>('enableKeyLogging', true),
+        enableErrorLogging: config.get<boolean>('enableErrorLogging', true),
+        languageAllowlist: config.get<string[]>('languageAllowlist', []),
+        languageDenylist: config.get<string[]>('languageDenylist', []),
+        includePaths: config.get<string[]>('includePaths', ['**/*']),
+        excludePaths: config.get<string[]>('excludePaths', []),
+        diagnosticSeverities: config.get<string[]>('diagnosticSeverities', ['Error', 'Warning']),
+        largeInsertThreshold: config.get<number>('largeInsertThreshold', 100),
+        runTimeoutSeconds: config.get<number>('runTimeoutSeconds', 30),
+        maxOutputBytes: config.get<number>('maxOutputBytes', 1024 * 1024),
+        snapshotIntervalSeconds: config.get<number>('snapshotIntervalSeconds', 0),
+        enableActivityLogging: config.get<boolean>('enableActivityLogging', true),
+        idleThresholdSeconds: config.get<number>('idleThresholdSeconds', 120),
+        activitySampleSeconds: config.get<number>('activitySampleSeconds', 2),
+        courseSigningKey: config.get<string>('courseSigningKey', ''),
+        xapiBaseUrl: config.get<string>('xapiBaseUrl', DEFAULT_XAPI_BASE_URL),
+        uploadEndpoint: validEndpoint(config.get<string>('uploadEndpoint', '')),
+        uploadToken: config.get<string>('uploadToken', ''),
+        uploadBatchSize: config.get<number>('uploadBatchSize', 500),
+        terminalOutput: config.get<TerminalOutputMode>('terminalOutput', 'failed'),
+        struggleDetection: config.get<boolean>('struggleDetection', true),
+        struggleRules: validRules(config.get<StruggleRule[]>('struggleRules', DEFAULT_STRUGGLE_RULES)),
+        struggleHints: config.get<boolean>('struggleHints', true),
+        taAlertEndpoint: validEndpoint(config.get<string>('taAlertEndpoint', '')),
+        redaction: {
+            enabled: config.get<boolean>('redactSecrets', true),
+            patterns: config.get<string[]>('redactionPatterns', []),
+            entropyThreshold: config.get<number>('redactionEntropyThreshold', 4.0),
+            minSecretLength: config.get<number>('redactionMinLength', 20)
+        }
+    };
+}
+
+// グロブパターンを正規表現に変換する（**, *, ?, {a,b} に対応）
+export function globToRegExp(glob: string): RegExp {
+    let pattern = '';
+    let inGroup = false;
+
+    for (let i = 0; i < glob.length; i++) {
+        const c = glob[i];
+        switch (c) {
+            case '*':
+                if (glob[i + 1] === '*') {
+                    if (glob[i + 2] === '/') {
+                        // '**/' は0個以上のディレクトリに一致
+                        pattern += '(?:.*/)?';
+                        i += 2;
+                    } else {
+                        pattern += '.*';
+                        i++;
+                    }
+                } else {
+                    pattern += '[^/]*';
+                }
+                break;
+            case '?':
+                pattern += '[^/]';
+                break;
+            case '{':
+                inGroup = true;
+                pattern += '(?:';
+                break;
+            case '}':
+                pattern += inGroup ? ')' : '\\}';
+                inGroup = false;
+                break;
+            case ',':
+                pattern += inGroup ? '|' : ',';
+                break;
+            default:
+                pattern += c.replace(/[.+^$()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${pattern}$`);
+}
+
+// ログ対象のドキュメントかどうかを判定するフィルタ
+export class TrackingFilter {
+    private settings: LoggerSettings;
+    private includes: RegExp[];
+    private excludes: RegExp[];
+
+    constructor(settings: LoggerSettings) {
+        this.settings = settings;
+        this.includes = settings.includePaths.map(globToRegExp);
+        this.excludes = settings.excludePaths.map(globToRegExp);
+    }
+
+    // 言語IDがログ対象かどうか
+    public isLanguageTracked(languageId: string): boolean {
+        const { languageAllowlist, languageDenylist } = this.settings;
+        if (languageAllowlist.length > 0 && !languageAllowlist.includes(languageId)) {
+            return false;
+        }
+        return !languageDenylist.includes(languageId);
+    }
+
+    // ファイルパスがログ対象かどうか
+    public isPathTracked(uri: vscode.Uri): boolean {
+        const candidate = this.matchPath(uri);
+        if (this.includes.length > 0 && !this.includes.some(re => re.test(candidate))) {
+            return false;
+        }
+        return !this.excludes.some(re => re.test(candidate));
+    }
+
+    // 言語IDとパスの両方を判定する（言語が不明な場合はパスのみ）
+    public isTracked(uri: vscode.Uri, languageId?: string): boolean {
+        if (languageId && !this.isLanguageTracked(languageId)) {
+            return false;
+        }
+        return this.isPathTracked(uri);
+    }
+
+    // グロブと照合するパス（ワークスペース内なら相対パス、ノートブックのセルはノートブックのパス）
+    private matchPath(uri: vscode.Uri): string {
+        if (uri.scheme === NOTEBOOK_CELL_SCHEME) {
+            uri = uri.with({ scheme: 'file', fragment: '' });
+        }
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+        const filePath = workspaceFolder
+            ? path.relative(workspaceFolder.uri.fsPath, uri.fsPath)
+            : uri.fsPath;
+        return filePath.split(path.sep).join('/');
+    }
+}
@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { JournalEvent, readJournalParts } from './journal';
+import { pickJournal } from './logPicker';
+import { SnapshotStore, snapshotFolder } from './snapshotStore';
+
+// スナップショットを読み取り専用のドキュメントとして開くためのURIスキーム
+export const SNAPSHOT_SCHEME = 'logger-snapshot';
+
+// セッション内で参照されているスナップショット
+interface SnapshotReference {
+    timestamp: string;
+    snapshotId: string;
+    label: string;
+}
+
+// スナップショットの内容を提供するプロバイダを登録する
+// URIのクエリにスナップショットファイルのパスを持たせる
+export function registerSnapshotProvider(): vscode.Disposable {
+    return vscode.workspace.registerTextDocumentContentProvider(SNAPSHOT_SCHEME, {
+        provideTextDocumentContent(uri: vscode.Uri): string {
+            return fs.existsSync(uri.query) ? fs.readFileSync(uri.query, 'utf8') : '';
+        }
+    });
+}
+
+// イベント列から、スナップショットを参照しているイベントを取り出す
+function collectReferences(events: JournalEvent[]): SnapshotReference[] {
+    const references: SnapshotReference[] = [];
+
+    events.forEach((event, index) => {
+        if (!event.snapshotId) {
+            return;
+        }
+
+        let label: string;
+        if (event.type === 'snapshot') {
+            label = event.reason === 'initial' ? '開いた時点' : '定期スナップショット';
+        } else if (event.type === 'save') {
+            label = '保存';
+        } else if (event.type === 'execution' && event.event === 'execution_start') {
+            // 実行結果は後続の execution_end から分かる
+            const end = events.slice(index + 1).find(next => next.type === 'execution' && next.event === 'execution_end');
+            label = !end ? '実行' : end.exitCode === 0 ? '実行 (成功)' : `実行 (失敗: 終了コード ${end.exitCode})`;
+        } else if (event.type === 'execution' && event.event === 'debug_start') {
+            label = 'デバッグ';
+        } else {
+            label = event.type;
+        }
+
+        references.push({ timestamp: event.timestamp, snapshotId: event.snapshotId, label });
+    });
+
+    return references;
+}
+
+// 比較するスナップショットを選択させる
+async function pickReference(references: SnapshotReference[], placeHolder: string): Promise<SnapshotReference | undefined> {
+    const items = references.map(reference => ({
+        label: `${new Date(reference.timestamp).toLocaleTimeString()} ${reference.label}`,
+        description: reference.snapshotId.slice(0, 8),
+        reference
+    }));
+    const selected = await vscode.window.showQuickPick(items, { placeHolder });
+    return selected?.reference;
+}
+
+// セッション内の2つのスナップショットの差分を表示する
+export async function openSnapshotDiff(logFolders: string[]): Promise<void> {
+    const parts = await pickJournal(logFolders);
+    if (!parts) {
+        return;
+    }
+
+    const events = readJournalParts(parts);
+    const references = collectReferences(events);
+    if (references.length < 2) {
+        vscode.window.showInformationMessage('比較できるスナップショットが2つ以上ありません。');
+        return;
+    }
+
+    const left = await pickReference(references, '比較元のスナップショットを選択してください');
+    if (!left) {
+        return;
+    }
+    const right = await pickReference(references.filter(reference => reference !== left), '比較先のスナップショットを選択してください');
+    if (!right) {
+        return;
+    }
+
+    const header = events.find(event => event.type === 'session');
+    const baseName = header ? path.basename(header.fileName) : 'snapshot';
+    const store = new SnapshotStore(snapshotFolder(path.dirname(parts[0])));
+    const toUri = (reference: SnapshotReference) => vscode.Uri.from({
+        scheme: SNAPSHOT_SCHEME,
+        path: `/${reference.snapshotId.slice(0, 8)}/${baseName}`,
+        query: store.pathOf(reference.snapshotId)
+    });
+
+    await vscode.commands.executeCommand(
+        'vscode.diff',
+        toUri(left),
+        toUri(right),
+        `${baseName}: ${left.label} ↔ ${right.label}`
+    );
+}
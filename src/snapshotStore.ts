@@ -0,0 +1,50 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+// ソースコードのスナップショットを内容のハッシュ値で保存するストア
+// 同じ内容は1回だけ保存され、イベントからはIDで参照する
+export class SnapshotStore {
+    private folder: string;
+
+    constructor(folder: string) {
+        this.folder = folder;
+    }
+
+    // 内容からスナップショットIDを求める
+    public static idOf(content: string): string {
+        return crypto.createHash('sha256').update(content).digest('hex');
+    }
+
+    // スナップショットのファイルパス
+    public pathOf(id: string): string {
+        return path.join(this.folder, `${id}.txt`);
+    }
+
+    // 内容を保存してIDを返す（既に同じ内容があれば書き込まない）
+    public put(content: string): string {
+        const id = SnapshotStore.idOf(content);
+        const filePath = this.pathOf(id);
+        if (!fs.existsSync(filePath)) {
+            if (!fs.existsSync(this.folder)) {
+                fs.mkdirSync(this.folder, { recursive: true });
+            }
+            // 書き込み途中のファイルが残らないよう、一時ファイルに書いてから置き換える
+            const tempFile = `${filePath}.tmp`;
+            fs.writeFileSync(tempFile, content, 'utf8');
+            fs.renameSync(tempFile, filePath);
+        }
+        return id;
+    }
+
+    // スナップショットの内容を読み込む
+    public get(id: string): string | undefined {
+        const filePath = this.pathOf(id);
+        return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : undefined;
+    }
+}
+
+// ログフォルダに対応するスナップショットフォルダ
+export function snapshotFolder(logFolder: string): string {
+    return path.join(logFolder, 'snapshots');
+}
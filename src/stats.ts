@@ -0,0 +1,181 @@
+import { JournalEvent } from './journal';
+
+// 入力の間隔がこれを超えたら休止とみなす（ミリ秒、Logger.idleThresholdSeconds の既定値と同じ）
+export const IDLE_THRESHOLD_MS = 120 * 1000;
+
+// セッションの統計
+export interface SessionStats {
+    // 最初のイベントから最後のイベントまでの時間（ミリ秒）
+    totalTime: number;
+    activeTime: number;
+    idleTime: number;
+    keystrokes: number;
+    keystrokesPerMinute: number;
+    operations: { insert: number; delete: number; replace: number };
+    runs: number;
+    failedRuns: number;
+    exceptionTypes: { type: string; count: number }[];
+    // エディタの診断が解消されるまでの平均時間（ミリ秒）
+    resolvedDiagnostics: number;
+    averageTimeToFix: number;
+    // ウィンドウにフォーカスがあり、休止していない時間（操作イベントがなければ undefined）
+    engagedTime?: number;
+}
+
+// 編集イベントの操作種別（キー入力はテキストと範囲から判定する）
+export function operationOf(event: JournalEvent): 'insert' | 'delete' | 'replace' | undefined {
+    if (event.operation === 'insert' || event.operation === 'delete' || event.operation === 'replace') {
+        return event.operation;
+    }
+    if (event.type !== 'key') {
+        return undefined;
+    }
+    if (event.key === 'Delete' || event.text === '') {
+        return 'delete';
+    }
+    const range = event.range;
+    if (range && (range.start.line !== range.end.line || range.start.character !== range.end.character)) {
+        return 'replace';
+    }
+    return 'insert';
+}
+
+// エラーイベントから例外の型名を取り出す
+export function exceptionTypeOf(event: JournalEvent): string | undefined {
+    if (event.exceptionType) {
+        return event.exceptionType;
+    }
+
+    // Pythonのトレースバックでは最後の行が「型名: メッセージ」になる
+    const lines = `${event.message || ''}\n${event.stack || ''}`
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line.length > 0);
+    for (let i = lines.length - 1; i >= 0; i--) {
+        const match = /^([A-Za-z_][\w.]*(?:Error|Exception|Warning|Interrupt|Exit))\b/.exec(lines[i]);
+        if (match) {
+            return match[1];
+        }
+    }
+    return undefined;
+}
+
+// 操作イベント（フォーカス・休止・記録の一時停止）から、取り組んでいた時間を求める
+// 休止は最後の操作の時点（idle_start の since）から始まったものとする
+export function computeEngagedTime(events: JournalEvent[]): number | undefined {
+    if (!events.some(event => event.type === 'activity')) {
+        return undefined;
+    }
+
+    const timeline = events
+        .map(event => ({
+            event,
+            time: event.type === 'activity' && event.event === 'idle_start' && event.since
+                ? Date.parse(event.since)
+                : Date.parse(event.timestamp)
+        }))
+        .filter(item => !isNaN(item.time))
+        .sort((a, b) => a.time - b.time);
+
+    let engaged = 0;
+    let focused = true;
+    let idle = false;
+    let paused = false;
+    for (let i = 0; i < timeline.length; i++) {
+        if (i > 0 && focused && !idle && !paused) {
+            engaged += timeline[i].time - timeline[i - 1].time;
+        }
+
+        const event = timeline[i].event;
+        if (event.type === 'pause') {
+            paused = event.event === 'pause_start';
+            continue;
+        }
+        if (event.type !== 'activity') {
+            continue;
+        }
+        if (event.event === 'window_focus') {
+            focused = true;
+        } else if (event.event === 'window_blur') {
+            focused = false;
+        } else if (event.event === 'idle_start') {
+            idle = true;
+        } else if (event.event === 'idle_end') {
+            idle = false;
+        }
+    }
+    return engaged;
+}
+
+// イベント列から統計を計算する
+export function computeStats(events: JournalEvent[], idleThreshold: number = IDLE_THRESHOLD_MS): SessionStats {
+    const operations = { insert: 0, delete: 0, replace: 0 };
+    const exceptionCounts = new Map<string, number>();
+    const inputTimes: number[] = [];
+    let keystrokes = 0;
+    let runs = 0;
+    let failedRuns = 0;
+    let resolvedDiagnostics = 0;
+    let totalTimeToFix = 0;
+
+    for (const event of events) {
+        if (event.type === 'edit' || event.type === 'key') {
+            inputTimes.push(Date.parse(event.timestamp));
+            const operation = operationOf(event);
+            if (operation) {
+                operations[operation]++;
+            }
+            if (event.type === 'key') {
+                keystrokes++;
+            }
+        } else if (event.type === 'execution' && (event.event === 'execution_end' || event.event === 'debug_end' ||
+            event.event === 'cell_execution' || (event.event === 'terminal_command' && event.commandKind === 'run'))) {
+            // デバッガ・ターミナル・ノートブックのセルでの実行も実行として数える（終了コードが分からない場合は失敗としない）
+            runs++;
+            if (event.exitCode !== undefined && event.exitCode !== 0) {
+                failedRuns++;
+            }
+        } else if (event.type === 'error' && /_execution_error$/.test(event.event || '')) {
+            const type = exceptionTypeOf(event) || 'Unknown';
+            exceptionCounts.set(type, (exceptionCounts.get(type) || 0) + 1);
+        } else if (event.type === 'error' && event.event === 'diagnostic_resolved') {
+            resolvedDiagnostics++;
+            totalTimeToFix += event.duration || 0;
+        }
+    }
+
+    // 入力間隔が閾値以下の区間を作業時間として合計する
+    inputTimes.sort((a, b) => a - b);
+    let activeTime = 0;
+    for (let i = 1; i < inputTimes.length; i++) {
+        const gap = inputTimes[i] - inputTimes[i - 1];
+        if (gap <= idleThreshold) {
+            activeTime += gap;
+        }
+    }
+
+    const timestamps = events
+        .map(event => Date.parse(event.timestamp))
+        .filter(time => !isNaN(time));
+    const totalTime = timestamps.length > 0
+        ? timestamps.reduce((a, b) => Math.max(a, b)) - timestamps.reduce((a, b) => Math.min(a, b))
+        : 0;
+    const activeMinutes = activeTime / 60000;
+
+    return {
+        totalTime: totalTime,
+        activeTime: activeTime,
+        idleTime: Math.max(totalTime - activeTime, 0),
+        keystrokes: keystrokes,
+        keystrokesPerMinute: activeMinutes > 0 ? keystrokes / activeMinutes : 0,
+        operations: operations,
+        runs: runs,
+        failedRuns: failedRuns,
+        exceptionTypes: Array.from(exceptionCounts.entries())
+            .map(([type, count]) => ({ type, count }))
+            .sort((a, b) => b.count - a.count),
+        resolvedDiagnostics: resolvedDiagnostics,
+        averageTimeToFix: resolvedDiagnostics > 0 ? totalTimeToFix / resolvedDiagnostics : 0,
+        engagedTime: computeEngagedTime(events)
+    };
+}
@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { readJournalParts, JournalEvent } from './journal';
+import { listManifests, readManifest, resolveActivityLogFiles, resolveLogFiles } from './manifest';
+import { computeStats, SessionStats } from './stats';
+
+// 統計を表示するセッションを選択させる
+async function pickSession(currentManifest: string, logFolders: string[]): Promise<string | undefined> {
+    const items = [{
+        label: '現在のセッション',
+        description: path.basename(currentManifest),
+        manifest: currentManifest
+    }];
+
+    logFolders
+        .flatMap(folder => listManifests(folder))
+        .filter(manifest => manifest !== currentManifest)
+        .reverse()
+        .forEach(manifest => items.push({
+            label: path.basename(manifest, '_manifest.json'),
+            description: path.dirname(manifest),
+            manifest: manifest
+        }));
+
+    const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: '統計を表示するセッションを選択してください'
+    });
+    return selected?.manifest;
+}
+
+// 統計ダッシュボードを開く（idleThreshold は休止とみなす入力の間隔、ミリ秒）
+export async function openStats(currentManifest: string, logFolders: string[], idleThreshold: number): Promise<void> {
+    const manifestFile = await pickSession(currentManifest, logFolders);
+    if (!manifestFile) {
+        return;
+    }
+
+    if (!fs.existsSync(manifestFile)) {
+        vscode.window.showInformationMessage('このセッションにはまだログがありません。');
+        return;
+    }
+
+    const manifest = readManifest(manifestFile);
+    const allEvents: JournalEvent[] = [];
+    const documents = manifest.documents.map(document => {
+        const events = readJournalParts(resolveLogFiles(manifestFile, document).filter(file => fs.existsSync(file)));
+        allEvents.push(...events);
+        return { fileName: document.fileName, stats: computeStats(events, idleThreshold) };
+    });
+    // フォーカス・休止の記録はセッション全体の統計にだけ使う
+    allEvents.push(...readJournalParts(resolveActivityLogFiles(manifestFile, manifest).filter(file => fs.existsSync(file))));
+
+    const panel = vscode.window.createWebviewPanel(
+        'loggerStats',
+        `Stats: ${manifest.sessionId}`,
+        vscode.ViewColumn.Active,
+        {}
+    );
+    panel.webview.html = getStatsHtml(manifest.studentId, manifest.sessionId, computeStats(allEvents, idleThreshold), documents);
+}
+
+// ミリ秒を「分:秒」で表す
+function formatDuration(ms: number): string {
+    const seconds = Math.round(ms / 1000);
+    return `${Math.floor(seconds / 60)}分${seconds % 60}秒`;
+}
+
+// 全体に対する割合を百分率で表す
+function formatRatio(count: number, total: number): string {
+    return total > 0 ? `${(count / total * 100).toFixed(1)}%` : '-';
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// 統計ダッシュボードのHTML
+function getStatsHtml(studentId: string, sessionId: string, stats: SessionStats, documents: { fileName: string; stats: SessionStats }[]): string {
+    const { insert, delete: del, replace } = stats.operations;
+    const totalOperations = insert + del + replace;
+    const exceptionRows = stats.exceptionTypes.slice(0, 10)
+        .map(item => `<tr><td>${escapeHtml(item.type)}</td><td>${item.count}</td></tr>`)
+        .join('');
+    const documentRows = documents
+        .map(document => `<tr>
+            <td>${escapeHtml(path.basename(document.fileName))}</td>
+            <td>${formatDuration(document.stats.activeTime)}</td>
+            <td>${document.stats.keystrokes}</td>
+            <td>${document.stats.runs}</td>
+            <td>${document.stats.failedRuns}</td>
+        </tr>`)
+        .join('');
+
+    return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    table { border-collapse: collapse; margin-bottom: 16px; }
+    th, td { border: 1px solid var(--vscode-panel-border); padding: 4px 8px; text-align: left; }
+</style>
+</head>
+<body>
+<h2>${escapeHtml(studentId)} / ${escapeHtml(sessionId)}</h2>
+<h3>作業時間</h3>
+<table>
+    <tr><th>入力している時間</th><td>${formatDuration(stats.activeTime)}</td></tr>
+    <tr><th>休止している時間</th><td>${formatDuration(stats.idleTime)}</td></tr>
+    <tr><th>取り組んでいた時間</th><td>${stats.engagedTime !== undefined ? formatDuration(stats.engagedTime) : '-'}</td></tr>
+    <tr><th>キー入力数</th><td>${stats.keystrokes}</td></tr>
+    <tr><th>1分あたりのキー入力数</th><td>${stats.keystrokesPerMinute.toFixed(1)}</td></tr>
+</table>
+<h3>編集の種類</h3>
+<table>
+    <tr><th>挿入</th><td>${insert}</td><td>${formatRatio(insert, totalOperations)}</td></tr>
+    <tr><th>削除</th><td>${del}</td><td>${formatRatio(del, totalOperations)}</td></tr>
+    <tr><th>置換</th><td>${replace}</td><td>${formatRatio(replace, totalOperations)}</td></tr>
+</table>
+<h3>実行</h3>
+<table>
+    <tr><th>実行回数</th><td>${stats.runs}</td></tr>
+    <tr><th>失敗した実行</th><td>${stats.failedRuns} (${formatRatio(stats.failedRuns, stats.runs)})</td></tr>
+</table>
+<h3>エディタの診断</h3>
+<table>
+    <tr><th>解消したエラー・警告</th><td>${stats.resolvedDiagnostics}</td></tr>
+    <tr><th>解消までの平均時間</th><td>${formatDuration(stats.averageTimeToFix)}</td></tr>
+</table>
+<h3>よく発生した例外</h3>
+<table>
+    <tr><th>例外</th><th>回数</th></tr>
+    ${exceptionRows || '<tr><td colspan="2">なし</td></tr>'}
+</table>
+<h3>ファイル別</h3>
+<table>
+    <tr><th>ファイル</th><th>入力時間</th><th>キー入力数</th><th>実行回数</th><th>失敗</th></tr>
+    ${documentRows}
+</table>
+</body>
+</html>`;
+}
@@ -0,0 +1,266 @@
+import * as path from 'path';
+import { JournalEvent } from './journal';
+import { exceptionTypeOf } from './stats';
+
+// つまずきの検出ルールの種類
+// repeated_error: 同じ例外が短い間に繰り返し発生した
+// no_success: 作業を続けているのに、長い間実行が成功していない
+// edit_run_loop: 同じ行を直しては実行して失敗する、を繰り返している
+export type StruggleRuleKind = 'repeated_error' | 'no_success' | 'edit_run_loop';
+
+// つまずきの検出ルール（設定の Logger.struggleRules で指定する）
+// 例: { "id": "name-error", "kind": "repeated_error", "exceptionType": "NameError", "count": 3, "windowMinutes": 5 }
+export interface StruggleRule {
+    id: string;
+    kind: StruggleRuleKind;
+    // repeated_error: 対象の例外の型（省略時はどの例外でも、同じ型が繰り返されたとき）
+    exceptionType?: string;
+    // repeated_error / edit_run_loop: 期間内の回数
+    count?: number;
+    windowMinutes?: number;
+    // no_success: 成功していない時間（分）
+    minutes?: number;
+}
+
+// 検出したつまずき
+export interface StruggleMatch {
+    ruleId: string;
+    kind: StruggleRuleKind;
+    message: string;
+    detectedAt: string;
+    documentUri?: string;
+    file?: string;
+    line?: number;
+    exceptionType?: string;
+    count?: number;
+    // つまずきが始まったとみなす時刻
+    since?: string;
+}
+
+export const DEFAULT_STRUGGLE_RULES: StruggleRule[] = [
+    { id: 'repeated-error', kind: 'repeated_error', count: 3, windowMinutes: 5 },
+    { id: 'no-success', kind: 'no_success', minutes: 20 },
+    { id: 'edit-run-loop', kind: 'edit_run_loop', count: 4, windowMinutes: 10 }
+];
+
+const RULE_KINDS: StruggleRuleKind[] = ['repeated_error', 'no_success', 'edit_run_loop'];
+
+// 設定から読み込んだルールのうち、正しい形のものだけを返す
+export function validRules(value: any): StruggleRule[] {
+    if (!Array.isArray(value)) {
+        return DEFAULT_STRUGGLE_RULES;
+    }
+    const isCount = (count: any) => count === undefined || (typeof count === 'number' && count > 0);
+    return value.filter(rule =>
+        rule && typeof rule.id === 'string' && RULE_KINDS.includes(rule.kind) &&
+        (rule.exceptionType === undefined || typeof rule.exceptionType === 'string') &&
+        isCount(rule.count) && isCount(rule.windowMinutes) && isCount(rule.minutes));
+}
+
+// 例外の型ごとのヒント
+const EXCEPTION_HINTS: { [exceptionType: string]: string } = {
+    NameError: '変数や関数の名前のつづりと、使う前に定義しているかを確認してみましょう。',
+    SyntaxError: 'エラーの行とその1つ前の行で、括弧・引用符・コロンの閉じ忘れがないか確認してみましょう。',
+    IndentationError: 'インデント（行頭の空白）がそろっているか、タブと空白が混ざっていないか確認してみましょう。',
+    TypeError: '値の型を print(type(...)) で確かめてみましょう。文字列と数値を混ぜていませんか？',
+    IndexError: 'リストの長さと、使っている添字の範囲を print で確かめてみましょう。添字は0から始まります。',
+    KeyError: '辞書にそのキーがあるか、in や get() で確認してみましょう。',
+    AttributeError: 'その値が本当に想定している型か、メソッド名のつづりが正しいか確認してみましょう。',
+    ValueError: '変換しようとしている値（入力など）が想定どおりの形か、print で確かめてみましょう。',
+    ZeroDivisionError: '割る数が0になる場合があります。割る前に値を確かめてみましょう。',
+    ModuleNotFoundError: 'モジュール名のつづりと、パッケージがインストールされているかを確認してみましょう。',
+    RecursionError: '再帰の終了条件に到達しているか確認してみましょう。'
+};
+
+// ルールの種類ごとのヒント
+const KIND_HINTS: { [kind in StruggleRuleKind]: string } = {
+    repeated_error: '同じエラーが続いています。エラーメッセージの最後の行と、示されている行番号をもう一度読んでみましょう。',
+    no_success: 'しばらく実行が成功していません。小さな部分に分けて、1つずつ動作を確かめてみましょう。',
+    edit_run_loop: '同じ行で何度も失敗しています。その行で使っている値を print で表示して確かめてみましょう。'
+};
+
+// つまずきに合わせたヒント
+export function hintFor(match: StruggleMatch): string {
+    return (match.exceptionType && EXCEPTION_HINTS[match.exceptionType]) || KIND_HINTS[match.kind];
+}
+
+// 実行の成否（実行のイベントでなければ undefined）
+function runOutcome(event: JournalEvent): boolean | undefined {
+    if (event.type !== 'execution') {
+        return undefined;
+    }
+    switch (event.event) {
+        case 'execution_end':
+        case 'debug_end':
+        case 'cell_execution':
+            return event.exitCode === undefined ? undefined : event.exitCode === 0;
+        case 'terminal_command':
+            return event.commandKind === 'run' && event.exitCode !== undefined ? event.exitCode === 0 : undefined;
+        case 'test_run':
+            return event.testSummary ? event.testSummary.total > 0 && event.testSummary.passed === event.testSummary.total : undefined;
+        default:
+            return undefined;
+    }
+}
+
+function isRunError(event: JournalEvent): boolean {
+    return event.type === 'error' && /_execution_error$/.test(event.event || '');
+}
+
+// 作業とみなすイベント（編集・実行）
+function isWork(event: JournalEvent): boolean {
+    return event.type === 'edit' || event.type === 'key' || runOutcome(event) !== undefined;
+}
+
+// 失敗した行
+interface LineFailure {
+    time: number;
+    documentUri?: string;
+    line: number;
+}
+
+// イベントの流れを見ながら、ルールに当てはまるつまずきを検出する
+export class StruggleDetector {
+    // 例外の型ごとの発生時刻
+    private errorTimes: Map<string, number[]>;
+    // 行ごとの失敗（ファイルと行番号をつないだキー）
+    private lineFailures: Map<string, LineFailure[]>;
+    // 最後に成功した時刻（まだ成功していなければ最初に作業した時刻）
+    private since: number | null;
+    private lastWork: number | null;
+    private lastDocumentUri?: string;
+
+    constructor(private rules: StruggleRule[]) {
+        this.errorTimes = new Map();
+        this.lineFailures = new Map();
+        this.since = null;
+        this.lastWork = null;
+    }
+
+    // イベントを1件処理し、当てはまったつまずきを返す
+    public observe(event: JournalEvent): StruggleMatch[] {
+        const time = Date.parse(event.timestamp);
+        if (isNaN(time)) {
+            return [];
+        }
+
+        const matches: StruggleMatch[] = [];
+        if (isWork(event)) {
+            this.lastWork = time;
+            if (this.since === null) {
+                this.since = time;
+            }
+            if (event.documentUri) {
+                this.lastDocumentUri = event.documentUri;
+            }
+        }
+        if (runOutcome(event) === true) {
+            this.since = time;
+        }
+
+        if (isRunError(event)) {
+            matches.push(...this.observeError(event, time));
+            if (typeof event.failingLine === 'number') {
+                matches.push(...this.observeLineFailure(event, time));
+            }
+        }
+        return matches.concat(this.check(time));
+    }
+
+    // 時間の経過で当てはまるルール（no_success）を判定する
+    public check(now: number): StruggleMatch[] {
+        const matches: StruggleMatch[] = [];
+        for (const rule of this.rules.filter(rule => rule.kind === 'no_success')) {
+            const limit = (rule.minutes || 20) * 60 * 1000;
+            // 最近作業していない（席を離れている）場合はつまずきとしない
+            if (this.since === null || this.lastWork === null || now - this.lastWork > limit || now - this.since < limit) {
+                continue;
+            }
+            matches.push({
+                ruleId: rule.id,
+                kind: rule.kind,
+                message: `${Math.round((now - this.since) / 60000)} 分間、実行が成功していません`,
+                detectedAt: new Date(now).toISOString(),
+                documentUri: this.lastDocumentUri,
+                since: new Date(this.since).toISOString()
+            });
+            // 続けて検出しないよう、次の期間の起点にする
+            this.since = now;
+        }
+        return matches;
+    }
+
+    private observeError(event: JournalEvent, time: number): StruggleMatch[] {
+        const exceptionType = exceptionTypeOf(event) || 'Unknown';
+        const times = (this.errorTimes.get(exceptionType) || []).concat(time);
+        this.errorTimes.set(exceptionType, times);
+
+        const matches: StruggleMatch[] = [];
+        for (const rule of this.rules.filter(rule => rule.kind === 'repeated_error')) {
+            if (rule.exceptionType && rule.exceptionType !== exceptionType) {
+                continue;
+            }
+            const window = (rule.windowMinutes || 5) * 60 * 1000;
+            const recent = times.filter(other => time - other <= window);
+            if (recent.length < (rule.count || 3)) {
+                continue;
+            }
+            matches.push({
+                ruleId: rule.id,
+                kind: rule.kind,
+                message: `${rule.windowMinutes || 5} 分間に ${exceptionType} が ${recent.length} 回発生しました`,
+                detectedAt: new Date(time).toISOString(),
+                documentUri: event.documentUri,
+                exceptionType: exceptionType,
+                count: recent.length,
+                since: new Date(recent[0]).toISOString()
+            });
+        }
+        // 検出したら数え直す
+        if (matches.length > 0) {
+            this.errorTimes.set(exceptionType, []);
+        } else {
+            this.errorTimes.set(exceptionType, times.slice(-50));
+        }
+        return matches;
+    }
+
+    // 前回の失敗の後にその行を編集してから、また同じ行で失敗した回数を数える
+    private observeLineFailure(event: JournalEvent, time: number): StruggleMatch[] {
+        const key = `${event.documentUri}#${event.failingLine}`;
+        const failures = this.lineFailures.get(key) || [];
+        const previous = failures[failures.length - 1];
+        const editedSince = previous === undefined ||
+            (event.lastEditOfLine !== undefined && Date.parse(event.lastEditOfLine.timestamp) > previous.time);
+        const next = editedSince ? failures.concat({ time, documentUri: event.documentUri, line: event.failingLine }) : failures;
+        this.lineFailures.set(key, next.slice(-50));
+
+        const matches: StruggleMatch[] = [];
+        for (const rule of this.rules.filter(rule => rule.kind === 'edit_run_loop')) {
+            const window = (rule.windowMinutes || 10) * 60 * 1000;
+            const recent = next.filter(failure => time - failure.time <= window);
+            if (recent.length < (rule.count || 4)) {
+                continue;
+            }
+            const file = event.documentUri && event.documentUri.startsWith('file:')
+                ? path.basename(decodeURIComponent(new URL(event.documentUri).pathname))
+                : undefined;
+            matches.push({
+                ruleId: rule.id,
+                kind: rule.kind,
+                message: `${file ? `${file} の ` : ''}${event.failingLine} 行目を直しては失敗する、を ${recent.length} 回繰り返しています`,
+                detectedAt: new Date(time).toISOString(),
+                documentUri: event.documentUri,
+                file: file,
+                line: event.failingLine,
+                exceptionType: exceptionTypeOf(event),
+                count: recent.length,
+                since: new Date(recent[0].time).toISOString()
+            });
+        }
+        if (matches.length > 0) {
+            this.lineFailures.set(key, []);
+        }
+        return matches;
+    }
+}
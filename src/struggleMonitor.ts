@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+import { EventBatch, EventSink } from './eventSink';
+import { StruggleDetector, StruggleMatch, StruggleRule, hintFor } from './struggle';
+import { AlertNotifier, toTaAlert } from './taAlerts';
+
+// つまずきの検出に使う設定
+export interface StruggleOptions {
+    // 記録を一時停止している間も false になる
+    enabled: boolean;
+    rules: StruggleRule[];
+    // 検出したときに生徒にヒントを表示する
+    showHints: boolean;
+    // TAのダッシュボードに通知する
+    notifyTa: boolean;
+}
+
+// 時間の経過で当てはまるルールを判定する間隔
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+// ジャーナルに書き込まれたイベントをルールと照合し、つまずきを記録・通知する
+export class StruggleMonitor implements EventSink, vscode.Disposable {
+    private detector: StruggleDetector;
+    private rulesKey: string;
+    private timer: NodeJS.Timeout;
+    private studentId?: string;
+    private sessionId?: string;
+    private assignmentId?: string;
+
+    constructor(
+        private options: () => StruggleOptions,
+        private onDetected: (match: StruggleMatch) => void,
+        private notifier: AlertNotifier
+    ) {
+        const rules = this.options().rules;
+        this.detector = new StruggleDetector(rules);
+        this.rulesKey = JSON.stringify(rules);
+        this.timer = setInterval(() => this.check(), CHECK_INTERVAL_MS);
+    }
+
+    public publish(batch: EventBatch): void {
+        const options = this.refreshRules();
+        if (!options.enabled) {
+            return;
+        }
+
+        this.studentId = batch.studentId;
+        this.sessionId = batch.sessionId;
+        for (const event of batch.events) {
+            // 自分が記録した検出結果は照合しない
+            if (event.type === 'struggle') {
+                continue;
+            }
+            if (event.assignmentId) {
+                this.assignmentId = event.assignmentId;
+            }
+            this.detector.observe(event).forEach(match => this.handle(match, options));
+        }
+    }
+
+    private check(): void {
+        const options = this.refreshRules();
+        if (options.enabled) {
+            this.detector.check(Date.now()).forEach(match => this.handle(match, options));
+        }
+    }
+
+    // ルールが変わったら、検出の状態を作り直す
+    private refreshRules(): StruggleOptions {
+        const options = this.options();
+        const rulesKey = JSON.stringify(options.rules);
+        if (rulesKey !== this.rulesKey) {
+            this.detector = new StruggleDetector(options.rules);
+            this.rulesKey = rulesKey;
+        }
+        return options;
+    }
+
+    private handle(match: StruggleMatch, options: StruggleOptions): void {
+        this.onDetected(match);
+
+        if (options.showHints) {
+            vscode.window.showInformationMessage(`ヒント: ${hintFor(match)}`);
+        }
+        if (options.notifyTa && this.studentId && this.sessionId) {
+            this.notifier.send(toTaAlert(match, this.studentId, this.sessionId, this.assignmentId)).catch(error => {
+                console.error('Failed to notify TA:', error);
+            });
+        }
+    }
+
+    public dispose(): void {
+        clearInterval(this.timer);
+    }
+}
@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { ASSIGNMENT_FILE_NAME, Assignment, isPastDeadline, listAssignmentFiles } from './assignment';
+import { ZipEntry, writeZip } from './zipWriter';
+
+// 提出アーカイブに含めたファイル
+export interface SubmissionFile {
+    // アーカイブ内のパス
+    path: string;
+    sha256: string;
+    size: number;
+}
+
+// 提出アーカイブのマニフェスト（アーカイブ内の manifest.json）
+export interface SubmissionManifest {
+    assignmentId: string;
+    title?: string;
+    deadline?: string;
+    studentId: string;
+    submittedAt: string;
+    late: boolean;
+    files: SubmissionFile[];
+}
+
+// 課題の最終的なソース、すべてのセッションのログ、スナップショット、マニフェストを1つのZIPにまとめる
+export function buildSubmission(assignment: Assignment, studentId: string, target: string, submittedAt: Date): SubmissionManifest {
+    const entries: ZipEntry[] = [];
+    const add = (name: string, filePath: string) => {
+        entries.push({ name, data: fs.readFileSync(filePath), modified: fs.statSync(filePath).mtime });
+    };
+
+    // 最終的なソース
+    for (const file of listAssignmentFiles(assignment)) {
+        add(`sources/${path.relative(assignment.root, file).split(path.sep).join('/')}`, file);
+    }
+
+    // セッションのログ（パートファイル、ハッシュ連鎖、マニフェスト）とスナップショット
+    const logFolder = path.join(assignment.root, '.logs');
+    if (fs.existsSync(logFolder)) {
+        fs.readdirSync(logFolder, { withFileTypes: true })
+            .filter(entry => entry.isFile() && !entry.name.endsWith('.tmp'))
+            .forEach(entry => add(`logs/${entry.name}`, path.join(logFolder, entry.name)));
+
+        const snapshots = path.join(logFolder, 'snapshots');
+        if (fs.existsSync(snapshots)) {
+            fs.readdirSync(snapshots)
+                .filter(file => file.endsWith('.txt'))
+                .forEach(file => add(`logs/snapshots/${file}`, path.join(snapshots, file)));
+        }
+    }
+
+    const manifest: SubmissionManifest = {
+        assignmentId: assignment.id,
+        title: assignment.title,
+        deadline: assignment.deadline,
+        studentId: studentId,
+        submittedAt: submittedAt.toISOString(),
+        late: isPastDeadline(assignment, submittedAt),
+        files: entries.map(entry => ({
+            path: entry.name,
+            sha256: crypto.createHash('sha256').update(entry.data).digest('hex'),
+            size: entry.data.length
+        }))
+    };
+    entries.push({ name: 'manifest.json', data: Buffer.from(JSON.stringify(manifest, null, 2), 'utf8') });
+
+    writeZip(target, entries);
+    return manifest;
+}
+
+// 提出する課題を選択させる
+async function pickAssignment(assignments: Assignment[]): Promise<Assignment | undefined> {
+    if (assignments.length <= 1) {
+        return assignments[0];
+    }
+    const selected = await vscode.window.showQuickPick(
+        assignments.map(assignment => ({
+            label: assignment.id,
+            description: assignment.title,
+            detail: assignment.root,
+            assignment
+        })),
+        { placeHolder: '提出する課題を選択してください' }
+    );
+    return selected?.assignment;
+}
+
+// 提出アーカイブの既定のファイル名
+function defaultArchiveName(assignment: Assignment, studentId: string, date: Date): string {
+    const stamp = date.toISOString().replace(/[-:]/g, '').replace(/\..*$/, '');
+    return `${assignment.id}_${studentId}_${stamp}.zip`.replace(/[^\w.-]/g, '_');
+}
+
+// 課題の提出アーカイブを作成する
+// アーカイブを作る直前に onSubmit を呼び、提出の記録がアーカイブ内のログに含まれるようにする
+export async function submitAssignment(
+    assignments: Assignment[],
+    studentId: string,
+    onSubmit: (assignment: Assignment, archive: string) => void
+): Promise<void> {
+    if (assignments.length === 0) {
+        vscode.window.showErrorMessage(`課題の定義ファイル (${ASSIGNMENT_FILE_NAME}) がワークスペースにありません。`);
+        return;
+    }
+
+    const assignment = await pickAssignment(assignments);
+    if (!assignment) {
+        return;
+    }
+
+    const now = new Date();
+    if (isPastDeadline(assignment, now)) {
+        const proceed = await vscode.window.showWarningMessage(
+            `課題 ${assignment.id} の締め切り (${new Date(assignment.deadline!).toLocaleString()}) を過ぎています。提出しますか？`,
+            { modal: true },
+            '提出する'
+        );
+        if (!proceed) {
+            return;
+        }
+    }
+
+    // 未保存の変更を最終的なソースに含める
+    await vscode.workspace.saveAll(false);
+
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(path.join(assignment.root, '.submissions', defaultArchiveName(assignment, studentId, now))),
+        filters: { 'ZIP': ['zip'] }
+    });
+    if (!target) {
+        return;
+    }
+
+    try {
+        fs.mkdirSync(path.dirname(target.fsPath), { recursive: true });
+        onSubmit(assignment, target.fsPath);
+        const manifest = buildSubmission(assignment, studentId, target.fsPath, new Date());
+        const sources = manifest.files.filter(file => file.path.startsWith('sources/')).length;
+        vscode.window.showInformationMessage(
+            `提出アーカイブを作成しました（ソース ${sources} 件、全 ${manifest.files.length} ファイル）: ${target.fsPath}`
+        );
+    } catch (error) {
+        vscode.window.showErrorMessage(`提出アーカイブを作成できませんでした: ${error instanceof Error ? error.message : error}`);
+    }
+}
@@ -0,0 +1,115 @@
+import * as http from 'http';
+import * as https from 'https';
+import { StruggleMatch } from './struggle';
+
+// TAのダッシュボードに送る通知
+// ソースや例外のメッセージは含めず、どの生徒がどこでつまずいているかだけを伝える
+export interface TaAlert {
+    studentId: string;
+    sessionId: string;
+    assignmentId?: string;
+    detectedAt: string;
+    ruleId: string;
+    kind: string;
+    message: string;
+    file?: string;
+    line?: number;
+    exceptionType?: string;
+    count?: number;
+    since?: string;
+}
+
+// 通知の送り先（テストではローカルの代わりのものに差し替える）
+export interface AlertNotifier {
+    send(alert: TaAlert): Promise<void>;
+}
+
+// TAへの通知の送信設定
+export interface AlertOptions {
+    // 空なら送信しない
+    endpoint: string;
+    token: string;
+}
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// 検出したつまずきをTAへの通知にする
+export function toTaAlert(match: StruggleMatch, studentId: string, sessionId: string, assignmentId?: string): TaAlert {
+    return {
+        studentId: studentId,
+        sessionId: sessionId,
+        assignmentId: assignmentId,
+        detectedAt: match.detectedAt,
+        ruleId: match.ruleId,
+        kind: match.kind,
+        message: match.message,
+        file: match.file,
+        line: match.line,
+        exceptionType: match.exceptionType,
+        count: match.count,
+        since: match.since
+    };
+}
+
+// 設定から読み込んだエンドポイントが http(s) のURLならそのまま、そうでなければ空（送信しない）を返す
+// TAへの通知と収集サーバーへの送信の両方で使う
+export function validEndpoint(value: any): string {
+    if (typeof value !== 'string' || !value.trim()) {
+        return '';
+    }
+    try {
+        const url = new URL(value.trim());
+        return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : '';
+    } catch {
+        return '';
+    }
+}
+
+// ダッシュボードのエンドポイントにJSONでPOSTする
+// 通知は取りこぼしても記録（struggle_detected）は残るため、再送はしない
+export class HttpAlertNotifier implements AlertNotifier {
+    constructor(private options: () => AlertOptions) {}
+
+    public send(alert: TaAlert): Promise<void> {
+        const options = this.options();
+        if (!options.endpoint) {
+            return Promise.resolve();
+        }
+
+        return new Promise((resolve, reject) => {
+            const url = new URL(options.endpoint);
+            const body = JSON.stringify(alert);
+            const client = url.protocol === 'https:' ? https : http;
+            const request = client.request(url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Content-Length': Buffer.byteLength(body),
+                    'Authorization': `Bearer ${options.token}`
+                },
+                timeout: REQUEST_TIMEOUT_MS
+            }, response => {
+                response.resume();
+                const status = response.statusCode || 0;
+                if (status >= 200 && status < 300) {
+                    resolve();
+                } else {
+                    reject(new Error(`HTTP ${status}`));
+                }
+            });
+            request.on('timeout', () => request.destroy(new Error('Request timed out')));
+            request.on('error', reject);
+            request.end(body);
+        });
+    }
+}
+
+// 送った通知を手元に残すだけの送り先（ダッシュボードの代わり）
+export class RecordingAlertNotifier implements AlertNotifier {
+    public alerts: TaAlert[] = [];
+
+    public send(alert: TaAlert): Promise<void> {
+        this.alerts.push(alert);
+        return Promise.resolve();
+    }
+}
@@ -0,0 +1,189 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TerminalCommandKind, classifyCommand } from './commandLine';
+
+// ターミナルの出力をどこまで記録するか
+// none: 記録しない、failed: 終了コードが0以外のコマンドだけ、all: すべてのコマンド
+export type TerminalOutputMode = 'none' | 'failed' | 'all';
+
+// ターミナルで実行されたコマンドの通知
+export interface TerminalCommand {
+    commandLine: string;
+    // シェル統合がコマンドラインをどの程度確実に取得できたか（low / medium / high）
+    confidence: string;
+    cwd?: string;
+    terminalName: string;
+    kind: TerminalCommandKind;
+    // コマンドが参照している記録対象のファイル
+    file?: string;
+    languageId?: string;
+    // シェルが終了コードを報告しなかった場合は undefined
+    exitCode?: number;
+    duration: number;
+    output?: string;
+    outputTruncated?: boolean;
+}
+
+// ターミナルの記録に使う設定
+export interface TerminalOptions {
+    output: TerminalOutputMode;
+    // 記録する出力の上限（バイト、0なら無制限）
+    maxOutputBytes: number;
+}
+
+// 実行中のコマンド
+interface RunningCommand {
+    startTime: number;
+    output: string;
+    outputBytes: number;
+    truncated: boolean;
+    // 出力の読み取りが終わったら解決する
+    reading: Promise<void>;
+}
+
+// シェル統合の API（VS Code 1.93 から）
+// engines.vscode より新しいため @types/vscode にはなく、実行時に有無を確かめてから使う
+interface TerminalShellExecution {
+    readonly commandLine: { readonly value: string; readonly confidence: number };
+    readonly cwd: vscode.Uri | undefined;
+    read(): AsyncIterable<string>;
+}
+
+interface TerminalShellExecutionStartEvent {
+    readonly terminal: vscode.Terminal;
+    readonly execution: TerminalShellExecution;
+}
+
+interface TerminalShellExecutionEndEvent {
+    readonly terminal: vscode.Terminal;
+    readonly execution: TerminalShellExecution;
+    readonly exitCode: number | undefined;
+}
+
+interface ShellIntegrationWindow {
+    onDidStartTerminalShellExecution?: vscode.Event<TerminalShellExecutionStartEvent>;
+    onDidEndTerminalShellExecution?: vscode.Event<TerminalShellExecutionEndEvent>;
+}
+
+// TerminalShellExecutionCommandLineConfidence の値の名前
+const CONFIDENCES = ['low', 'medium', 'high'];
+
+// 拡張子からの言語ID（ファイルを開いていない場合に使う）
+const LANGUAGE_IDS: { [extension: string]: string } = {
+    '.py': 'python',
+    '.js': 'javascript',
+    '.ts': 'typescript',
+    '.java': 'java',
+    '.cs': 'csharp'
+};
+
+// ANSIエスケープシーケンス（色、カーソル移動、シェル統合の通知など）
+const ANSI_ESCAPE = /\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b\[[0-9;?]*[ -\/]*[@-~]|\x1b[@-Z\\-_]/g;
+
+// 出力からエスケープシーケンスを取り除く
+export function stripAnsi(text: string): string {
+    return text.replace(ANSI_ESCAPE, '');
+}
+
+// ファイルの言語ID（開いていればそのドキュメントの言語ID）
+function languageIdOf(filePath: string): string | undefined {
+    const document = vscode.workspace.textDocuments.find(doc => doc.fileName === filePath);
+    return document ? document.languageId : LANGUAGE_IDS[path.extname(filePath).toLowerCase()];
+}
+
+// シェル統合を使って、統合ターミナルで実行されたコマンドを追跡する
+// シェル統合のない VS Code（1.93 より前）やシェルでは何もしない
+export class TerminalTracker implements vscode.Disposable {
+    private disposables: vscode.Disposable[];
+    private running: Map<TerminalShellExecution, RunningCommand>;
+
+    constructor(
+        private isTrackedFile: (filePath: string, languageId: string) => boolean,
+        private options: () => TerminalOptions,
+        private onCommand: (command: TerminalCommand) => void
+    ) {
+        this.running = new Map();
+        this.disposables = [];
+
+        const window = vscode.window as ShellIntegrationWindow;
+        if (typeof window.onDidStartTerminalShellExecution !== 'function' || typeof window.onDidEndTerminalShellExecution !== 'function') {
+            return;
+        }
+        this.disposables.push(
+            window.onDidStartTerminalShellExecution(e => this.onStart(e.execution)),
+            window.onDidEndTerminalShellExecution(e => {
+                this.onEnd(e).catch(error => console.error('Failed to log terminal command:', error));
+            })
+        );
+    }
+
+    private onStart(execution: TerminalShellExecution): void {
+        const command: RunningCommand = {
+            startTime: Date.now(),
+            output: '',
+            outputBytes: 0,
+            truncated: false,
+            reading: Promise.resolve()
+        };
+
+        // 出力は開始直後から読まないと取りこぼすため、記録するかどうかは終了時に決める
+        const options = this.options();
+        if (options.output !== 'none') {
+            command.reading = (async () => {
+                for await (const data of execution.read()) {
+                    const text = stripAnsi(data);
+                    const bytes = Buffer.byteLength(text);
+                    if (options.maxOutputBytes > 0 && command.outputBytes + bytes > options.maxOutputBytes) {
+                        command.truncated = true;
+                        continue;
+                    }
+                    command.output += text;
+                    command.outputBytes += bytes;
+                }
+            })().catch(error => console.error('Failed to read terminal output:', error));
+        }
+        this.running.set(execution, command);
+    }
+
+    private async onEnd(e: TerminalShellExecutionEndEvent): Promise<void> {
+        const command = this.running.get(e.execution);
+        if (!command) {
+            return;
+        }
+        this.running.delete(e.execution);
+        const duration = Date.now() - command.startTime;
+        await command.reading;
+
+        const commandLine = e.execution.commandLine;
+        if (!commandLine.value.trim()) {
+            return;
+        }
+        const cwd = e.execution.cwd && e.execution.cwd.scheme === 'file' ? e.execution.cwd.fsPath : undefined;
+        // 言語の分からないファイル（データファイルなど）は対応づけない
+        const { kind, file } = classifyCommand(commandLine.value, cwd, filePath => {
+            const languageId = languageIdOf(filePath);
+            return languageId !== undefined && this.isTrackedFile(filePath, languageId);
+        });
+        const mode = this.options().output;
+        const recordOutput = mode === 'all' || (mode === 'failed' && e.exitCode !== undefined && e.exitCode !== 0);
+
+        this.onCommand({
+            commandLine: commandLine.value,
+            confidence: CONFIDENCES[commandLine.confidence] || 'low',
+            cwd: cwd,
+            terminalName: e.terminal.name,
+            kind: kind,
+            file: file,
+            languageId: file ? languageIdOf(file) : undefined,
+            exitCode: e.exitCode,
+            duration: duration,
+            output: recordOutput ? command.output : undefined,
+            outputTruncated: recordOutput && command.truncated ? true : undefined
+        });
+    }
+
+    public dispose(): void {
+        this.running.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
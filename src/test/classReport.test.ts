@@ -0,0 +1,136 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    DEFAULT_THRESHOLDS, STUDENT_CSV_COLUMNS, StudentSummary, buildClassReport, detectAnomalies, formatClassCsv, formatClassHtml,
+    summarizeStudent
+} from '../classReport';
+import { LogSession } from '../exporter';
+import { EventJournal, JournalEvent } from '../journal';
+import { SnapshotStore, snapshotFolder } from '../snapshotStore';
+
+// 基準の時刻から seconds 秒後のタイムスタンプ
+function at(seconds: number): string {
+    return new Date(Date.UTC(2024, 0, 1) + seconds * 1000).toISOString();
+}
+
+function session(sessionId: string, fileName: string, events: JournalEvent[]): LogSession {
+    return { studentId: 's1', sessionId, fileName, documentUri: null, sourceFiles: [], events };
+}
+
+function runError(seconds: number, exceptionType: string): JournalEvent {
+    return { type: 'error', timestamp: at(seconds), event: 'python_execution_error', message: 'failed', exceptionType };
+}
+
+// 指摘のない生徒の集計
+const SUMMARY: StudentSummary = {
+    studentId: 's1', sessions: 1, timeOnTask: 30 * 60 * 1000, activeTime: 30 * 60 * 1000, keystrokes: 500, typedChars: 500,
+    pasteCount: 0, pastedChars: 0, runs: 3, failedRuns: 1, errorTypes: [], integrityIssues: 0, flags: [],
+    files: [{ fileName: 'main.py', typedChars: 500, pasteCount: 0, pastedChars: 0, initialLength: 0, finalLength: 400 }]
+};
+
+suite('Class report', () => {
+    let root: string;
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'code-logger-report-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test('summarizes typing, pasting, runs and errors of a student', () => {
+        const summary = summarizeStudent('s1', [
+            session('a', 'main.py', [
+                { type: 'snapshot', timestamp: at(0), content: 'x' },
+                { type: 'key', timestamp: at(1), key: 'a' },
+                { type: 'key', timestamp: at(2), key: 'Delete' },
+                { type: 'edit', timestamp: at(3), text: 'abc', source: 'typing' },
+                { type: 'edit', timestamp: at(4), text: 'P'.repeat(300), source: 'paste' },
+                { type: 'edit', timestamp: at(5), text: 'Q'.repeat(10), largeInsert: true },
+                { type: 'edit', timestamp: at(6), text: 'undone', source: 'undo' },
+                { type: 'execution', timestamp: at(7), event: 'execution_end', exitCode: 1 },
+                runError(8, 'NameError'),
+                // セル単位のスナップショットはファイルの長さに使わない
+                { type: 'snapshot', timestamp: at(9), content: 'cell', cellId: 'c1' },
+                { type: 'snapshot', timestamp: at(10), content: 'y'.repeat(400) }
+            ]),
+            session('b', 'util.py', [
+                { type: 'execution', timestamp: at(100), event: 'execution_end', exitCode: 0 },
+                runError(101, 'TypeError'),
+                runError(102, 'NameError'),
+                { type: 'error', timestamp: at(103), event: 'diagnostic_appeared', message: 'x', exceptionType: 'SyntaxError' }
+            ])
+        ], 0);
+
+        assert.strictEqual(summary.sessions, 2);
+        assert.strictEqual(summary.keystrokes, 2);
+        assert.deepStrictEqual([summary.typedChars, summary.pasteCount, summary.pastedChars], [4, 2, 310]);
+        assert.deepStrictEqual([summary.runs, summary.failedRuns], [2, 1]);
+        assert.deepStrictEqual(summary.errorTypes, [{ type: 'NameError', count: 2 }, { type: 'TypeError', count: 1 }]);
+        assert.deepStrictEqual(summary.files.map(file => [file.fileName, file.initialLength, file.finalLength]), [
+            ['main.py', 1, 400],
+            ['util.py', null, null]
+        ]);
+        assert.deepStrictEqual(summary.flags.map(flag => flag.kind), ['little_typing', 'large_paste_share', 'short_time']);
+        assert.strictEqual(summary.flags[0].message, 'main.py: 400 文字のソースに対して入力は 4 文字');
+    });
+
+    test('flags never running and log integrity issues', () => {
+        assert.deepStrictEqual(detectAnomalies(SUMMARY), []);
+        assert.deepStrictEqual(detectAnomalies({ ...SUMMARY, runs: 0, integrityIssues: 2 }).map(flag => flag.kind), ['never_ran', 'log_integrity']);
+
+        // 短いソースは判定しない
+        const small = { ...SUMMARY, runs: 0, timeOnTask: 0, files: [{ ...SUMMARY.files[0], typedChars: 0, finalLength: 100 }] };
+        assert.deepStrictEqual(detectAnomalies(small), []);
+        assert.deepStrictEqual(detectAnomalies(small, { ...DEFAULT_THRESHOLDS, minSolutionLength: 50 }).map(flag => flag.kind), [
+            'little_typing', 'short_time', 'never_ran'
+        ]);
+    });
+
+    test('builds a report from the log folders of all students', () => {
+        // 生徒ごとのログフォルダにジャーナルを書き込む
+        const writeLog = (studentId: string, events: JournalEvent[]): string[] => {
+            const folder = path.join(root, studentId, '.logs', studentId);
+            fs.mkdirSync(folder, { recursive: true });
+            const journal = new EventJournal(path.join(folder, 'main.jsonl'), {
+                chained: true,
+                header: () => ({ type: 'session', timestamp: at(0), studentId, sessionId: 'abc', fileName: 'main.py' })
+            });
+            journal.append(events);
+            return journal.parts;
+        };
+
+        const content = 'print("hello")\n'.repeat(20);
+        const id = new SnapshotStore(snapshotFolder(path.join(root, 's1', '.logs', 's1'))).put(content);
+        writeLog('s1', [
+            { type: 'snapshot', timestamp: at(1), snapshotId: id },
+            { type: 'execution', timestamp: at(2), event: 'execution_end', exitCode: 1 },
+            runError(3, 'IndexError')
+        ]);
+        const parts = writeLog('s2', [{ type: 'key', timestamp: at(1), key: 'a' }, runError(2, 'IndexError'), runError(3, 'KeyError')]);
+        fs.writeFileSync(parts[0], fs.readFileSync(parts[0], 'utf8').replace('KeyError', 'ValueError'), 'utf8');
+        // 依存パッケージのフォルダは探さない
+        fs.mkdirSync(path.join(root, 'node_modules', 'x'), { recursive: true });
+        fs.writeFileSync(path.join(root, 'node_modules', 'x', 'other_part1.jsonl'), '', 'utf8');
+
+        const report = buildClassReport(root);
+        assert.deepStrictEqual(report.logFolders, [path.join(root, 's1', '.logs', 's1'), path.join(root, 's2', '.logs', 's2')]);
+        assert.deepStrictEqual(report.students.map(student => [student.studentId, student.integrityIssues]), [['s1', 0], ['s2', 1]]);
+        assert.strictEqual(report.students[0].files[0].finalLength, content.length);
+        assert.deepStrictEqual(report.students[0].flags.map(flag => flag.kind), ['little_typing', 'short_time']);
+        assert.deepStrictEqual(report.students[1].flags.map(flag => flag.kind), ['log_integrity']);
+        assert.deepStrictEqual(report.errorTypes, [{ type: 'IndexError', count: 2 }, { type: 'ValueError', count: 1 }]);
+
+        const csv = formatClassCsv(report).split('\r\n');
+        assert.strictEqual(csv[0], STUDENT_CSV_COLUMNS.join(','));
+        assert.strictEqual(csv[2], 's2,1,0.0,0.0,1,1,0,0,0,0,IndexError:1; ValueError:1,1,log_integrity');
+
+        const html = formatClassHtml({ ...report, root: '<class>' });
+        assert.ok(html.includes('&lt;class&gt;'));
+        assert.ok(html.includes('<tr><th>生徒数</th><td>2</td></tr>'));
+        assert.strictEqual(html.split('<tr class="flagged">').length - 1, 2);
+    });
+});
@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { classifyCommand, splitCommandLine } from '../commandLine';
+
+suite('Command line', () => {
+    let folder: string;
+
+    setup(() => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), 'code-logger-command-'));
+        fs.writeFileSync(path.join(folder, 'main.py'), 'print(1)\n', 'utf8');
+        fs.writeFileSync(path.join(folder, 'notes.txt'), '', 'utf8');
+    });
+
+    teardown(() => {
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    // .py のファイルだけを記録対象とする
+    const isTracked = (filePath: string) => filePath.endsWith('.py');
+    const classify = (commandLine: string) => classifyCommand(commandLine, folder, isTracked);
+
+    test('splits arguments and keeps quoted parts together', () => {
+        assert.deepStrictEqual(splitCommandLine('python  -u "my file.py" \'a b\'c'), ['python', '-u', 'my file.py', 'a bc']);
+        assert.deepStrictEqual(splitCommandLine('echo "" x'), ['echo', '', 'x']);
+        assert.deepStrictEqual(splitCommandLine('   '), []);
+    });
+
+    test('classifies running a tracked file', () => {
+        const main = path.join(folder, 'main.py');
+        assert.deepStrictEqual(classify('python3.11 -u main.py'), { kind: 'run', file: main });
+        assert.deepStrictEqual(classifyCommand(`/usr/bin/python3 "${main}"`, undefined, isTracked), { kind: 'run', file: main });
+        assert.deepStrictEqual(classify('./main.py'), { kind: 'run', file: main });
+        // 記録対象でないファイルや存在しないファイルは参照とみなさない
+        assert.deepStrictEqual(classify('python missing.py'), { kind: 'other', file: undefined });
+        assert.deepStrictEqual(classifyCommand('python main.py', undefined, isTracked), { kind: 'other', file: undefined });
+        assert.deepStrictEqual(classify('cat notes.txt main.py'), { kind: 'other', file: main });
+    });
+
+    test('classifies tests and installs', () => {
+        assert.strictEqual(classify('pytest -q').kind, 'test');
+        assert.strictEqual(classify('python -m pytest main.py').kind, 'test');
+        assert.strictEqual(classify('py -m unittest').kind, 'test');
+        assert.strictEqual(classify('pip3 install requests').kind, 'install');
+        assert.strictEqual(classify('python -m pip install numpy').kind, 'install');
+        assert.strictEqual(classify('NPM.exe install').kind, 'install');
+        assert.deepStrictEqual(classify(''), { kind: 'other' });
+    });
+});
@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import { parseErrorOutput } from '../errorParsers';
+
+suite('Error output parsers', () => {
+    test('parses a Node.js error with the outermost frame first', () => {
+        const parsed = parseErrorOutput('node', [
+            '/work/main.js:3',
+            '    throw new TypeError(\'bad value\');',
+            '',
+            'TypeError: bad value',
+            '    at check (/work/main.js:3:11)',
+            '    at /work/main.js:6:1',
+            '    at Module._compile (node:internal/modules/cjs/loader:1105:14)'
+        ].join('\r\n'));
+
+        assert.ok(parsed);
+        assert.strictEqual(parsed.type, 'TypeError');
+        assert.strictEqual(parsed.message, 'bad value');
+        assert.deepStrictEqual(parsed.frames.map(frame => [frame.file, frame.line, frame.function]), [
+            ['node:internal/modules/cjs/loader', 1105, 'Module._compile'],
+            ['/work/main.js', 6, '<anonymous>'],
+            ['/work/main.js', 3, 'check']
+        ]);
+    });
+
+    test('parses javac errors and Java exceptions', () => {
+        const compile = parseErrorOutput('java', 'Main.java:3: error: \';\' expected\n        int x = 1\n                 ^\n1 error\n');
+        assert.ok(compile);
+        assert.deepStrictEqual([compile.type, compile.message, compile.frames], ['CompileError', '\';\' expected', [{ file: 'Main.java', line: 3, function: '<compile>' }]]);
+
+        const runtime = parseErrorOutput('java', [
+            'Exception in thread "main" java.lang.ArithmeticException: / by zero',
+            '\tat Main.divide(Main.java:5)',
+            '\tat Main.main(Main.java:9)'
+        ].join('\n'));
+        assert.ok(runtime);
+        assert.strictEqual(runtime.type, 'java.lang.ArithmeticException');
+        assert.strictEqual(runtime.message, '/ by zero');
+        assert.deepStrictEqual(runtime.frames.map(frame => [frame.function, frame.line]), [['Main.main', 9], ['Main.divide', 5]]);
+    });
+
+    test('parses C# compiler errors and unhandled exceptions', () => {
+        const compile = parseErrorOutput('csharp', '/work/Program.cs(3,10): error CS1002: ; expected [/work/app.csproj]');
+        assert.ok(compile);
+        assert.deepStrictEqual([compile.type, compile.message, compile.frames[0].line], ['CS1002', '; expected', 3]);
+
+        const runtime = parseErrorOutput('csharp', [
+            'Unhandled exception. System.DivideByZeroException: Attempted to divide by zero.',
+            '   at Program.Divide(Int32 a) in /work/Program.cs:line 7',
+            '   at Program.Main() in /work/Program.cs:line 3'
+        ].join('\n'));
+        assert.ok(runtime);
+        assert.strictEqual(runtime.type, 'System.DivideByZeroException');
+        assert.deepStrictEqual(runtime.frames.map(frame => [frame.function, frame.file, frame.line]), [
+            ['Program.Main()', '/work/Program.cs', 3],
+            ['Program.Divide(Int32 a)', '/work/Program.cs', 7]
+        ]);
+    });
+
+    test('uses the Python traceback parser', () => {
+        const parsed = parseErrorOutput('python', 'Traceback (most recent call last):\r\n  File "main.py", line 2, in <module>\r\n    x\r\nNameError: name \'x\' is not defined\r\n');
+        assert.ok(parsed);
+        assert.strictEqual(parsed.type, 'NameError');
+        assert.deepStrictEqual(parsed.frames.map(frame => frame.line), [2]);
+    });
+
+    test('returns nothing for unknown output', () => {
+        assert.strictEqual(parseErrorOutput('node', 'done\n'), null);
+        assert.strictEqual(parseErrorOutput('java', 'error: file not found: Main.java\n'), null);
+        assert.strictEqual(parseErrorOutput('generic', 'TypeError: bad value\n'), null);
+    });
+});
@@ -0,0 +1,182 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    CSV_COLUMNS, EXPORT_SCHEMA_VERSION, LogSession, collectSessions, csvValue, exportLogs, filterSessions, formatCsv,
+    parseDateBound, toRecord, toXapiStatement
+} from '../exporter';
+import { JournalEvent } from '../journal';
+import { listLegacyLogs, readLegacyLog } from '../legacyLog';
+
+const BASE_URL = 'https://lms.example.edu/logger/';
+
+// 行ごとに JSON にしてファイルに書き込む
+function writeLines(filePath: string, entries: any[]): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, entries.map(entry => JSON.stringify(entry) + '\n').join(''), 'utf8');
+}
+
+function session(studentId: string, fileName: string | null, events: JournalEvent[]): LogSession {
+    return { studentId, sessionId: 'abc', fileName, documentUri: null, sourceFiles: [], events };
+}
+
+const EDIT: JournalEvent = {
+    type: 'edit', timestamp: '2024-01-01T10:00:00.000Z', documentUri: 'file:///work/main.py', text: 'a, "b"', operation: 'insert',
+    range: { start: { line: 1, character: 2 }, end: { line: 1, character: 4 } }, version: 3
+};
+const RUN: JournalEvent = { type: 'execution', timestamp: '2024-01-01T10:01:00.000Z', event: 'execution_end', exitCode: 0, duration: 1500 };
+const ERROR: JournalEvent = { type: 'error', timestamp: '2024-01-02T09:00:00.000Z', event: 'python_execution_error', message: 'failed', exceptionType: 'KeyError' };
+
+suite('Log export', () => {
+    let folder: string;
+
+    setup(() => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), 'code-logger-export-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    test('collects journals across parts and legacy logs', () => {
+        const header = { type: 'session', timestamp: '2024-01-01T09:59:00.000Z', studentId: 's2', sessionId: 'abc', fileName: 'main.py' };
+        writeLines(path.join(folder, 'main_part1.jsonl'), [header, EDIT]);
+        writeLines(path.join(folder, 'main_part2.jsonl'), [RUN]);
+        // セッションの情報がないジャーナルは読み飛ばす
+        writeLines(path.join(folder, 'broken_part1.jsonl'), [EDIT]);
+        fs.writeFileSync(path.join(folder, 'old_part1.json'), JSON.stringify({ studentId: 's1', sessionId: 'old', fileName: 'a.py', editLog: [EDIT] }), 'utf8');
+
+        const sessions = collectSessions([folder]);
+        assert.deepStrictEqual(sessions.map(entry => [entry.studentId, entry.sessionId, entry.fileName, entry.events.length]), [
+            ['s1', 'old', 'a.py', 1],
+            ['s2', 'abc', 'main.py', 2]
+        ]);
+        assert.deepStrictEqual(sessions[1].sourceFiles, [path.join(folder, 'main_part1.jsonl'), path.join(folder, 'main_part2.jsonl')]);
+    });
+
+    test('filters by student, file and period', () => {
+        const sessions = [
+            session('s1', 'hw1/main.py', [EDIT, RUN, ERROR]),
+            session('s2', 'hw1/main.py', [EDIT]),
+            session('s1', 'hw1/other_main.py', [EDIT])
+        ];
+
+        const filtered = filterSessions(sessions, {
+            studentIds: ['s1'],
+            files: ['main.py'],
+            from: parseDateBound('2024-01-01T10:00:30Z', false),
+            to: parseDateBound('2024-01-02T08:00:00Z', true)
+        });
+        assert.deepStrictEqual(filtered.map(entry => [entry.studentId, entry.fileName, entry.events]), [['s1', 'hw1/main.py', [RUN]]]);
+        assert.strictEqual(filterSessions(sessions, { files: ['hw1\\main.py'] }).length, 2);
+        assert.strictEqual(filterSessions(sessions, { to: new Date(0) }).length, 0);
+    });
+
+    test('reads a date without a time as the whole day', () => {
+        assert.deepStrictEqual(parseDateBound('2024-03-05', false), new Date(2024, 2, 5));
+        assert.deepStrictEqual(parseDateBound('2024-03-05', true), new Date(2024, 2, 5, 23, 59, 59, 999));
+        assert.strictEqual(parseDateBound(' ', false), undefined);
+        assert.strictEqual(parseDateBound('yesterday', false), undefined);
+    });
+
+    test('normalizes events into fixed columns', () => {
+        const record = toRecord(session('s1', 'main.py', []), EDIT);
+        assert.strictEqual(record.schemaVersion, EXPORT_SCHEMA_VERSION);
+        assert.strictEqual(record.documentUri, 'file:///work/main.py');
+        assert.deepStrictEqual([record.startLine, record.startCharacter, record.endLine, record.endCharacter], [1, 2, 1, 4]);
+        assert.strictEqual(record.exitCode, null);
+        assert.strictEqual(record.details, JSON.stringify({ version: 3 }));
+        assert.deepStrictEqual(Object.keys(record).sort(), CSV_COLUMNS.slice().sort());
+
+        assert.strictEqual(toRecord(session('s1', 'main.py', []), ERROR).exceptionType, 'KeyError');
+        assert.strictEqual(toRecord(session('s1', 'main.py', []), { ...RUN, exceptionType: 'KeyError' }).exceptionType, null);
+    });
+
+    test('quotes CSV values only when needed', () => {
+        assert.strictEqual(csvValue(null), '');
+        assert.strictEqual(csvValue(3), '3');
+        assert.strictEqual(csvValue('a, "b"'), '"a, ""b"""');
+        assert.strictEqual(csvValue('line\nbreak'), '"line\nbreak"');
+
+        const lines = formatCsv([toRecord(session('s1', 'main.py', []), EDIT)]).split('\r\n');
+        assert.strictEqual(lines[0], CSV_COLUMNS.join(','));
+        assert.ok(lines[1].startsWith(`${EXPORT_SCHEMA_VERSION},s1,abc,main.py,file:///work/main.py,${EDIT.timestamp},edit,,,insert,"a, ""b""",`));
+        assert.strictEqual(lines[2], '');
+    });
+
+    test('builds xAPI statements with stable ids', () => {
+        const source = session('s1', 'hw1/main.py', []);
+        const run = toXapiStatement(source, RUN, { baseUrl: BASE_URL });
+        assert.match(run.id, /^[0-9a-f]{8}-[0-9a-f]{4}-8[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+        assert.strictEqual(run.id, toXapiStatement(source, { ...RUN }, { baseUrl: BASE_URL }).id);
+        assert.notStrictEqual(run.id, toXapiStatement(session('s2', 'hw1/main.py', []), RUN, { baseUrl: BASE_URL }).id);
+        assert.strictEqual(run.verb.id, 'http://adlnet.gov/expapi/verbs/completed');
+        assert.deepStrictEqual(run.result, { success: true, duration: 'PT1.5S' });
+        assert.strictEqual(run.actor.account.homePage, 'https://lms.example.edu/logger');
+        assert.strictEqual(run.object.id, 'https://lms.example.edu/logger/xapi/activities/s1/main.py');
+
+        const error = toXapiStatement(source, ERROR, { baseUrl: BASE_URL });
+        assert.strictEqual(error.verb.id, 'https://lms.example.edu/logger/xapi/verbs/encountered');
+        assert.deepStrictEqual(error.result, { success: false, response: 'KeyError' });
+        assert.strictEqual(toXapiStatement(source, EDIT, { baseUrl: BASE_URL }).result, undefined);
+    });
+
+    test('exports the filtered logs in each format', () => {
+        writeLines(path.join(folder, 'main_part1.jsonl'), [
+            { type: 'session', timestamp: '2024-01-01T09:59:00.000Z', studentId: 's1', sessionId: 'abc', fileName: 'main.py' },
+            RUN, EDIT, ERROR
+        ]);
+        const xapi = { baseUrl: BASE_URL };
+
+        const jsonl = exportLogs([folder], 'jsonl', {}, xapi);
+        assert.strictEqual(jsonl.count, 3);
+        assert.deepStrictEqual(jsonl.content.trim().split('\n').map(line => JSON.parse(line).type), ['edit', 'execution', 'error']);
+
+        const csv = exportLogs([folder], 'csv', { from: parseDateBound('2024-01-01T12:00:00Z', false) }, xapi);
+        assert.strictEqual(csv.count, 1);
+        assert.strictEqual(csv.content.split('\r\n').length, 3);
+
+        const statements = exportLogs([folder], 'xapi', { studentIds: ['s2'] }, xapi);
+        assert.deepStrictEqual([statements.count, JSON.parse(statements.content)], [0, []]);
+    });
+});
+
+suite('Legacy logs', () => {
+    let folder: string;
+
+    setup(() => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), 'code-logger-legacy-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    test('merges the parts of a legacy log without duplicates', () => {
+        const key = { timestamp: '2024-01-01T10:00:02.000Z', key: 'a', position: { line: 0, character: 0 } };
+        const base = { studentId: 's1', sessionId: 'abc', fileName: 'main.py', errorLog: [], executionLog: [] };
+        fs.writeFileSync(path.join(folder, 'main_part2.json'), JSON.stringify({ ...base, editLog: [key, EDIT, { text: 'x' }], executionLog: [RUN] }), 'utf8');
+        fs.writeFileSync(path.join(folder, 'main_part1.json'), JSON.stringify({ ...base, editLog: [key] }), 'utf8');
+        fs.writeFileSync(path.join(folder, 'main_part3.json'), '{"studentId": "s1", "sessi', 'utf8');
+        fs.writeFileSync(path.join(folder, 'main.jsonl'), '', 'utf8');
+
+        const files = listLegacyLogs(folder);
+        assert.deepStrictEqual(files.map(file => file.parts.map(part => path.basename(part))), [['main_part1.json', 'main_part2.json', 'main_part3.json']]);
+
+        const log = readLegacyLog(files[0].parts);
+        assert.ok(log);
+        assert.deepStrictEqual(log.header, { type: 'session', timestamp: EDIT.timestamp, studentId: 's1', sessionId: 'abc', fileName: 'main.py' });
+        assert.deepStrictEqual(log.events.map(event => event.type), ['edit', 'key', 'execution']);
+        assert.deepStrictEqual(log.skipped.map(entry => [path.basename(entry.file), entry.location]), [
+            ['main_part2.json', 'editLog[2]'],
+            ['main_part3.json', undefined]
+        ]);
+    });
+
+    test('returns nothing when no part can be read', () => {
+        fs.writeFileSync(path.join(folder, 'main_part1.json'), JSON.stringify({ editLog: [] }), 'utf8');
+        assert.strictEqual(readLegacyLog([path.join(folder, 'main_part1.json')]), undefined);
+        assert.deepStrictEqual(listLegacyLogs(path.join(folder, 'missing')), []);
+    });
+});
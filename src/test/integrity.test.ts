@@ -0,0 +1,128 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { chainFileOf } from '../hashChain';
+import { IntegrityIssueKind, allIssues, isIntact, verifyFolder, verifyJournal } from '../integrity';
+import { EventJournal, JournalEvent, listJournals } from '../journal';
+
+const KEY = 'course-key';
+
+function event(index: number): JournalEvent {
+    return { type: 'edit', timestamp: `2024-01-01T00:00:${String(index).padStart(2, '0')}.000Z`, documentUri: 'file:///a.py', text: `line ${index}` };
+}
+
+suite('Log integrity', () => {
+    let folder: string;
+
+    setup(() => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), 'code-logger-integrity-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    // 連鎖でつないだジャーナルを書き込み、パートファイルの一覧を返す
+    function writeJournal(count: number, options: { maxFileSize?: number; key?: string } = {}): string[] {
+        const journal = new EventJournal(path.join(folder, 'log.jsonl'), {
+            chained: true,
+            maxFileSize: options.maxFileSize,
+            signingKey: () => options.key
+        });
+        for (let index = 1; index <= count; index++) {
+            journal.append([event(index)]);
+        }
+        return journal.parts;
+    }
+
+    function kindsOf(parts: string[], key?: string): IntegrityIssueKind[] {
+        return verifyJournal('log', parts, key).issues.map(issue => issue.kind);
+    }
+
+    // パートファイルの行を書き換える
+    function editLines(part: string, edit: (lines: string[]) => string[]): void {
+        const lines = fs.readFileSync(part, 'utf8').split('\n').filter(line => line);
+        fs.writeFileSync(part, edit(lines).map(line => line + '\n').join(''), 'utf8');
+    }
+
+    test('accepts an untouched journal across parts', () => {
+        const parts = writeJournal(20, { maxFileSize: 400, key: KEY });
+        assert.ok(parts.length > 1);
+
+        const result = verifyJournal('log', parts, KEY);
+        assert.deepStrictEqual(result.issues, []);
+        assert.strictEqual(result.eventCount, 20);
+        assert.ok(result.signed);
+        assert.ok(result.signatureVerified);
+    });
+
+    test('detects an altered event', () => {
+        const parts = writeJournal(3);
+        editLines(parts[0], lines => lines.map(line => line.replace('line 2', 'line X')));
+        assert.deepStrictEqual(kindsOf(parts), ['altered']);
+    });
+
+    test('detects a deleted event', () => {
+        const parts = writeJournal(3);
+        editLines(parts[0], lines => lines.filter((_, index) => index !== 1));
+        assert.deepStrictEqual(kindsOf(parts), ['chain_break']);
+    });
+
+    test('detects events removed from the end', () => {
+        const parts = writeJournal(3);
+        editLines(parts[0], lines => lines.slice(0, -1));
+        assert.deepStrictEqual(kindsOf(parts), ['head_mismatch']);
+    });
+
+    test('detects an event added without a hash', () => {
+        const parts = writeJournal(3);
+        editLines(parts[0], lines => lines.concat(JSON.stringify(event(4))));
+        assert.deepStrictEqual(kindsOf(parts), ['missing_hash']);
+    });
+
+    test('treats a line cut off by a crash as a warning', () => {
+        const parts = writeJournal(2);
+        fs.appendFileSync(parts[0], '{"type":"ed', 'utf8');
+        const journal = new EventJournal(path.join(folder, 'log.jsonl'), { chained: true });
+        journal.append([event(3)]);
+
+        const issues = verifyJournal('log', parts).issues;
+        assert.deepStrictEqual(issues.map(issue => [issue.kind, issue.severity]), [['truncated_line', 'warning']]);
+    });
+
+    test('detects a deleted part', () => {
+        const parts = writeJournal(20, { maxFileSize: 400 });
+        fs.unlinkSync(parts[0]);
+        assert.ok(kindsOf(parts.slice(1)).includes('missing_part'));
+    });
+
+    test('checks the signature of the chain file', () => {
+        const parts = writeJournal(3, { key: KEY });
+        assert.deepStrictEqual(kindsOf(parts, 'other-key'), ['signature_invalid']);
+
+        const chainFile = chainFileOf('log', folder);
+        const head = JSON.parse(fs.readFileSync(chainFile, 'utf8'));
+        fs.writeFileSync(chainFile, JSON.stringify({ ...head, count: head.count + 1 }), 'utf8');
+        assert.deepStrictEqual(kindsOf(parts, KEY), ['signature_invalid']);
+    });
+
+    test('reports an unsigned journal when a key is given', () => {
+        assert.deepStrictEqual(kindsOf(writeJournal(3), KEY), ['unsigned']);
+    });
+
+    test('detects a journal whose chain file is missing', () => {
+        const parts = writeJournal(3);
+        fs.unlinkSync(chainFileOf('log', folder));
+        assert.deepStrictEqual(kindsOf(parts), ['missing_chain_file']);
+    });
+
+    test('detects a deleted journal in the folder', () => {
+        writeJournal(3).forEach(part => fs.unlinkSync(part));
+
+        const result = verifyFolder(folder);
+        assert.strictEqual(listJournals(folder).length, 0);
+        assert.deepStrictEqual(allIssues(result).map(issue => issue.kind), ['missing_journal']);
+        assert.ok(!isIntact(result));
+    });
+});
@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EventJournal, JournalEvent, listJournals, readJournal, readJournalParts } from '../journal';
+
+function event(index: number, text: string = 'x'): JournalEvent {
+    return { type: 'edit', timestamp: `2024-01-01T00:00:${String(index).padStart(2, '0')}.000Z`, documentUri: 'file:///a.py', text: text };
+}
+
+suite('EventJournal', () => {
+    let folder: string;
+
+    setup(() => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), 'code-logger-journal-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    test('appends one event per line', () => {
+        const journal = new EventJournal(path.join(folder, 'log.jsonl'));
+        journal.append([event(1), event(2)]);
+        journal.append([event(3)]);
+
+        assert.strictEqual(journal.path, path.join(folder, 'log_part1.jsonl'));
+        assert.deepStrictEqual(readJournal(journal.path), [event(1), event(2), event(3)]);
+    });
+
+    test('rotates to the next part when the size limit is exceeded', () => {
+        const journal = new EventJournal(path.join(folder, 'log.jsonl'), { maxFileSize: 300 });
+        const events = [1, 2, 3, 4, 5].map(index => event(index, 'y'.repeat(60)));
+        journal.append(events);
+
+        assert.ok(journal.parts.length > 1);
+        journal.parts.forEach(part => assert.ok(fs.statSync(part).size <= 300));
+        assert.deepStrictEqual(readJournalParts(journal.parts), events);
+    });
+
+    test('writes the header at the top of every part', () => {
+        const journal = new EventJournal(path.join(folder, 'log.jsonl'), {
+            maxFileSize: 300,
+            header: part => ({ type: 'session', timestamp: '2024-01-01T00:00:00.000Z', part: part })
+        });
+        journal.append([1, 2, 3, 4, 5].map(index => event(index, 'y'.repeat(60))));
+
+        journal.parts.forEach((part, index) => {
+            assert.deepStrictEqual(readJournal(part)[0], { type: 'session', timestamp: '2024-01-01T00:00:00.000Z', part: index + 1 });
+        });
+    });
+
+    test('resumes after a line cut off by a crash', () => {
+        const filePath = path.join(folder, 'log_part1.jsonl');
+        fs.writeFileSync(filePath, JSON.stringify(event(1)) + '\n{"type":"ed', 'utf8');
+
+        const journal = new EventJournal(path.join(folder, 'log.jsonl'));
+        journal.append([event(2)]);
+
+        assert.deepStrictEqual(readJournal(filePath), [event(1), event(2)]);
+    });
+
+    test('resumes from the last existing part', () => {
+        new EventJournal(path.join(folder, 'log.jsonl'), { maxFileSize: 300 })
+            .append([1, 2, 3, 4, 5].map(index => event(index, 'y'.repeat(60))));
+        const parts = listJournals(folder)[0].parts;
+
+        const journal = new EventJournal(path.join(folder, 'log.jsonl'), { maxFileSize: 300 });
+        assert.strictEqual(journal.path, parts[parts.length - 1]);
+    });
+
+    test('lists journals with their parts in order', () => {
+        const journal = new EventJournal(path.join(folder, 'b.jsonl'), { maxFileSize: 100 });
+        for (let index = 1; index <= 12; index++) {
+            journal.append([event(index)]);
+        }
+        new EventJournal(path.join(folder, 'a.jsonl')).append([event(1)]);
+
+        const journals = listJournals(folder);
+        assert.deepStrictEqual(journals.map(found => found.name), ['a', 'b']);
+        assert.deepStrictEqual(journals[1].parts, journal.parts);
+    });
+});
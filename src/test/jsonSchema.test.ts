@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import { JsonSchema, validateJson } from '../jsonSchema';
+
+// カスタムイベントのペイロードのスキーマ
+const GRADED: JsonSchema = {
+    type: 'object',
+    required: ['score', 'tests'],
+    additionalProperties: false,
+    properties: {
+        score: { type: 'number', minimum: 0, maximum: 100 },
+        grade: { enum: ['A', 'B', 'C'] },
+        tests: { type: 'array', items: { $ref: '#/definitions/test' } },
+        comment: { type: ['string', 'null'], maxLength: 10 }
+    },
+    definitions: {
+        test: {
+            type: 'object',
+            required: ['name'],
+            properties: { name: { type: 'string', pattern: '^test_' }, passed: { type: 'boolean' } }
+        }
+    }
+};
+
+suite('JSON schema', () => {
+    test('accepts a valid payload', () => {
+        assert.deepStrictEqual(validateJson({ score: 87.5, grade: 'B', tests: [{ name: 'test_add', passed: true }], comment: null }, GRADED), []);
+    });
+
+    test('reports problems with their location', () => {
+        assert.deepStrictEqual(validateJson({ score: 120, grade: 'D', tests: [{ name: 'add' }, {}], extra: 1, comment: 'much too long' }, GRADED), [
+            '$.score: 100 以下である必要があります',
+            '$.grade: "A", "B", "C" のいずれかである必要があります',
+            '$.tests[0].name: パターン ^test_ に一致する必要があります',
+            '$.tests[1]: name がありません',
+            '$: extra は定義されていないプロパティです',
+            '$.comment: 10 文字以下である必要があります'
+        ]);
+        assert.deepStrictEqual(validateJson([], GRADED), ['$: object である必要があります (array)']);
+        assert.deepStrictEqual(validateJson({ score: 1 }, GRADED), ['$: tests がありません']);
+    });
+
+    test('distinguishes integers from numbers', () => {
+        assert.deepStrictEqual(validateJson(3, { type: 'number' }), []);
+        assert.deepStrictEqual(validateJson(3.5, { type: 'integer' }), ['$: integer である必要があります (number)']);
+        assert.deepStrictEqual(validateJson(1, { const: 1 }), []);
+        assert.deepStrictEqual(validateJson(2, { const: 1 }), ['$: 1 である必要があります']);
+    });
+
+    test('validates additional properties and alternatives', () => {
+        const counts: JsonSchema = { type: 'object', additionalProperties: { type: 'integer', minimum: 0 } };
+        assert.deepStrictEqual(validateJson({ a: 1, b: -1 }, counts), ['$.b: 0 以上である必要があります']);
+
+        const idOrName: JsonSchema = { anyOf: [{ type: 'integer' }, { type: 'string', minLength: 1 }] };
+        assert.deepStrictEqual(validateJson('x', idOrName), []);
+        assert.deepStrictEqual(validateJson('', idOrName), ['$: どの形式にも一致しません']);
+
+        const event: JsonSchema = {
+            oneOf: [
+                { type: 'object', required: ['key'], properties: { type: { const: 'key' }, key: { type: 'string' } } },
+                { type: 'object', required: ['text'], properties: { type: { const: 'edit' }, text: { type: 'string' } } }
+            ]
+        };
+        assert.deepStrictEqual(validateJson({ type: 'key', key: 'a' }, event), []);
+        // 一番近い候補の問題を返す
+        assert.deepStrictEqual(validateJson({ type: 'edit', text: 1 }, event), ['$.text: string である必要があります (integer)']);
+        assert.deepStrictEqual(validateJson({ key: 'a', text: 'b' }, event), ['$: 複数の形式に一致します']);
+        assert.deepStrictEqual(validateJson(1, { $ref: '#/definitions/missing' }), ['$: 参照先のないスキーマです (#/definitions/missing)']);
+    });
+});
@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import { TestCaseResult, formatTestResults, parseJUnitXml, summarizeTests } from '../junit';
+
+// pytest --junitxml の出力
+const XML = `<?xml version="1.0" encoding="utf-8"?>
+<testsuites><testsuite name="pytest" errors="1" failures="1" skipped="1" tests="5" time="0.051">
+<testcase classname="tests.test_calc" name="test_add" time="0.0012" />
+<testcase classname="tests.test_calc" name="test_div" time="0.003"><failure message="assert 1 == 2&#10;  where 1 = div(2, 2)">def test_div():
+&gt;       assert div(2, 2) == 2
+E       assert 1 == 2
+
+tests/test_calc.py:7: AssertionError</failure></testcase>
+<testcase classname="tests.test_calc" name="test_io" time="0"><error message="failed on setup with &quot;FileNotFoundError&quot;"><![CDATA[fixture 'data' <missing>]]></error></testcase>
+<testcase classname='tests.test_calc' name='test_slow' time='0'><skipped type="pytest.skip" message="slow test">tests/test_calc.py:12: slow test</skipped></testcase>
+<testcase name="test_top"></testcase>
+</testsuite></testsuites>`;
+
+suite('JUnit XML', () => {
+    test('reads the outcome of every test case', () => {
+        const results = parseJUnitXml(XML);
+        assert.deepStrictEqual(results.map(result => [result.id, result.outcome, result.duration]), [
+            ['tests.test_calc::test_add', 'passed', 1],
+            ['tests.test_calc::test_div', 'failed', 3],
+            ['tests.test_calc::test_io', 'error', 0],
+            ['tests.test_calc::test_slow', 'skipped', 0],
+            ['test_top', 'passed', 0]
+        ]);
+
+        assert.strictEqual(results[1].message, 'assert 1 == 2\n  where 1 = div(2, 2)');
+        assert.ok(results[1].details?.startsWith('def test_div():\n>       assert div(2, 2) == 2'));
+        assert.strictEqual(results[2].message, 'failed on setup with "FileNotFoundError"');
+        assert.strictEqual(results[2].details, 'fixture \'data\' <missing>');
+        assert.strictEqual(results[3].message, 'slow test');
+        assert.strictEqual(results[3].details, undefined);
+        assert.strictEqual(results[0].message, undefined);
+    });
+
+    test('keeps the end of long details', () => {
+        const traceback = 'x'.repeat(5000) + 'AssertionError';
+        const result = parseJUnitXml(`<testcase name="t"><failure>${traceback}</failure></testcase>`)[0];
+        assert.strictEqual(result.details, '...' + traceback.slice(-4000));
+    });
+
+    test('summarizes and formats the results', () => {
+        const results: TestCaseResult[] = parseJUnitXml(XML);
+        assert.deepStrictEqual(summarizeTests(results), { total: 5, passed: 2, failed: 1, errors: 1, skipped: 1 });
+        assert.deepStrictEqual(summarizeTests([]), { total: 0, passed: 0, failed: 0, errors: 0, skipped: 0 });
+
+        const lines = formatTestResults(results).split('\n');
+        assert.deepStrictEqual(lines.slice(0, 4), [
+            '✓ tests.test_calc::test_add (1ms)',
+            '✗ tests.test_calc::test_div (3ms)',
+            '    assert 1 == 2',
+            '      where 1 = div(2, 2)'
+        ]);
+        assert.strictEqual(lines[lines.length - 1], '合計 5 件: 成功 2、失敗 1、エラー 1、スキップ 1');
+    });
+});
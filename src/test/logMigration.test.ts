@@ -0,0 +1,155 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChainHead, GENESIS_HASH, chainEvent, chainFileOf, keyIdOf, signHead, writeChainHead } from '../hashChain';
+import { verifyJournal } from '../integrity';
+import { JournalEvent, listJournals, readJournal } from '../journal';
+import { LOG_SCHEMA_VERSION, validateEvent } from '../logSchema';
+import { MIGRATION_BACKUP_FOLDER, migrateLogs } from '../logMigration';
+
+const SESSION = { timestamp: '2024-01-01T00:00:00.000Z', studentId: 's1', sessionId: 'abc', fileName: 'main.py' };
+const KEY_EVENT = { timestamp: '2024-01-01T00:00:01.000Z', documentUri: 'file:///main.py', key: 'a', position: { line: 0, character: 0 } };
+const EDIT_EVENT = { timestamp: '2024-01-01T00:00:02.000Z', documentUri: 'file:///main.py', text: 'a', operation: 'insert' };
+
+// 行ごとに JSON にしてパートファイルに書き込む
+function writeLines(filePath: string, entries: any[]): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, entries.map(entry => JSON.stringify(entry) + '\n').join(''), 'utf8');
+}
+
+suite('Log migration', () => {
+    let root: string;
+    let folder: string;
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'code-logger-migration-'));
+        folder = path.join(root, '.logs', 's1');
+    });
+
+    teardown(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test('reports a journal without schemaVersion as outdated', () => {
+        writeLines(path.join(folder, 'log_part1.jsonl'), [SESSION, KEY_EVENT, EDIT_EVENT]);
+
+        const results = migrateLogs(root, { mode: 'validate' });
+        assert.deepStrictEqual(results.map(result => result.folder), [folder]);
+        const log = results[0].logs[0];
+        assert.strictEqual(log.status, 'outdated');
+        assert.strictEqual(log.fromVersion, 1);
+        assert.strictEqual(log.eventCount, 3);
+        assert.deepStrictEqual(log.issues, []);
+        assert.strictEqual(fs.readFileSync(path.join(folder, 'log_part1.jsonl'), 'utf8').split('\n')[0], JSON.stringify(SESSION));
+    });
+
+    test('migrates a journal in place and keeps the original', () => {
+        writeLines(path.join(folder, 'log_part1.jsonl'), [SESSION, KEY_EVENT, { nothing: true }, EDIT_EVENT]);
+
+        const result = migrateLogs(root, { mode: 'in_place' })[0];
+        const log = result.logs[0];
+        assert.strictEqual(log.status, 'migrated');
+        assert.deepStrictEqual(log.issues.map(issue => issue.location), ['3']);
+
+        const events = readJournal(path.join(folder, 'log_part1.jsonl'));
+        assert.deepStrictEqual(events.map(event => event.type), ['session', 'key', 'edit']);
+        assert.strictEqual(events[0].schemaVersion, LOG_SCHEMA_VERSION);
+        events.forEach(event => assert.deepStrictEqual(validateEvent(event), []));
+
+        assert.ok(result.backupFolder && result.backupFolder.startsWith(path.join(folder, MIGRATION_BACKUP_FOLDER)));
+        assert.deepStrictEqual(fs.readdirSync(result.backupFolder!), ['log_part1.jsonl']);
+        assert.deepStrictEqual(migrateLogs(root, { mode: 'validate' })[0].logs.map(migrated => migrated.status), ['current']);
+    });
+
+    test('copies migrated logs to another folder without touching the originals', () => {
+        const original = path.join(folder, 'log_part1.jsonl');
+        writeLines(original, [SESSION, KEY_EVENT]);
+        const before = fs.readFileSync(original, 'utf8');
+        const outRoot = path.join(root, 'out');
+
+        const result = migrateLogs(root, { mode: 'copy', outRoot: outRoot })[0];
+        assert.strictEqual(result.target, path.join(outRoot, '.logs', 's1'));
+        assert.strictEqual(fs.readFileSync(original, 'utf8'), before);
+        assert.strictEqual(readJournal(path.join(result.target, 'log_part1.jsonl'))[0].schemaVersion, LOG_SCHEMA_VERSION);
+        assert.throws(() => migrateLogs(root, { mode: 'copy' }));
+    });
+
+    test('rechains a signed journal with the course key', () => {
+        let head = GENESIS_HASH;
+        const linked = [SESSION, KEY_EVENT].map(entry => {
+            const event = chainEvent(head, entry);
+            head = event.hash;
+            return event;
+        });
+        writeLines(path.join(folder, 'log_part1.jsonl'), linked);
+        const chainHead: ChainHead = {
+            version: 1, algorithm: 'sha256', head: head, count: 2, parts: ['log_part1.jsonl'], updatedAt: SESSION.timestamp
+        };
+        chainHead.signature = { algorithm: 'hmac-sha256', keyId: keyIdOf('key'), value: signHead(chainHead, 'key') };
+        writeChainHead(chainFileOf('log', folder), chainHead);
+
+        assert.strictEqual(migrateLogs(root, { mode: 'in_place', signingKey: 'key' })[0].logs[0].status, 'migrated');
+        const journal = listJournals(folder)[0];
+        const verification = verifyJournal(journal.name, journal.parts, 'key');
+        assert.deepStrictEqual(verification.issues, []);
+        assert.ok(verification.signatureVerified);
+    });
+
+    test('does not migrate a chained journal that was altered', () => {
+        const event = chainEvent(GENESIS_HASH, SESSION);
+        writeLines(path.join(folder, 'log_part1.jsonl'), [{ ...event, studentId: 's2' }]);
+        writeChainHead(chainFileOf('log', folder), {
+            version: 1, algorithm: 'sha256', head: event.hash, count: 1, parts: ['log_part1.jsonl'], updatedAt: SESSION.timestamp
+        });
+
+        const log = migrateLogs(root, { mode: 'in_place' })[0].logs[0];
+        assert.strictEqual(log.status, 'skipped');
+        assert.strictEqual(readJournal(path.join(folder, 'log_part1.jsonl'))[0].studentId, 's2');
+    });
+
+    test('asks for the course key before migrating a signed journal', () => {
+        const event = chainEvent(GENESIS_HASH, SESSION);
+        writeLines(path.join(folder, 'log_part1.jsonl'), [event]);
+        writeChainHead(chainFileOf('log', folder), {
+            version: 1, algorithm: 'sha256', head: event.hash, count: 1, parts: ['log_part1.jsonl'], updatedAt: SESSION.timestamp,
+            signature: { algorithm: 'hmac-sha256', keyId: keyIdOf('key'), value: 'x' }
+        });
+
+        const log = migrateLogs(root, { mode: 'in_place' })[0].logs[0];
+        assert.strictEqual(log.status, 'skipped');
+        assert.ok(log.issues[0].message.includes('Logger.courseSigningKey'));
+    });
+
+    test('skips logs written by a newer version', () => {
+        writeLines(path.join(folder, 'log_part1.jsonl'), [{ ...SESSION, type: 'session', schemaVersion: LOG_SCHEMA_VERSION + 1 }]);
+        assert.strictEqual(migrateLogs(root, { mode: 'in_place' })[0].logs[0].status, 'skipped');
+    });
+
+    test('converts a legacy JSON log into a chained journal', () => {
+        // 以前の形式では各パートにその時点までのログがまとめて書かれている
+        const legacy = (editLog: any[]) => ({ studentId: 's1', sessionId: 'abc', fileName: 'main.py', editLog, errorLog: [], executionLog: [] });
+        fs.mkdirSync(folder, { recursive: true });
+        fs.writeFileSync(path.join(folder, 'old_part1.json'), JSON.stringify(legacy([KEY_EVENT]), null, 2), 'utf8');
+        fs.writeFileSync(path.join(folder, 'old_part2.json'), JSON.stringify(legacy([KEY_EVENT, EDIT_EVENT, {}]), null, 2), 'utf8');
+
+        const log = migrateLogs(root, { mode: 'in_place' })[0].logs[0];
+        assert.strictEqual(log.status, 'migrated');
+        assert.deepStrictEqual(log.issues.map(issue => issue.location), ['editLog[2]']);
+
+        const events = readJournal(path.join(folder, 'old_part1.jsonl'));
+        assert.deepStrictEqual(events.map(event => event.type), ['session', 'key', 'edit']);
+        assert.strictEqual(events[0].migratedFrom, 'legacy_json');
+        assert.deepStrictEqual(verifyJournal('old', [path.join(folder, 'old_part1.jsonl')]).issues, []);
+        assert.ok(!fs.existsSync(path.join(folder, 'old_part1.json')));
+    });
+
+    test('leaves current logs alone', () => {
+        const session: JournalEvent = { ...SESSION, type: 'session', schemaVersion: LOG_SCHEMA_VERSION };
+        writeLines(path.join(folder, 'log_part1.jsonl'), [session, { ...KEY_EVENT, type: 'key' }]);
+
+        const result = migrateLogs(root, { mode: 'in_place' })[0];
+        assert.deepStrictEqual(result.logs.map(log => [log.status, log.issues.length]), [['current', 0]]);
+        assert.strictEqual(result.backupFolder, undefined);
+    });
+});
@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import { JournalEvent } from '../journal';
+import { applyStep, buildReplay, positionToOffset } from '../replay';
+
+// 基準の時刻から seconds 秒後のタイムスタンプ
+function at(seconds: number): string {
+    return new Date(Date.UTC(2024, 0, 1) + seconds * 1000).toISOString();
+}
+
+function hashOf(text: string): string {
+    return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+function snapshot(seconds: number, version: number, content: string): JournalEvent {
+    return { type: 'snapshot', timestamp: at(seconds), documentUri: 'file:///main.py', version, content };
+}
+
+// line 行目の start から end までを text に置き換える編集
+function edit(seconds: number, version: number, line: number, start: number, end: number, text: string): JournalEvent {
+    return {
+        type: 'edit', timestamp: at(seconds), documentUri: 'file:///main.py', version, text,
+        range: { start: { line, character: start }, end: { line, character: end } }
+    };
+}
+
+function save(seconds: number, version: number, content: string): JournalEvent {
+    return { type: 'save', timestamp: at(seconds), documentUri: 'file:///main.py', version, contentHash: hashOf(content) };
+}
+
+suite('Session replay', () => {
+    test('converts positions to offsets within the line', () => {
+        const text = 'ab\r\ncde\nf';
+        assert.strictEqual(positionToOffset(text, 0, 1), 1);
+        assert.strictEqual(positionToOffset(text, 0, 5), 2);
+        assert.strictEqual(positionToOffset(text, 1, 2), 6);
+        assert.strictEqual(positionToOffset(text, 2, 0), 8);
+        assert.strictEqual(positionToOffset(text, 5, 0), text.length);
+        assert.strictEqual(applyStep('abcdef', { timestamp: at(0), start: 1, end: 3, text: 'X' }), 'aXdef');
+    });
+
+    test('returns nothing without a snapshot', () => {
+        assert.strictEqual(buildReplay([edit(1, 2, 0, 0, 0, 'a')]), null);
+    });
+
+    test('replays edits in version order from the snapshot', () => {
+        const replay = buildReplay([
+            { type: 'session', timestamp: at(0), fileName: 'main.py' },
+            snapshot(0, 1, 'print(1)\n'),
+            // スナップショット以前の変更は再生しない
+            edit(0, 1, 0, 0, 0, 'ignored'),
+            edit(2, 3, 1, 0, 0, 'x = 2'),
+            edit(1, 2, 0, 6, 7, '2')
+        ]);
+
+        assert.ok(replay);
+        assert.strictEqual(replay.fileName, 'main.py');
+        assert.strictEqual(replay.initialContent, 'print(1)\n');
+        assert.strictEqual(replay.finalContent, 'print(2)\nx = 2');
+        assert.deepStrictEqual(replay.steps.map(step => [step.start, step.end, step.text]), [[6, 7, '2'], [9, 9, 'x = 2']]);
+        assert.strictEqual(replay.hasGaps, false);
+    });
+
+    test('checks saves against the replayed content and reports gaps', () => {
+        const replay = buildReplay([
+            snapshot(0, 1, 'a'),
+            save(0, 1, 'a'),
+            edit(1, 2, 0, 1, 1, 'b'),
+            save(2, 2, 'ab'),
+            // バージョン3の変更は記録されていない
+            edit(3, 4, 0, 2, 2, 'c'),
+            save(4, 4, 'abXc')
+        ]);
+
+        assert.ok(replay);
+        assert.strictEqual(replay.fileName, 'file:///main.py');
+        assert.strictEqual(replay.hasGaps, true);
+        assert.deepStrictEqual(replay.saves.map(entry => [entry.step, entry.matches]), [[0, true], [1, true], [2, false]]);
+    });
+
+    test('places runs and errors on the timeline', () => {
+        const replay = buildReplay([
+            snapshot(0, 1, ''),
+            edit(1, 2, 0, 0, 0, 'a'),
+            { type: 'execution', timestamp: at(2), event: 'execution_end', exitCode: 1 },
+            { type: 'error', timestamp: at(2), event: 'python_execution_error', message: 'NameError: a' },
+            { type: 'error', timestamp: at(2), event: 'diagnostic_appeared', message: 'undefined name' },
+            edit(3, 3, 0, 1, 1, 'b'),
+            { type: 'execution', timestamp: at(4), event: 'execution_end', exitCode: 0 },
+            { type: 'execution', timestamp: at(5), event: 'debug_end' }
+        ]);
+
+        assert.ok(replay);
+        assert.deepStrictEqual(replay.markers.map(marker => [marker.step, marker.kind, marker.label, marker.failed]), [
+            [1, 'execution', '実行 (終了コード 1)', true],
+            [1, 'error', 'NameError: a', true],
+            [2, 'execution', '実行 (成功)', false],
+            [2, 'execution', 'デバッグ', false]
+        ]);
+    });
+});
@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SnapshotStore, snapshotFolder } from '../snapshotStore';
+
+suite('Snapshot store', () => {
+    let folder: string;
+
+    setup(() => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), 'code-logger-snapshot-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    test('stores the same content once under its hash', () => {
+        const store = new SnapshotStore(snapshotFolder(folder));
+        const id = store.put('print("こんにちは")\n');
+        assert.strictEqual(id, SnapshotStore.idOf('print("こんにちは")\n'));
+        assert.match(id, /^[0-9a-f]{64}$/);
+        assert.strictEqual(store.pathOf(id), path.join(folder, 'snapshots', `${id}.txt`));
+
+        // 既にある内容は書き込み直さない
+        fs.utimesSync(store.pathOf(id), new Date(0), new Date(0));
+        assert.strictEqual(store.put('print("こんにちは")\n'), id);
+        assert.strictEqual(fs.statSync(store.pathOf(id)).mtimeMs, 0);
+
+        assert.notStrictEqual(store.put('print(2)\n'), id);
+        assert.strictEqual(fs.readdirSync(snapshotFolder(folder)).length, 2);
+    });
+
+    test('reads stored snapshots back', () => {
+        const store = new SnapshotStore(snapshotFolder(folder));
+        assert.strictEqual(store.get(store.put('')), '');
+        assert.strictEqual(new SnapshotStore(snapshotFolder(folder)).get(SnapshotStore.idOf('a\r\nb')), undefined);
+        assert.strictEqual(store.get(store.put('a\r\nb')), 'a\r\nb');
+    });
+});
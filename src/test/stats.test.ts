@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import { JournalEvent } from '../journal';
+import { IDLE_THRESHOLD_MS, computeEngagedTime, computeStats, exceptionTypeOf, operationOf } from '../stats';
+
+// 基準の時刻から seconds 秒後のタイムスタンプ
+function at(seconds: number): string {
+    return new Date(Date.UTC(2024, 0, 1) + seconds * 1000).toISOString();
+}
+
+function key(seconds: number, extra: Partial<JournalEvent> = {}): JournalEvent {
+    return { type: 'key', timestamp: at(seconds), documentUri: 'file:///a.py', key: 'a', ...extra };
+}
+
+function activity(seconds: number, event: string, extra: Partial<JournalEvent> = {}): JournalEvent {
+    return { type: 'activity', timestamp: at(seconds), event, ...extra };
+}
+
+suite('Session stats', () => {
+    test('classifies edit operations', () => {
+        assert.strictEqual(operationOf({ type: 'edit', timestamp: at(0), operation: 'replace' }), 'replace');
+        assert.strictEqual(operationOf(key(0)), 'insert');
+        assert.strictEqual(operationOf(key(0, { key: 'Delete' })), 'delete');
+        assert.strictEqual(operationOf(key(0, { range: { start: { line: 0, character: 0 }, end: { line: 0, character: 2 } } })), 'replace');
+        assert.strictEqual(operationOf({ type: 'edit', timestamp: at(0) }), undefined);
+    });
+
+    test('takes the exception type from the traceback', () => {
+        assert.strictEqual(exceptionTypeOf({ type: 'error', timestamp: at(0), exceptionType: 'KeyError' }), 'KeyError');
+        assert.strictEqual(exceptionTypeOf({ type: 'error', timestamp: at(0), message: 'failed', stack: 'Traceback\n  File "a.py"\nValueError: bad' }), 'ValueError');
+        assert.strictEqual(exceptionTypeOf({ type: 'error', timestamp: at(0), message: 'failed' }), undefined);
+    });
+
+    test('counts input gaps up to the idle threshold as active time', () => {
+        const events = [key(0), key(10), key(70), key(250)];
+
+        const stats = computeStats(events);
+        assert.strictEqual(IDLE_THRESHOLD_MS, 120 * 1000);
+        assert.strictEqual(stats.totalTime, 250 * 1000);
+        assert.strictEqual(stats.activeTime, 70 * 1000);
+        assert.strictEqual(stats.idleTime, 180 * 1000);
+        assert.strictEqual(stats.keystrokes, 4);
+        assert.strictEqual(stats.operations.insert, 4);
+
+        // 設定した休止の閾値を使う
+        const short = computeStats(events, 30 * 1000);
+        assert.strictEqual(short.activeTime, 10 * 1000);
+        assert.strictEqual(short.idleTime, 240 * 1000);
+    });
+
+    test('counts runs, failures and exception types', () => {
+        const stats = computeStats([
+            { type: 'execution', timestamp: at(0), event: 'execution_end', exitCode: 0 },
+            { type: 'execution', timestamp: at(1), event: 'execution_end', exitCode: 1 },
+            { type: 'execution', timestamp: at(2), event: 'terminal_command', commandKind: 'run' },
+            { type: 'execution', timestamp: at(3), event: 'terminal_command', commandKind: 'install', exitCode: 1 },
+            { type: 'error', timestamp: at(4), event: 'python_execution_error', message: 'x', exceptionType: 'TypeError' },
+            { type: 'error', timestamp: at(5), event: 'python_execution_error', message: 'x', exceptionType: 'TypeError' },
+            { type: 'error', timestamp: at(6), event: 'python_execution_error', message: 'x', exceptionType: 'NameError' },
+            { type: 'error', timestamp: at(7), event: 'diagnostic_resolved', message: 'x', duration: 4000 },
+            { type: 'error', timestamp: at(8), event: 'diagnostic_resolved', message: 'x', duration: 2000 }
+        ]);
+
+        assert.strictEqual(stats.runs, 3);
+        assert.strictEqual(stats.failedRuns, 1);
+        assert.deepStrictEqual(stats.exceptionTypes, [{ type: 'TypeError', count: 2 }, { type: 'NameError', count: 1 }]);
+        assert.strictEqual(stats.resolvedDiagnostics, 2);
+        assert.strictEqual(stats.averageTimeToFix, 3000);
+        assert.strictEqual(stats.engagedTime, undefined);
+    });
+
+    test('returns no engaged time without activity events', () => {
+        assert.strictEqual(computeEngagedTime([key(0), key(10)]), undefined);
+    });
+
+    test('excludes unfocused, idle and paused time from engaged time', () => {
+        const engaged = computeEngagedTime([
+            activity(0, 'window_focus'),
+            key(10),
+            activity(20, 'window_blur'),
+            activity(50, 'window_focus'),
+            // 休止は最後の操作の時点から始まったものとする
+            activity(200, 'idle_start', { since: at(60) }),
+            activity(300, 'idle_end'),
+            { type: 'pause', timestamp: at(310), event: 'pause_start' },
+            { type: 'pause', timestamp: at(400), event: 'pause_end' },
+            key(405)
+        ]);
+
+        assert.strictEqual(engaged, (20 + 10 + 10 + 5) * 1000);
+    });
+});
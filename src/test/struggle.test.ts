@@ -0,0 +1,195 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { JournalEvent } from '../journal';
+import { DEFAULT_STRUGGLE_RULES, StruggleDetector, StruggleMatch, hintFor, validRules } from '../struggle';
+import { HttpAlertNotifier, RecordingAlertNotifier, TaAlert, toTaAlert, validEndpoint } from '../taAlerts';
+
+const START = Date.UTC(2024, 0, 1);
+
+// 基準の時刻から minutes 分後のタイムスタンプ
+function at(minutes: number): string {
+    return new Date(START + minutes * 60 * 1000).toISOString();
+}
+
+function runError(minutes: number, exceptionType: string, extra: Partial<JournalEvent> = {}): JournalEvent {
+    return {
+        type: 'error', timestamp: at(minutes), event: 'python_execution_error', documentUri: 'file:///work/main.py',
+        message: 'failed', exceptionType, ...extra
+    };
+}
+
+function run(minutes: number, exitCode: number): JournalEvent {
+    return { type: 'execution', timestamp: at(minutes), event: 'execution_end', documentUri: 'file:///work/main.py', exitCode };
+}
+
+function edit(minutes: number): JournalEvent {
+    return { type: 'edit', timestamp: at(minutes), documentUri: 'file:///work/main.py', text: 'a' };
+}
+
+// イベントを順に照合し、検出したルールの id を返す
+function detect(detector: StruggleDetector, events: JournalEvent[]): string[][] {
+    return events.map(event => detector.observe(event).map(match => match.ruleId));
+}
+
+suite('Struggle detection', () => {
+    test('detects the same exception repeated within the window and counts again after that', () => {
+        const detector = new StruggleDetector([{ id: 'repeated', kind: 'repeated_error', count: 3, windowMinutes: 5 }]);
+        assert.deepStrictEqual(detect(detector, [
+            runError(0, 'NameError'),
+            runError(1, 'TypeError'),
+            runError(2, 'NameError'),
+            runError(3, 'NameError'),
+            // 検出した後は数え直す
+            runError(4, 'NameError'),
+            runError(5, 'NameError'),
+            runError(6, 'NameError')
+        ]), [[], [], [], ['repeated'], [], [], ['repeated']]);
+    });
+
+    test('ignores errors outside the window and other exception types', () => {
+        const detector = new StruggleDetector([{ id: 'name-error', kind: 'repeated_error', exceptionType: 'NameError', count: 2, windowMinutes: 5 }]);
+        assert.deepStrictEqual(detect(detector, [
+            runError(0, 'TypeError'),
+            runError(1, 'TypeError'),
+            runError(2, 'NameError'),
+            runError(8, 'NameError'),
+            // 実行時のエラー以外は数えない
+            { type: 'error', timestamp: at(9), event: 'diagnostic', message: 'x', exceptionType: 'NameError' }
+        ]), [[], [], [], [], []]);
+
+        const match = detector.observe(runError(10, 'NameError'))[0];
+        assert.strictEqual(match.count, 2);
+        assert.strictEqual(match.since, at(8));
+        assert.strictEqual(match.message, '5 分間に NameError が 2 回発生しました');
+    });
+
+    test('detects failing on the same line after editing it', () => {
+        const detector = new StruggleDetector([{ id: 'loop', kind: 'edit_run_loop', count: 3, windowMinutes: 10 }]);
+        const failure = (minutes: number, editedAt: number): JournalEvent =>
+            runError(minutes, 'IndexError', { failingLine: 7, lastEditOfLine: { timestamp: at(editedAt) } });
+
+        assert.deepStrictEqual(detect(detector, [
+            failure(0, 0),
+            // 直さずに実行し直した失敗は数えない
+            failure(1, 0),
+            failure(2, 1.5),
+            runError(3, 'IndexError', { failingLine: 8, lastEditOfLine: { timestamp: at(2.5) } })
+        ]), [[], [], [], []]);
+
+        const match = detector.observe(failure(4, 3.5))[0];
+        assert.strictEqual(match.ruleId, 'loop');
+        assert.strictEqual(match.file, 'main.py');
+        assert.strictEqual(match.line, 7);
+        assert.strictEqual(match.count, 3);
+        assert.strictEqual(match.since, at(0));
+        assert.strictEqual(match.exceptionType, 'IndexError');
+    });
+
+    test('detects working without a successful run once per period', () => {
+        const detector = new StruggleDetector([{ id: 'no-success', kind: 'no_success', minutes: 20 }]);
+        assert.deepStrictEqual(detect(detector, [edit(0), run(5, 1), edit(15), run(19, 1)]), [[], [], [], []]);
+
+        const matches = detector.observe(edit(21));
+        assert.deepStrictEqual(matches.map(match => [match.ruleId, match.since]), [['no-success', at(0)]]);
+        assert.strictEqual(matches[0].documentUri, 'file:///work/main.py');
+        // 検出した時刻が次の期間の起点になる
+        assert.deepStrictEqual(detector.check(START + 30 * 60 * 1000), []);
+        assert.strictEqual(detector.check(START + 41 * 60 * 1000).length, 1);
+    });
+
+    test('does not report no success after a successful run or while away', () => {
+        const detector = new StruggleDetector([{ id: 'no-success', kind: 'no_success', minutes: 20 }]);
+        detect(detector, [edit(0), run(10, 0), edit(25)]);
+        assert.deepStrictEqual(detector.check(START + 29 * 60 * 1000), []);
+
+        // 最後の作業から時間が経っている場合は席を離れているとみなす
+        assert.deepStrictEqual(detector.check(START + 50 * 60 * 1000), []);
+    });
+
+    test('keeps only well-formed rules', () => {
+        assert.strictEqual(validRules(undefined), DEFAULT_STRUGGLE_RULES);
+        assert.deepStrictEqual(validRules([
+            { id: 'a', kind: 'repeated_error', count: 2 },
+            { id: 'b', kind: 'unknown' },
+            { id: 'c', kind: 'no_success', minutes: 0 },
+            { kind: 'edit_run_loop' },
+            { id: 'd', kind: 'repeated_error', exceptionType: 1 },
+            null
+        ]).map(rule => rule.id), ['a']);
+    });
+
+    test('gives a hint for the exception type or the rule kind', () => {
+        const match: StruggleMatch = { ruleId: 'x', kind: 'edit_run_loop', message: '', detectedAt: at(0) };
+        assert.ok(hintFor({ ...match, exceptionType: 'KeyError' }).includes('辞書'));
+        assert.ok(hintFor({ ...match, exceptionType: 'MyError' }).includes('print'));
+    });
+});
+
+suite('TA alerts', () => {
+    test('sends detected struggles to the notifier without the source', async () => {
+        const detector = new StruggleDetector(DEFAULT_STRUGGLE_RULES);
+        const notifier = new RecordingAlertNotifier();
+        for (const event of [0, 1, 2].map(minutes => runError(minutes, 'ZeroDivisionError', { stack: 'secret source' }))) {
+            for (const match of detector.observe(event)) {
+                await notifier.send(toTaAlert(match, 's1', 'abc', 'hw1'));
+            }
+        }
+
+        assert.deepStrictEqual(notifier.alerts, [{
+            studentId: 's1',
+            sessionId: 'abc',
+            assignmentId: 'hw1',
+            detectedAt: at(2),
+            ruleId: 'repeated-error',
+            kind: 'repeated_error',
+            message: '5 分間に ZeroDivisionError が 3 回発生しました',
+            file: undefined,
+            line: undefined,
+            exceptionType: 'ZeroDivisionError',
+            count: 3,
+            since: at(0)
+        }]);
+    });
+
+    test('accepts only http(s) endpoints', () => {
+        assert.strictEqual(validEndpoint(' https://example.com/alerts '), 'https://example.com/alerts');
+        assert.strictEqual(validEndpoint('http://127.0.0.1:8080'), 'http://127.0.0.1:8080/');
+        assert.strictEqual(validEndpoint('example.com/alerts'), '');
+        assert.strictEqual(validEndpoint('file:///tmp/alerts'), '');
+        assert.strictEqual(validEndpoint(''), '');
+        assert.strictEqual(validEndpoint(42), '');
+    });
+
+    test('rejects an invalid endpoint and skips an empty one', async () => {
+        const alert = toTaAlert({ ruleId: 'x', kind: 'no_success', message: 'm', detectedAt: at(0) }, 's1', 'abc');
+        await new HttpAlertNotifier(() => ({ endpoint: '', token: 't' })).send(alert);
+        await assert.rejects(new HttpAlertNotifier(() => ({ endpoint: 'not a url', token: 't' })).send(alert));
+    });
+
+    test('posts the alert to the dashboard', async () => {
+        let received: { authorization?: string; alert?: TaAlert } = {};
+        const server = http.createServer((request, response) => {
+            let body = '';
+            request.on('data', chunk => body += chunk);
+            request.on('end', () => {
+                received = { authorization: request.headers.authorization, alert: JSON.parse(body) };
+                response.statusCode = request.url === '/alerts' ? 204 : 404;
+                response.end();
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        const address = server.address();
+        const endpoint = `http://127.0.0.1:${address && typeof address === 'object' ? address.port : 0}`;
+
+        try {
+            const alert = toTaAlert({ ruleId: 'x', kind: 'no_success', message: 'm', detectedAt: at(0) }, 's1', 'abc');
+            await new HttpAlertNotifier(() => ({ endpoint: `${endpoint}/alerts`, token: 't' })).send(alert);
+            assert.strictEqual(received.authorization, 'Bearer t');
+            assert.deepStrictEqual(received.alert, JSON.parse(JSON.stringify(alert)));
+
+            await assert.rejects(new HttpAlertNotifier(() => ({ endpoint: `${endpoint}/other`, token: 't' })).send(alert), /HTTP 404/);
+        } finally {
+            await new Promise(resolve => server.close(resolve));
+        }
+    });
+});
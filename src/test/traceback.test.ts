@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import { failingLine, parseTraceback } from '../traceback';
+
+suite('parseTraceback', () => {
+    test('parses the frames and the exception', () => {
+        const traceback = parseTraceback([
+            'Traceback (most recent call last):',
+            '  File "/work/main.py", line 5, in <module>',
+            '    main()',
+            '  File "/work/main.py", line 3, in main',
+            '    print(values[3])',
+            'IndexError: list index out of range',
+            ''
+        ].join('\n'));
+
+        assert.ok(traceback);
+        assert.strictEqual(traceback.type, 'IndexError');
+        assert.strictEqual(traceback.message, 'list index out of range');
+        assert.deepStrictEqual(traceback.frames, [
+            { file: '/work/main.py', line: 5, function: '<module>', source: 'main()' },
+            { file: '/work/main.py', line: 3, function: 'main', source: 'print(values[3])' }
+        ]);
+        assert.deepStrictEqual(traceback.chain, []);
+        assert.strictEqual(failingLine(traceback, '/work/main.py'), 3);
+    });
+
+    test('ignores output printed before the traceback', () => {
+        const traceback = parseTraceback([
+            'Error: invalid input',
+            'Traceback (most recent call last):',
+            '  File "main.py", line 1, in <module>',
+            '    int("a")',
+            'ValueError: invalid literal for int() with base 10: \'a\''
+        ].join('\r\n'));
+
+        assert.ok(traceback);
+        assert.strictEqual(traceback.type, 'ValueError');
+        assert.strictEqual(traceback.frames.length, 1);
+    });
+
+    test('records chained exceptions', () => {
+        const traceback = parseTraceback([
+            'Traceback (most recent call last):',
+            '  File "main.py", line 2, in <module>',
+            '    data["key"]',
+            'KeyError: \'key\'',
+            '',
+            'The above exception was the direct cause of the following exception:',
+            '',
+            'Traceback (most recent call last):',
+            '  File "main.py", line 4, in <module>',
+            '    raise RuntimeError("missing") from e',
+            'RuntimeError: missing'
+        ].join('\n'));
+
+        assert.ok(traceback);
+        assert.strictEqual(traceback.type, 'RuntimeError');
+        assert.strictEqual(traceback.chain.length, 1);
+        assert.strictEqual(traceback.chain[0].relation, 'cause');
+        assert.strictEqual(traceback.chain[0].exception.type, 'KeyError');
+    });
+
+    test('locates the caret of a SyntaxError', () => {
+        const traceback = parseTraceback([
+            '  File "/work/main.py", line 2',
+            '    if x == 1',
+            '             ^',
+            'SyntaxError: expected \':\''
+        ].join('\n'));
+
+        assert.ok(traceback);
+        assert.deepStrictEqual(traceback.syntaxError, { file: '/work/main.py', line: 2, source: 'if x == 1', column: 9, length: 1 });
+        assert.strictEqual(failingLine(traceback, 'C:\\other\\main.py'), 2);
+    });
+
+    test('finds the innermost frame in the given file', () => {
+        const traceback = parseTraceback([
+            'Traceback (most recent call last):',
+            '  File "./main.py", line 7, in <module>',
+            '    helper.run()',
+            '  File "/usr/lib/python3/helper.py", line 10, in run',
+            '    raise ValueError()',
+            'ValueError'
+        ].join('\n'));
+
+        assert.ok(traceback);
+        assert.strictEqual(traceback.message, '');
+        assert.strictEqual(failingLine(traceback, '/work/main.py'), 7);
+        assert.strictEqual(failingLine(traceback, '/work/other.py'), undefined);
+    });
+
+    test('accepts a bare exception line only when it names an exception', () => {
+        assert.strictEqual(parseTraceback('hello\nDone: 3 items\n'), null);
+        assert.strictEqual(parseTraceback('finished\n'), null);
+        assert.strictEqual(parseTraceback('KeyboardInterrupt\n')?.type, 'KeyboardInterrupt');
+        assert.strictEqual(parseTraceback('mymodule.CustomError: failed\n')?.type, 'mymodule.CustomError');
+    });
+});
@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { EventBatch } from '../eventSink';
+import { readJournal } from '../journal';
+import { startUploadServer } from '../uploadServer';
+import { UploadQueue, UploadStatus } from '../uploader';
+
+const BATCH: EventBatch = {
+    studentId: 's1',
+    sessionId: 'abc',
+    fileName: 'main.py',
+    events: [
+        { type: 'edit', timestamp: '2024-01-01T00:00:00.000Z', documentUri: 'file:///a.py', fileName: 'a.py', text: 'a' },
+        { type: 'key', timestamp: '2024-01-01T00:00:01.000Z', documentUri: 'file:///main.py', key: 'b' }
+    ]
+};
+
+// 条件を満たすまで待つ
+async function waitFor(condition: () => boolean, timeoutMs: number = 2000): Promise<void> {
+    for (let i = 0; i < timeoutMs / 10 && !condition(); i++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    assert.ok(condition(), 'timed out');
+}
+
+suite('UploadQueue', () => {
+    let folder: string;
+    let server: http.Server;
+    let port: number;
+    let endpoint: string;
+    let queue: UploadQueue | undefined;
+
+    // 収集サーバーを起動する（port が 0 なら空いているポートを使う）
+    async function startServer(): Promise<void> {
+        server = await startUploadServer({ port: port, outputFolder: path.join(folder, 'received'), tokens: { s1: 'good' } });
+        const address = server.address();
+        port = address && typeof address === 'object' ? address.port : 0;
+        endpoint = `http://127.0.0.1:${port}/events`;
+    }
+
+    setup(async () => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), 'code-logger-upload-'));
+        port = 0;
+        await startServer();
+    });
+
+    teardown(async () => {
+        queue?.dispose();
+        queue = undefined;
+        await new Promise(resolve => server.close(resolve));
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    function createQueue(token: string): { queue: UploadQueue; status: () => UploadStatus | undefined } {
+        let status: UploadStatus | undefined;
+        queue = new UploadQueue(path.join(folder, 'upload-queue'), () => ({ endpoint, token, batchSize: 10 }), changed => status = changed);
+        return { queue, status: () => status };
+    }
+
+    test('delivers events and keeps each event\'s own fileName', async () => {
+        const { queue, status } = createQueue('good');
+        queue.publish(BATCH);
+        await waitFor(() => status()?.pending === 0 && !status()?.sending);
+
+        const events = readJournal(path.join(folder, 'received', 's1', 'abc.jsonl'));
+        assert.deepStrictEqual(events.map(event => event.fileName), ['a.py', 'main.py']);
+        assert.strictEqual(status()?.rejected, 0);
+    });
+
+    test('stops retrying a batch the server rejects', async () => {
+        const { queue, status } = createQueue('bad');
+        queue.publish(BATCH);
+        await waitFor(() => status()?.rejected === 2);
+
+        assert.strictEqual(status()?.pending, 0);
+        assert.strictEqual(status()?.lastError, 'HTTP 401');
+        assert.strictEqual(status()?.nextRetry, undefined);
+        assert.strictEqual(fs.readdirSync(path.join(folder, 'upload-queue', 'rejected')).length, 1);
+    });
+
+    test('keeps events while offline and delivers them when the server returns', async function () {
+        this.timeout(10000);
+        await new Promise(resolve => server.close(resolve));
+
+        const { queue, status } = createQueue('good');
+        queue.publish(BATCH);
+        await waitFor(() => status()?.nextRetry !== undefined);
+        assert.strictEqual(status()?.pending, 2);
+        assert.ok(status()?.lastError);
+        assert.strictEqual(fs.readdirSync(path.join(folder, 'upload-queue')).filter(file => file.endsWith('.json')).length, 1);
+
+        // 再送を待つ間にサーバーが戻る
+        await startServer();
+        await waitFor(() => status()?.pending === 0 && !status()?.sending, 8000);
+
+        assert.strictEqual(status()?.lastError, undefined);
+        assert.strictEqual(readJournal(path.join(folder, 'received', 's1', 'abc.jsonl')).length, 2);
+        assert.deepStrictEqual(fs.readdirSync(path.join(folder, 'upload-queue')), []);
+    });
+});
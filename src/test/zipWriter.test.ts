@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { crc32, writeZip } from '../zipWriter';
+
+// 中央ディレクトリをたどってアーカイブ内のファイルを読み出す
+function readZip(filePath: string): { name: string; data: Buffer; crc: number; flags: number }[] {
+    const archive = fs.readFileSync(filePath);
+    const end = archive.length - 22;
+    assert.strictEqual(archive.readUInt32LE(end), 0x06054b50);
+
+    const files = [];
+    let position = archive.readUInt32LE(end + 16);
+    for (let i = 0; i < archive.readUInt16LE(end + 10); i++) {
+        assert.strictEqual(archive.readUInt32LE(position), 0x02014b50);
+        const nameLength = archive.readUInt16LE(position + 28);
+        const name = archive.toString('utf8', position + 46, position + 46 + nameLength);
+        const local = archive.readUInt32LE(position + 42);
+        assert.strictEqual(archive.readUInt32LE(local), 0x04034b50);
+        const dataStart = local + 30 + archive.readUInt16LE(local + 26);
+        const compressed = archive.subarray(dataStart, dataStart + archive.readUInt32LE(local + 18));
+        files.push({ name, data: zlib.inflateRawSync(compressed), crc: archive.readUInt32LE(position + 16), flags: archive.readUInt16LE(position + 8) });
+        position += 46 + nameLength;
+    }
+    return files;
+}
+
+suite('ZIP writer', () => {
+    let folder: string;
+
+    setup(() => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), 'code-logger-zip-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    test('computes the standard CRC-32', () => {
+        assert.strictEqual(crc32(Buffer.from('123456789')), 0xcbf43926);
+        assert.strictEqual(crc32(Buffer.alloc(0)), 0);
+    });
+
+    test('writes entries that can be read back', () => {
+        const entries = [
+            { name: 'main.py', data: Buffer.from('print("hello")\n'.repeat(100)) },
+            { name: '.logs/s1/課題_part1.jsonl', data: Buffer.from('{"type":"session"}\n'), modified: new Date(2024, 0, 2, 3, 4, 6) },
+            { name: 'empty.txt', data: Buffer.alloc(0) }
+        ];
+        const zipFile = path.join(folder, 'submission.zip');
+        writeZip(zipFile, entries);
+
+        const files = readZip(zipFile);
+        assert.deepStrictEqual(files.map(file => file.name), entries.map(entry => entry.name));
+        files.forEach((file, index) => {
+            assert.ok(file.data.equals(entries[index].data));
+            assert.strictEqual(file.crc, crc32(entries[index].data));
+            // ファイル名はUTF-8
+            assert.strictEqual(file.flags & 0x0800, 0x0800);
+        });
+        assert.ok(fs.statSync(zipFile).size < entries[0].data.length);
+        assert.deepStrictEqual(fs.readdirSync(folder), ['submission.zip']);
+    });
+
+    test('writes an empty archive', () => {
+        const zipFile = path.join(folder, 'empty.zip');
+        writeZip(zipFile, []);
+        assert.strictEqual(fs.statSync(zipFile).size, 22);
+        assert.deepStrictEqual(readZip(zipFile), []);
+    });
+});
@@ -0,0 +1,173 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TestCaseResult, formatTestResults, parseJUnitXml } from './junit';
+
+// テストの実行結果
+export interface TestRun {
+    // テストしたファイル、またはフォルダ
+    target: string;
+    scope: 'file' | 'workspace';
+    command: string;
+    exitCode: number;
+    duration: number;
+    output: string;
+    results: TestCaseResult[];
+    // pytest を起動できなかった場合などのエラー
+    error?: string;
+}
+
+// テストの実行に使う設定
+export interface TestRunOptions {
+    python: string;
+    // 実行時間の上限（ミリ秒、0なら無制限）
+    timeoutMs: number;
+    // 記録する出力の上限（バイト、0なら無制限）
+    maxOutputBytes: number;
+}
+
+// pytest がテストとして集めるファイル名かどうか
+export function isTestFile(filePath: string): boolean {
+    const name = path.basename(filePath);
+    return /^test_.*\.py$/.test(name) || /_test\.py$/.test(name);
+}
+
+// pytest の終了コードの意味
+function describeExitCode(exitCode: number): string | undefined {
+    switch (exitCode) {
+        case 2: return 'テストの実行が中断されました';
+        case 3: return 'pytest の内部エラーが発生しました';
+        case 4: return 'pytest の引数が正しくありません';
+        case 5: return 'テストが見つかりませんでした';
+        default: return undefined;
+    }
+}
+
+// pytest でテストを実行し、JUnit XML の結果を出力チャネルに表示する
+export class TestRunner implements vscode.Disposable {
+    private output: vscode.OutputChannel;
+    private process: cp.ChildProcess | null;
+
+    constructor(private options: () => TestRunOptions, private onFinish: (run: TestRun) => void) {
+        this.output = vscode.window.createOutputChannel('Logger: Tests');
+        this.process = null;
+    }
+
+    // テストの対象を決める（開いているファイルがテストファイルならそのファイル、そうでなければワークスペース）
+    private resolveTarget(): { target: string; scope: 'file' | 'workspace'; cwd: string } | undefined {
+        const document = vscode.window.activeTextEditor?.document;
+        const activeFile = document && document.uri.scheme === 'file' ? document.fileName : undefined;
+        const folder = (document && vscode.workspace.getWorkspaceFolder(document.uri)) || vscode.workspace.workspaceFolders?.[0];
+
+        if (activeFile && isTestFile(activeFile)) {
+            return { target: activeFile, scope: 'file', cwd: folder ? folder.uri.fsPath : path.dirname(activeFile) };
+        }
+        if (folder) {
+            return { target: folder.uri.fsPath, scope: 'workspace', cwd: folder.uri.fsPath };
+        }
+        return undefined;
+    }
+
+    public async runTests(): Promise<void> {
+        if (this.process) {
+            vscode.window.showInformationMessage('テストを実行中です。終わるまでお待ちください。');
+            return;
+        }
+
+        const resolved = this.resolveTarget();
+        if (!resolved) {
+            vscode.window.showErrorMessage('テストを実行するフォルダを開いてください。');
+            return;
+        }
+
+        // テストするソースの変更を反映する
+        await vscode.workspace.saveAll(false);
+
+        const options = this.options();
+        const reportFile = path.join(os.tmpdir(), `logger-junit-${process.pid}-${Date.now()}.xml`);
+        const args = ['-m', 'pytest', resolved.target, `--junitxml=${reportFile}`, '-o', 'junit_family=xunit2'];
+        const command = [options.python, ...args].join(' ');
+        const startTime = Date.now();
+
+        this.output.clear();
+        this.output.show(true);
+        this.output.appendLine(`実行中: ${command}`);
+        this.output.appendLine('----------------------------------------');
+
+        let output = '';
+        let outputBytes = 0;
+        const append = (data: Buffer) => {
+            this.output.append(data.toString());
+            if (options.maxOutputBytes === 0 || outputBytes < options.maxOutputBytes) {
+                output += data.toString();
+            }
+            outputBytes += data.length;
+        };
+
+        const child = cp.spawn(options.python, args, { cwd: resolved.cwd, env: process.env });
+        this.process = child;
+        child.stdout?.on('data', append);
+        child.stderr?.on('data', append);
+
+        const timer = options.timeoutMs > 0
+            ? setTimeout(() => {
+                this.output.appendLine(`\n実行時間の上限 (${options.timeoutMs / 1000}秒) を超えたため停止しました`);
+                child.kill();
+            }, options.timeoutMs)
+            : null;
+
+        // exit と error の両方が発生することがあるため、終了処理は1回だけ行う
+        let finished = false;
+        const finish = (exitCode: number, error?: string) => {
+            if (finished) {
+                return;
+            }
+            finished = true;
+            if (timer) {
+                clearTimeout(timer);
+            }
+            this.process = null;
+
+            let results: TestCaseResult[] = [];
+            if (fs.existsSync(reportFile)) {
+                try {
+                    results = parseJUnitXml(fs.readFileSync(reportFile, 'utf8'));
+                } catch (readError) {
+                    error = error || `テスト結果を読み込めません: ${readError instanceof Error ? readError.message : readError}`;
+                } finally {
+                    fs.rmSync(reportFile, { force: true });
+                }
+            }
+            error = error || (results.length === 0 ? describeExitCode(exitCode) : undefined);
+
+            this.output.appendLine('----------------------------------------');
+            if (results.length > 0) {
+                this.output.appendLine(formatTestResults(results));
+            }
+            if (error) {
+                this.output.appendLine(error);
+            }
+
+            this.onFinish({
+                target: resolved.target,
+                scope: resolved.scope,
+                command: command,
+                exitCode: exitCode,
+                duration: Date.now() - startTime,
+                output: output,
+                results: results,
+                error: error
+            });
+        };
+
+        child.on('error', error => finish(1, `pytest を起動できません: ${error.message}`));
+        child.on('close', code => finish(code === null ? 1 : code));
+    }
+
+    public dispose(): void {
+        this.process?.kill();
+        this.output.dispose();
+    }
+}
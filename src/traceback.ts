@@ -0,0 +1,192 @@
+// トレースバックの1フレーム
+export interface TracebackFrame {
+    file: string;
+    line: number;
+    function: string;
+    source?: string;
+}
+
+// SyntaxErrorでキャレット（^）が指している位置
+export interface SyntaxErrorLocation {
+    file: string;
+    line: number;
+    source: string;
+    // ソース行（先頭の空白を除いたもの）内の列（0始まり）
+    column: number;
+    length: number;
+}
+
+// 1つの例外
+export interface PythonException {
+    type: string;
+    message: string;
+    frames: TracebackFrame[];
+    syntaxError?: SyntaxErrorLocation;
+}
+
+// 連鎖した例外（前の例外との関係）
+export interface ChainedException {
+    // cause: "The above exception was the direct cause..."
+    // context: "During handling of the above exception..."
+    relation: 'cause' | 'context';
+    exception: PythonException;
+}
+
+// トレースバック全体（最後に送出された例外と、それに至る連鎖）
+export interface ParsedTraceback extends PythonException {
+    chain: ChainedException[];
+}
+
+const CAUSE_SEPARATOR = 'The above exception was the direct cause of the following exception:';
+const CONTEXT_SEPARATOR = 'During handling of the above exception, another exception occurred:';
+
+const FRAME_PATTERN = /^\s*File "(.+)", line (\d+)(?:, in (.+))?\s*$/;
+const CARET_PATTERN = /^\s*[~^]+\s*$/;
+const EXCEPTION_PATTERN = /^([A-Za-z_][\w.]*)(?::\s?(.*))?$/;
+// トレースバックの外にある行は、例外らしい名前のときだけ例外とみなす（print の出力や sys.exit("...") を除く）
+const EXCEPTION_NAME_PATTERN = /(Error|Exception|Warning|Exit|Interrupt|Iteration)$/;
+
+// トレースバックの見出しやフレームの後でなくても例外とみなせる名前か
+function looksLikeException(type: string): boolean {
+    return EXCEPTION_NAME_PATTERN.test(type.split('.').pop() || type);
+}
+
+// 1つの例外ブロックを解析する
+function parseBlock(lines: string[]): PythonException | null {
+    const frames: TracebackFrame[] = [];
+    let syntaxError: SyntaxErrorLocation | undefined;
+    let exception: { type: string; message: string[] } | null = null;
+    let lastSourceLine: string | null = null;
+    // トレースバックの見出しかフレームの後にいるか
+    let inTraceback = false;
+
+    for (const line of lines) {
+        // トレースバックより前にプログラム自身が出力した行は捨てて解析し直す
+        if (line.startsWith('Traceback (most recent call last)') || (exception && FRAME_PATTERN.test(line))) {
+            frames.length = 0;
+            syntaxError = undefined;
+            exception = null;
+            lastSourceLine = null;
+            inTraceback = true;
+        }
+
+        if (exception) {
+            // 例外行に続く行はメッセージの続き（複数行のメッセージや注記）
+            if (line.trim()) {
+                exception.message.push(line);
+            }
+            continue;
+        }
+
+        if (line.startsWith('Traceback (most recent call last)') || !line.trim()) {
+            continue;
+        }
+
+        const frameMatch = FRAME_PATTERN.exec(line);
+        if (frameMatch) {
+            frames.push({
+                file: frameMatch[1],
+                line: Number(frameMatch[2]),
+                function: frameMatch[3] || '<module>'
+            });
+            lastSourceLine = null;
+            inTraceback = true;
+            continue;
+        }
+
+        if (CARET_PATTERN.test(line)) {
+            // SyntaxErrorではキャレットがソース行の問題箇所を指す
+            if (lastSourceLine !== null && frames.length > 0) {
+                const sourceIndent = lastSourceLine.length - lastSourceLine.trimStart().length;
+                const caretStart = line.search(/[~^]/);
+                const frame = frames[frames.length - 1];
+                syntaxError = {
+                    file: frame.file,
+                    line: frame.line,
+                    source: lastSourceLine.trim(),
+                    column: Math.max(caretStart - sourceIndent, 0),
+                    length: line.trim().length
+                };
+            }
+            continue;
+        }
+
+        if (/^\s/.test(line)) {
+            // インデントされた行は直前のフレームのソース行
+            if (frames.length > 0 && frames[frames.length - 1].source === undefined) {
+                frames[frames.length - 1].source = line.trim();
+            }
+            lastSourceLine = line;
+            continue;
+        }
+
+        const exceptionMatch = EXCEPTION_PATTERN.exec(line);
+        if (exceptionMatch && (inTraceback || looksLikeException(exceptionMatch[1]))) {
+            exception = { type: exceptionMatch[1], message: exceptionMatch[2] ? [exceptionMatch[2]] : [] };
+        }
+    }
+
+    if (!exception) {
+        return null;
+    }
+
+    // キャレットはSyntaxError系の例外のときだけ意味を持つ
+    const isSyntaxError = /(SyntaxError|IndentationError|TabError)$/.test(exception.type);
+    return {
+        type: exception.type,
+        message: exception.message.join('\n'),
+        frames: frames,
+        syntaxError: isSyntaxError ? syntaxError : undefined
+    };
+}
+
+// Pythonの標準エラー出力からトレースバックを解析する（解析できない場合はnull）
+export function parseTraceback(stderr: string): ParsedTraceback | null {
+    const lines = stderr.replace(/\r\n/g, '\n').split('\n');
+    const blocks: { relation?: 'cause' | 'context'; lines: string[] }[] = [{ lines: [] }];
+
+    for (const line of lines) {
+        const trimmed = line.trim();
+        if (trimmed === CAUSE_SEPARATOR) {
+            blocks.push({ relation: 'cause', lines: [] });
+        } else if (trimmed === CONTEXT_SEPARATOR) {
+            blocks.push({ relation: 'context', lines: [] });
+        } else {
+            blocks[blocks.length - 1].lines.push(line);
+        }
+    }
+
+    const exceptions = blocks.map(block => ({ relation: block.relation, exception: parseBlock(block.lines) }));
+    const last = exceptions[exceptions.length - 1];
+    if (!last.exception) {
+        return null;
+    }
+
+    // 連鎖の関係は後ろの例外側に記録されているので、1つずつずらして対応づける
+    const chain: ChainedException[] = [];
+    for (let i = 0; i < exceptions.length - 1; i++) {
+        const exception = exceptions[i].exception;
+        if (exception) {
+            chain.push({ relation: exceptions[i + 1].relation || 'context', exception });
+        }
+    }
+
+    return { ...last.exception, chain };
+}
+
+// 指定したファイルで失敗した行（1始まり）を求める
+export function failingLine(traceback: PythonException, filePath: string): number | undefined {
+    if (traceback.syntaxError) {
+        return traceback.syntaxError.line;
+    }
+
+    // 最も内側にある、対象ファイル内のフレーム
+    const normalized = filePath.replace(/\\/g, '/').toLowerCase();
+    for (let i = traceback.frames.length - 1; i >= 0; i--) {
+        const frameFile = traceback.frames[i].file.replace(/\\/g, '/').replace(/^\.\//, '').toLowerCase();
+        if (normalized === frameFile || normalized.endsWith(`/${frameFile}`)) {
+            return traceback.frames[i].line;
+        }
+    }
+    return undefined;
+}
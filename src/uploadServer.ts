@@ -0,0 +1,179 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import * as http from 'http';
+
+// 収集サーバーの代わりに使うローカルサーバー（動作確認・テスト用）
+// UploadQueue と同じプロトコルでイベントを受け取り、生徒・セッションごとのJSONLに書き込む
+// /alerts へのPOSTはTAのダッシュボードへの通知として alerts.jsonl に書き込む
+// 使い方: node out/uploadServer.js [--port 8787] [--out ./received] [--tokens tokens.json]
+
+export interface UploadServerOptions {
+    port: number;
+    host?: string;
+    // 受け取ったイベントを書き込むフォルダ
+    outputFolder: string;
+    // 生徒IDごとのトークン（省略時はトークンを確認しない）
+    tokens?: { [studentId: string]: string };
+    // 受け付けるリクエストの最大サイズ（バイト）
+    maxBodyBytes?: number;
+}
+
+const DEFAULT_MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+// 受け付け済みのバッチIDを記録するファイル
+function receivedFileOf(outputFolder: string): string {
+    return path.join(outputFolder, 'received-batches.txt');
+}
+
+// ファイル名に使えない文字を置き換える
+function safeName(name: string): string {
+    return name.replace(/[^\w.-]/g, '_');
+}
+
+function reply(response: http.ServerResponse, status: number, body: object): void {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+}
+
+// サーバーを起動する
+export function startUploadServer(options: UploadServerOptions): Promise<http.Server> {
+    fs.mkdirSync(options.outputFolder, { recursive: true });
+    const receivedFile = receivedFileOf(options.outputFolder);
+    const received = new Set<string>(
+        fs.existsSync(receivedFile)
+            ? fs.readFileSync(receivedFile, 'utf8').split('\n').filter(line => line.length > 0)
+            : []
+    );
+    const maxBodyBytes = options.maxBodyBytes || DEFAULT_MAX_BODY_BYTES;
+
+    // 生徒IDに対応するトークンが送られているか
+    const isAuthorized = (request: http.IncomingMessage, studentId: string) => {
+        if (!options.tokens) {
+            return true;
+        }
+        const token = (request.headers.authorization || '').replace(/^Bearer\s+/i, '');
+        return options.tokens[studentId] !== undefined && options.tokens[studentId] === token;
+    };
+
+    // TAへの通知を受け取る
+    const receiveAlert = (request: http.IncomingMessage, response: http.ServerResponse, body: any) => {
+        if (!body || typeof body.studentId !== 'string' || typeof body.ruleId !== 'string') {
+            reply(response, 400, { error: 'studentId and ruleId are required' });
+            return;
+        }
+        if (!isAuthorized(request, body.studentId)) {
+            reply(response, 401, { error: 'invalid token' });
+            return;
+        }
+        try {
+            fs.appendFileSync(path.join(options.outputFolder, 'alerts.jsonl'), JSON.stringify({ receivedAt: new Date().toISOString(), ...body }) + '\n', 'utf8');
+        } catch (error) {
+            reply(response, 500, { error: String(error) });
+            return;
+        }
+        reply(response, 200, { accepted: 1 });
+    };
+
+    const server = http.createServer((request, response) => {
+        if (request.method !== 'POST') {
+            reply(response, 405, { error: 'method not allowed' });
+            return;
+        }
+
+        const chunks: Buffer[] = [];
+        let size = 0;
+        request.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size <= maxBodyBytes) {
+                chunks.push(chunk);
+            }
+        });
+        request.on('end', () => {
+            if (size > maxBodyBytes) {
+                reply(response, 413, { error: 'payload too large' });
+                return;
+            }
+
+            let body: any;
+            try {
+                body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+            } catch {
+                reply(response, 400, { error: 'invalid json' });
+                return;
+            }
+            if (new URL(request.url || '/', 'http://localhost').pathname.endsWith('/alerts')) {
+                receiveAlert(request, response, body);
+                return;
+            }
+            if (!body || typeof body.studentId !== 'string' || typeof body.sessionId !== 'string' || !Array.isArray(body.events)) {
+                reply(response, 400, { error: 'studentId, sessionId and events are required' });
+                return;
+            }
+
+            if (!isAuthorized(request, body.studentId)) {
+                reply(response, 401, { error: 'invalid token' });
+                return;
+            }
+
+            // 同じバッチの再送は受け付け済みとして扱う
+            const batchId = String(request.headers['idempotency-key'] || body.batchId || '');
+            if (batchId && received.has(batchId)) {
+                reply(response, 200, { accepted: 0, duplicate: true });
+                return;
+            }
+
+            try {
+                const folder = path.join(options.outputFolder, safeName(body.studentId));
+                fs.mkdirSync(folder, { recursive: true });
+                fs.appendFileSync(
+                    path.join(folder, `${safeName(body.sessionId)}.jsonl`),
+                    body.events.map((event: any) => JSON.stringify(event) + '\n').join(''),
+                    'utf8'
+                );
+                if (batchId) {
+                    received.add(batchId);
+                    fs.appendFileSync(receivedFile, batchId + '\n', 'utf8');
+                }
+            } catch (error) {
+                reply(response, 500, { error: String(error) });
+                return;
+            }
+            reply(response, 200, { accepted: body.events.length, duplicate: false });
+        });
+    });
+
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(options.port, options.host || '127.0.0.1', () => resolve(server));
+    });
+}
+
+// コマンドラインから起動された場合
+if (require.main === module) {
+    const args = process.argv.slice(2);
+    const valueOf = (name: string) => {
+        const index = args.indexOf(name);
+        return index >= 0 ? args[index + 1] : undefined;
+    };
+
+    const tokensFile = valueOf('--tokens');
+    const options: UploadServerOptions = {
+        port: Number(valueOf('--port') || 8787),
+        host: valueOf('--host'),
+        outputFolder: path.resolve(valueOf('--out') || 'received'),
+        tokens: tokensFile ? JSON.parse(fs.readFileSync(tokensFile, 'utf8')) : undefined
+    };
+
+    startUploadServer(options).then(
+        server => {
+            const address = server.address();
+            const port = address && typeof address === 'object' ? address.port : options.port;
+            console.log(`Listening on http://${options.host || '127.0.0.1'}:${port}/ (writing to ${options.outputFolder})`);
+        },
+        error => {
+            console.error(error);
+            process.exit(1);
+        }
+    );
+}
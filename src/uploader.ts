@@ -0,0 +1,329 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as https from 'https';
+import { EventBatch, EventSink } from './eventSink';
+import { JournalEvent } from './journal';
+
+// 収集サーバーへの送信設定
+export interface UploadOptions {
+    // 空なら送信しない
+    endpoint: string;
+    // 生徒ごとのトークン
+    token: string;
+    // 1回のリクエストで送るイベントの最大数
+    batchSize: number;
+}
+
+// 送信待ちの状態
+export interface UploadStatus {
+    enabled: boolean;
+    pending: number;
+    sending: boolean;
+    lastError?: string;
+    nextRetry?: Date;
+    // サーバーに拒否されて送信をやめたイベントの数（バッチは rejected フォルダに残す）
+    rejected: number;
+}
+
+// 送信待ちのバッチ（1ファイル1リクエスト）
+interface QueuedBatch {
+    // 再送時にサーバー側で重複を除くためのキー
+    batchId: string;
+    createdAt: string;
+    studentId: string;
+    sessionId: string;
+    events: JournalEvent[];
+}
+
+const MIN_RETRY_MS = 1000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+
+// ログの送信先フォルダ（送信待ちのバッチを置く）
+export function uploadQueueFolder(logFolder: string): string {
+    return path.join(logFolder, 'upload-queue');
+}
+
+// 再送しても受け付けられない応答（トークンの誤り、形式の誤りなど）
+// 408（タイムアウト）と429（送信が多すぎる）は時間をおけば受け付けられるため再送する
+function isPermanentFailure(status: number): boolean {
+    return status >= 400 && status < 500 && status !== 408 && status !== 429;
+}
+
+// サーバーがバッチを拒否した
+class UploadRejectedError extends Error {
+    constructor(public status: number) {
+        super(`HTTP ${status}`);
+    }
+}
+
+// イベントを収集サーバーに送るキュー
+// オフラインでも失われないよう、送信待ちのバッチはファイルに保存し、送信できたら削除する
+export class UploadQueue implements EventSink {
+    private folder: string;
+    private pendingEvents: Map<string, number>;
+    private sequence: number;
+    private sending: boolean;
+    private failures: number;
+    private retryTimer: NodeJS.Timeout | null;
+    private nextRetry?: Date;
+    private lastError?: string;
+    private rejected: number;
+    private disposed: boolean;
+
+    constructor(
+        folder: string,
+        private options: () => UploadOptions,
+        private onChange: (status: UploadStatus) => void
+    ) {
+        this.folder = folder;
+        this.pendingEvents = new Map();
+        this.sequence = 0;
+        this.sending = false;
+        this.failures = 0;
+        this.retryTimer = null;
+        this.rejected = 0;
+        this.disposed = false;
+
+        // 前回送れなかったバッチと、拒否されたバッチを読み込む
+        for (const file of this.queuedFiles()) {
+            const batch = this.readBatch(file);
+            this.pendingEvents.set(file, batch ? batch.events.length : 0);
+        }
+        for (const file of this.queuedFiles(this.rejectedFolder)) {
+            const batch = this.readBatch(file);
+            this.rejected += batch ? batch.events.length : 0;
+        }
+        this.notify();
+        this.trigger();
+    }
+
+    // 送信待ちのイベントの数
+    public get pendingCount(): number {
+        let count = 0;
+        this.pendingEvents.forEach(events => count += events);
+        return count;
+    }
+
+    public get status(): UploadStatus {
+        return {
+            enabled: this.options().endpoint.length > 0,
+            pending: this.pendingCount,
+            sending: this.sending,
+            lastError: this.lastError,
+            nextRetry: this.nextRetry,
+            rejected: this.rejected
+        };
+    }
+
+    // ジャーナルに書き込まれたイベントを送信待ちにする
+    public publish(batch: EventBatch): void {
+        const options = this.options();
+        if (!options.endpoint || batch.events.length === 0) {
+            return;
+        }
+
+        const events = batch.events.map(event => ({
+            ...event,
+            documentUri: event.documentUri || batch.documentUri,
+            fileName: event.fileName || batch.fileName
+        }));
+        const size = Math.max(options.batchSize, 1);
+        for (let i = 0; i < events.length; i += size) {
+            this.enqueue({
+                batchId: crypto.randomUUID ? crypto.randomUUID() : crypto.randomBytes(16).toString('hex'),
+                createdAt: new Date().toISOString(),
+                studentId: batch.studentId,
+                sessionId: batch.sessionId,
+                events: events.slice(i, i + size)
+            });
+        }
+        this.notify();
+        this.trigger();
+    }
+
+    // 待機中の再送を取りやめて、すぐに送信する
+    public syncNow(): void {
+        this.failures = 0;
+        this.clearRetry();
+        this.trigger();
+    }
+
+    // バッチをファイルに保存する（一時ファイルに書いてから置き換える）
+    private enqueue(batch: QueuedBatch): void {
+        try {
+            if (!fs.existsSync(this.folder)) {
+                fs.mkdirSync(this.folder, { recursive: true });
+            }
+            // ファイル名の順に送るため、時刻と連番を先頭に付ける
+            const name = `${Date.now().toString().padStart(15, '0')}-${String(this.sequence++).padStart(6, '0')}-${batch.batchId}.json`;
+            const filePath = path.join(this.folder, name);
+            fs.writeFileSync(`${filePath}.tmp`, JSON.stringify(batch), 'utf8');
+            fs.renameSync(`${filePath}.tmp`, filePath);
+            this.pendingEvents.set(filePath, batch.events.length);
+        } catch (error) {
+            console.error('Failed to queue upload batch:', error);
+        }
+    }
+
+    // 拒否されたバッチを移すフォルダ
+    private get rejectedFolder(): string {
+        return path.join(this.folder, 'rejected');
+    }
+
+    // 送信待ちのファイル（古い順）
+    private queuedFiles(folder: string = this.folder): string[] {
+        if (!fs.existsSync(folder)) {
+            return [];
+        }
+        return fs.readdirSync(folder)
+            .filter(file => file.endsWith('.json'))
+            .sort()
+            .map(file => path.join(folder, file));
+    }
+
+    private readBatch(filePath: string): QueuedBatch | undefined {
+        try {
+            return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        } catch {
+            return undefined;
+        }
+    }
+
+    // 送信中でも再送待ちでもなければ送信を始める
+    private trigger(): void {
+        if (this.sending || this.retryTimer || this.disposed || !this.options().endpoint) {
+            return;
+        }
+        this.sendPending()
+            .then(() => {
+                // 送信中に追加されたバッチがあれば続けて送る
+                if (this.queuedFiles().length > 0) {
+                    this.trigger();
+                }
+            })
+            .catch(error => console.error('Upload failed:', error));
+    }
+
+    // 送信待ちのバッチを古い順に送る（失敗したら待ってから再送する）
+    private async sendPending(): Promise<void> {
+        this.sending = true;
+        this.notify();
+        try {
+            for (const file of this.queuedFiles()) {
+                if (this.disposed) {
+                    return;
+                }
+                const batch = this.readBatch(file);
+                if (batch) {
+                    try {
+                        await this.post(batch);
+                    } catch (error) {
+                        this.lastError = error instanceof Error ? error.message : String(error);
+                        if (error instanceof UploadRejectedError) {
+                            // 再送しても受け付けられないので、送信待ちから外して残しておく
+                            this.reject(file, batch);
+                            continue;
+                        }
+                        this.scheduleRetry();
+                        return;
+                    }
+                }
+                // 送信できたバッチと、読めない（送っても受け付けられない）バッチを取り除く
+                fs.unlinkSync(file);
+                this.pendingEvents.delete(file);
+                this.failures = 0;
+                this.lastError = undefined;
+                this.notify();
+            }
+        } finally {
+            this.sending = false;
+            this.notify();
+        }
+    }
+
+    // 拒否されたバッチを rejected フォルダに移す
+    private reject(file: string, batch: QueuedBatch): void {
+        try {
+            fs.mkdirSync(this.rejectedFolder, { recursive: true });
+            fs.renameSync(file, path.join(this.rejectedFolder, path.basename(file)));
+        } catch (error) {
+            console.error('Failed to move rejected upload batch:', error);
+            return;
+        }
+        this.pendingEvents.delete(file);
+        this.rejected += batch.events.length;
+        this.notify();
+    }
+
+    // 失敗が続くほど間隔を空けて再送する（指数バックオフ、揺らぎ付き）
+    private scheduleRetry(): void {
+        this.failures++;
+        const delay = Math.min(MIN_RETRY_MS * Math.pow(2, this.failures - 1), MAX_RETRY_MS) * (0.5 + Math.random() / 2);
+        this.nextRetry = new Date(Date.now() + delay);
+        this.retryTimer = setTimeout(() => {
+            this.clearRetry();
+            this.trigger();
+        }, delay);
+    }
+
+    private clearRetry(): void {
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+        this.nextRetry = undefined;
+    }
+
+    // バッチを送信する（2xx、または既に受け付け済みを示す409で成功とする）
+    // 再送しても受け付けられない応答は UploadRejectedError で失敗させる
+    private post(batch: QueuedBatch): Promise<void> {
+        const options = this.options();
+        const url = new URL(options.endpoint);
+        const body = JSON.stringify({
+            batchId: batch.batchId,
+            studentId: batch.studentId,
+            sessionId: batch.sessionId,
+            createdAt: batch.createdAt,
+            events: batch.events
+        });
+        const client = url.protocol === 'https:' ? https : http;
+
+        return new Promise((resolve, reject) => {
+            const request = client.request(url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Content-Length': Buffer.byteLength(body),
+                    'Authorization': `Bearer ${options.token}`,
+                    'Idempotency-Key': batch.batchId
+                },
+                timeout: REQUEST_TIMEOUT_MS
+            }, response => {
+                response.resume();
+                const status = response.statusCode || 0;
+                if ((status >= 200 && status < 300) || status === 409) {
+                    resolve();
+                } else if (isPermanentFailure(status)) {
+                    reject(new UploadRejectedError(status));
+                } else {
+                    reject(new Error(`HTTP ${status}`));
+                }
+            });
+            request.on('timeout', () => request.destroy(new Error('Request timed out')));
+            request.on('error', reject);
+            request.end(body);
+        });
+    }
+
+    private notify(): void {
+        this.onChange(this.status);
+    }
+
+    public dispose(): void {
+        this.disposed = true;
+        this.clearRetry();
+    }
+}
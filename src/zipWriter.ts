@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+
+// ZIPアーカイブに入れるファイル
+export interface ZipEntry {
+    // アーカイブ内のパス（区切りは /）
+    name: string;
+    data: Buffer;
+    modified?: Date;
+}
+
+// CRC-32の計算表
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export function crc32(data: Buffer): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+// 日時をMS-DOS形式の日付・時刻にする
+function dosDateTime(date: Date): { date: number; time: number } {
+    const year = Math.max(date.getFullYear(), 1980);
+    return {
+        date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2)
+    };
+}
+
+// ファイルをDeflateで圧縮したZIPアーカイブを書き込む（4GBを超えるアーカイブには対応しない）
+export function writeZip(filePath: string, entries: ZipEntry[]): void {
+    const chunks: Buffer[] = [];
+    const central: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.name, 'utf8');
+        const compressed = zlib.deflateRawSync(entry.data);
+        const crc = crc32(entry.data);
+        const { date, time } = dosDateTime(entry.modified || new Date());
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(20, 4);
+        // ファイル名はUTF-8
+        local.writeUInt16LE(0x0800, 6);
+        local.writeUInt16LE(8, 8);
+        local.writeUInt16LE(time, 10);
+        local.writeUInt16LE(date, 12);
+        local.writeUInt32LE(crc, 14);
+        local.writeUInt32LE(compressed.length, 18);
+        local.writeUInt32LE(entry.data.length, 22);
+        local.writeUInt16LE(name.length, 26);
+        local.writeUInt16LE(0, 28);
+        chunks.push(local, name, compressed);
+
+        const header = Buffer.alloc(46);
+        header.writeUInt32LE(0x02014b50, 0);
+        header.writeUInt16LE(20, 4);
+        header.writeUInt16LE(20, 6);
+        header.writeUInt16LE(0x0800, 8);
+        header.writeUInt16LE(8, 10);
+        header.writeUInt16LE(time, 12);
+        header.writeUInt16LE(date, 14);
+        header.writeUInt32LE(crc, 16);
+        header.writeUInt32LE(compressed.length, 20);
+        header.writeUInt32LE(entry.data.length, 24);
+        header.writeUInt16LE(name.length, 28);
+        header.writeUInt32LE(offset, 42);
+        central.push(header, name);
+
+        offset += local.length + name.length + compressed.length;
+    }
+
+    const centralSize = central.reduce((size, chunk) => size + chunk.length, 0);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralSize, 12);
+    end.writeUInt32LE(offset, 16);
+
+    // 書き込み途中のアーカイブが残らないよう、一時ファイルに書いてから置き換える
+    const tempFile = `${filePath}.tmp`;
+    fs.writeFileSync(tempFile, Buffer.concat([...chunks, ...central, end]));
+    fs.renameSync(tempFile, filePath);
+}